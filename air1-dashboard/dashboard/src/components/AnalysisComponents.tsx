@@ -1,6 +1,7 @@
 import type { Component } from 'solid-js';
 import { For, Show } from 'solid-js';
-import { THRESHOLDS, cardStyle, labelStyle, mono } from './thresholds';
+import { activeIndexStandard } from './index-standards';
+import { cardStyle, getThreshold, labelStyle, mono } from './thresholds';
 import type { SensorData } from './types';
 
 // --- ParticleBreakdown ---
@@ -248,6 +249,8 @@ export const WHOBars: Component<WHOBarsProps> = (props) => {
 
 interface StatusPanelProps {
   data: SensorData;
+  // PM2.5 averaged over the active standard's period, rated instead of the current value when known
+  pm25Average?: number;
 }
 
 interface Tip {
@@ -260,27 +263,33 @@ export const StatusPanel: Component<StatusPanelProps> = (props) => {
   const computed = () => {
     const tips: Tip[] = [];
     const pm = Number.parseFloat(props.data.pm25);
+    const averaged = props.pm25Average !== undefined;
+    const pmT = getThreshold('pm25', averaged ? String(props.pm25Average) : props.data.pm25);
+    const pmName = averaged ? `PM2.5 (${activeIndexStandard().averaging.pm25})` : 'PM2.5';
     const co = Number.parseFloat(props.data.co2);
     const hu = Number.parseFloat(props.data.humidity);
     const vo = Number.parseFloat(props.data.voc);
 
-    if (!Number.isNaN(pm)) {
-      if (pm > 150)
+    if (pmT) {
+      // Tier label of the active index standard, e.g. "Moderate (US EPA AQI)"
+      const level = `${pmT.label} (${activeIndexStandard().name})`;
+      const severity = pmT.severity ?? 0;
+      if (severity >= 3)
         tips.push({
           e: '\uD83D\uDD34',
-          t: 'PM2.5 is Unhealthy+. Run HEPA filter and ventilate.',
+          t: `${pmName} is ${level}. Run HEPA filter and ventilate.`,
         });
-      else if (pm > 55)
+      else if (severity === 2)
         tips.push({
           e: '\uD83D\uDFE0',
-          t: 'PM2.5 elevated. Open a window or run air purifier.',
+          t: `${pmName} is ${level}. Open a window or run air purifier.`,
         });
-      else if (pm > 35)
+      else if (severity === 1)
         tips.push({
           e: '\uD83D\uDFE1',
-          t: 'PM2.5 moderate. Sensitive individuals take note.',
+          t: `${pmName} is ${level}. Sensitive individuals take note.`,
         });
-      else if (pm <= 12) tips.push({ e: '\uD83D\uDFE2', t: 'PM2.5 is within healthy range.' });
+      else tips.push({ e: '\uD83D\uDFE2', t: `${pmName} is ${level}, within healthy range.` });
       if (pm > 15)
         tips.push({
           e: '',
@@ -327,16 +336,8 @@ export const StatusPanel: Component<StatusPanelProps> = (props) => {
     ];
     let worstTier = 0;
     for (const { type, value } of checks) {
-      if (!value) continue;
-      const v = Number.parseFloat(value);
-      if (Number.isNaN(v)) continue;
-      const tiers = THRESHOLDS[type];
-      for (let i = 0; i < tiers.length; i++) {
-        if (v <= tiers[i].max) {
-          worstTier = Math.max(worstTier, i);
-          break;
-        }
-      }
+      const t = getThreshold(type, value);
+      if (t) worstTier = Math.max(worstTier, t.severity ?? 0);
     }
 
     const statuses = [
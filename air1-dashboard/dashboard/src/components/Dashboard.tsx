@@ -1,10 +1,23 @@
 import type { Component } from 'solid-js';
 import { For, Show, createSignal, onMount } from 'solid-js';
 import { ParticleBreakdown, StatusPanel, WHOBars } from './AnalysisComponents';
-import { GaugeBar, VocQualityBadge } from './GaugeComponents';
+import { AqiBadge, GaugeBar, IndexStandardSelect, VocQualityBadge } from './GaugeComponents';
 import HADataSource from './HADataSource';
 import { HistoryCard } from './HistoryCard';
-import { clearAllStorage, deleteReading, exportHistory, importHistory, loadHistory, saveReading } from './storage';
+import { ImportPreview } from './ImportPreview';
+import { ThresholdEditor } from './ThresholdEditor';
+import { activeIndexStandard } from './index-standards';
+import {
+  DEFAULT_EXPORT_OPTION,
+  EXPORT_OPTIONS,
+  clearAllStorage,
+  deleteReading,
+  exportHistory,
+  loadHistory,
+  saveReading,
+} from './storage';
+import type { ImportResponse } from './storage-api';
+import { activeProfile, loadThresholdProfiles } from './threshold-profiles';
 import {
   MANUAL_FIELDS,
   cToF,
@@ -17,7 +30,7 @@ import {
   mono,
   timeAgo,
 } from './thresholds';
-import type { Reading, SensorData } from './types';
+import type { IndexValues, Reading, SensorData } from './types';
 
 const Dashboard: Component = () => {
   const [data, setData] = createSignal<SensorData>({ ...emptyData });
@@ -25,11 +38,16 @@ const Dashboard: Component = () => {
   const [compareId, setCompareId] = createSignal<string | null>(null);
   const [status, setStatus] = createSignal('');
   const [showManual, setShowManual] = createSignal(false);
+  const [showThresholds, setShowThresholds] = createSignal(false);
   const [ts, setTs] = createSignal<string | null>(null);
   const [room, setRoom] = createSignal('');
   const [loading, setLoading] = createSignal(true);
   const [viewingId, setViewingId] = createSignal<string | null>(null);
   const [snapshotName, setSnapshotName] = createSignal('');
+  const [indices, setIndices] = createSignal<IndexValues | null>(null);
+  const [exportOption, setExportOption] = createSignal(DEFAULT_EXPORT_OPTION);
+  // File picked for import, previewed before it is imported
+  const [pendingImport, setPendingImport] = createSignal<File | null>(null);
 
   // Derived signals
   const hasData = () => data().pm25 || data().co2 || data().humidity;
@@ -40,6 +58,7 @@ const Dashboard: Component = () => {
   const compData = () => compareReading()?.data ?? null;
 
   onMount(async () => {
+    loadThresholdProfiles().catch((err) => console.error('Failed to load threshold profiles:', err));
     const hist = await loadHistory();
     setHistory(hist);
     if (hist.length > 0) {
@@ -128,8 +147,8 @@ const Dashboard: Component = () => {
 
   const handleExport = async () => {
     try {
-      await exportHistory();
-      setStatus(`✓ Exported ${history().length} readings`);
+      await exportHistory(exportOption().format, exportOption().units);
+      setStatus(`✓ Exported readings as ${exportOption().label}`);
     } catch (e) {
       setStatus(`✕ ${e instanceof Error ? e.message : 'Export failed'}`);
     }
@@ -137,27 +156,25 @@ const Dashboard: Component = () => {
 
   let fileInput!: HTMLInputElement;
 
-  const handleImport = async (file: File) => {
-    try {
-      const hist = await importHistory(file);
-      setHistory(hist);
-      if (hist.length > 0) {
-        const latest = hist[hist.length - 1];
-        if (latest) {
-          setData({ ...emptyData, ...latest.data });
-          setRoom(latest.room || '');
-          setTs(latest.time);
-          setViewingId(latest.id);
-          if (hist.length > 1) {
-            const prev = hist[hist.length - 2];
-            if (prev) setCompareId(prev.id);
-          }
+  const handleImported = (hist: Reading[], result: ImportResponse) => {
+    setPendingImport(null);
+    setHistory(hist);
+    if (hist.length > 0) {
+      const latest = hist[hist.length - 1];
+      if (latest) {
+        setData({ ...emptyData, ...latest.data });
+        setRoom(latest.room || '');
+        setTs(latest.time);
+        setViewingId(latest.id);
+        if (hist.length > 1) {
+          const prev = hist[hist.length - 2];
+          if (prev) setCompareId(prev.id);
         }
       }
-      setStatus(`✓ Imported! ${hist.length} total readings`);
-    } catch (e) {
-      setStatus(`✕ ${e instanceof Error ? e.message : 'Import failed'}`);
     }
+    setStatus(
+      `✓ Imported ${result.imported} new, ${result.overwritten} overwritten, ${result.skipped} skipped, ${result.errors} rejected`,
+    );
   };
 
   const handleTakeSnapshot = async () => {
@@ -338,7 +355,12 @@ const Dashboard: Component = () => {
 
         {/* Home Assistant Data Source */}
         <div style={{ ...cardStyle, padding: '14px', 'margin-bottom': '12px' }}>
-          <HADataSource onDataUpdate={handleDataUpdate} onError={handleError} pausePolling={viewingId() !== null} />
+          <HADataSource
+            onDataUpdate={handleDataUpdate}
+            onAqiUpdate={setIndices}
+            onError={handleError}
+            pausePolling={viewingId() !== null}
+          />
           <Show when={status()}>
             <div
               style={{
@@ -488,6 +510,33 @@ const Dashboard: Component = () => {
           </button>
         </Show>
 
+        {/* Threshold Profiles */}
+        <Show
+          when={showThresholds()}
+          fallback={
+            <button
+              type="button"
+              onClick={() => setShowThresholds(true)}
+              style={{
+                width: '100%',
+                padding: '10px',
+                background: '#1e293b',
+                border: '1px solid #334155',
+                'border-radius': '6px',
+                color: '#94a3b8',
+                'font-size': '12px',
+                ...mono,
+                cursor: 'pointer',
+                'margin-bottom': '12px',
+              }}
+            >
+              Threshold Profiles{activeProfile() ? ` (${activeProfile()?.name})` : ''}
+            </button>
+          }
+        >
+          <ThresholdEditor onClose={() => setShowThresholds(false)} />
+        </Show>
+
         {/* Compare Indicator */}
         <Show when={compareReading() && hasData()}>
           <div
@@ -540,7 +589,10 @@ const Dashboard: Component = () => {
 
         {/* Dashboard */}
         <Show when={hasData()}>
-          <StatusPanel data={data()} />
+          <StatusPanel
+            data={data()}
+            pm25Average={viewingId() === null ? indices()?.[activeIndexStandard().id]?.concentrations.pm25 : undefined}
+          />
           <div
             style={{
               ...cardStyle,
@@ -550,6 +602,11 @@ const Dashboard: Component = () => {
               gap: '16px',
             }}
           >
+            <IndexStandardSelect />
+            {/* The AQI is only known for live data, not for stored snapshots */}
+            <Show when={viewingId() === null}>
+              <AqiBadge indices={indices()} />
+            </Show>
             <Show when={data().pm25}>
               <GaugeBar
                 value={data().pm25}
@@ -674,15 +731,21 @@ const Dashboard: Component = () => {
         <input
           ref={fileInput}
           type="file"
-          accept=".json"
+          accept=".json,.ndjson,.csv"
           style={{ display: 'none' }}
           onChange={(e) => {
             const file = e.currentTarget.files?.[0];
-            if (file) handleImport(file);
+            if (file) setPendingImport(file);
             e.currentTarget.value = '';
           }}
         />
 
+        <Show when={pendingImport()}>
+          {(file) => (
+            <ImportPreview file={file()} onImported={handleImported} onCancel={() => setPendingImport(null)} />
+          )}
+        </Show>
+
         {/* History */}
         <div style={{ 'margin-top': '20px' }}>
           <div
@@ -712,6 +775,24 @@ const Dashboard: Component = () => {
                 Import
               </button>
               <Show when={history().length > 0}>
+                <select
+                  aria-label="Export format"
+                  value={exportOption().id}
+                  onChange={(e) =>
+                    setExportOption(EXPORT_OPTIONS.find((o) => o.id === e.currentTarget.value) ?? DEFAULT_EXPORT_OPTION)
+                  }
+                  style={{
+                    background: 'none',
+                    border: '1px solid #1e293b',
+                    'border-radius': '4px',
+                    color: '#94a3b8',
+                    'font-size': '10px',
+                    ...mono,
+                    padding: '2px 4px',
+                  }}
+                >
+                  <For each={EXPORT_OPTIONS}>{(option) => <option value={option.id}>{option.label}</option>}</For>
+                </select>
                 <button
                   type="button"
                   onClick={handleExport}
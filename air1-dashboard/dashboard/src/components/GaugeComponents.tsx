@@ -1,14 +1,21 @@
 import type { Component } from 'solid-js';
-import { Show } from 'solid-js';
+import { For, Show } from 'solid-js';
+import { INDEX_STANDARDS, activeIndexStandard, selectIndexStandard } from './index-standards';
 import {
   HIGHER_IS_WORSE,
-  THRESHOLDS,
   VOC_QUALITY_COLORS,
   VOC_QUALITY_HINTS,
   getThreshold,
+  getTiers,
   labelStyle,
   mono,
 } from './thresholds';
+import type { AqiInfo, IndexStandardId, IndexValues } from './types';
+
+const POLLUTANT_LABELS: Record<AqiInfo['pollutant'], string> = {
+  pm25: 'PM2.5',
+  pm10: 'PM10',
+};
 
 // --- Delta ---
 
@@ -87,9 +94,12 @@ export const GaugeBar: Component<GaugeBarProps> = (props) => {
   return (
     <Show when={t()}>
       {(threshold) => {
-        const tiers = THRESHOLDS[props.thresholdKey];
-        const scaleMax = tiers[tiers.length - 2]?.max || tiers[tiers.length - 1].max;
-        const pct = () => Math.min((threshold().value / scaleMax) * 100, 100);
+        // Reactive, the tiers change with the selected index standard
+        const scaleMax = () => {
+          const tiers = getTiers(props.thresholdKey) ?? [];
+          return tiers[tiers.length - 2]?.max || tiers[tiers.length - 1]?.max || 1;
+        };
+        const pct = () => Math.min((threshold().value / scaleMax()) * 100, 100);
         return (
           <div style={{ 'margin-bottom': '2px' }}>
             <div
@@ -177,6 +187,107 @@ export const GaugeBar: Component<GaugeBarProps> = (props) => {
   );
 };
 
+// --- AqiBadge ---
+
+interface AqiBadgeProps {
+  indices: IndexValues | null;
+}
+
+export const AqiBadge: Component<AqiBadgeProps> = (props) => {
+  const index = () => props.indices?.[activeIndexStandard().id] ?? null;
+  const t = () => {
+    const current = index();
+    if (!current) return null;
+    // The US AQI has its own categories, regional indices are rated by the averaged concentration
+    if (activeIndexStandard().id === 'us_epa') return getThreshold('aqi', current.value.toString());
+    return getThreshold(current.pollutant, current.concentrations[current.pollutant]?.toString());
+  };
+  // AQHI+ is open-ended above 10
+  const displayValue = () => {
+    const value = index()?.value ?? 0;
+    return activeIndexStandard().id === 'ca_aqhi' && value > 10 ? '10+' : value;
+  };
+  const period = () => {
+    const current = index();
+    if (!current) return '';
+    if (activeIndexStandard().id === 'us_epa') return 'NowCast';
+    return activeIndexStandard().averaging[current.pollutant] ?? '';
+  };
+
+  return (
+    <Show when={t()}>
+      {(threshold) => (
+        <div
+          style={{
+            display: 'flex',
+            'align-items': 'center',
+            'justify-content': 'space-between',
+            padding: '8px 10px',
+            background: `${threshold().color}11`,
+            border: `1px solid ${threshold().color}33`,
+            'border-radius': '6px',
+          }}
+        >
+          <div style={{ display: 'flex', 'align-items': 'baseline', gap: '8px' }}>
+            <span style={labelStyle}>{activeIndexStandard().name}</span>
+            <span style={{ color: threshold().color, 'font-size': '22px', 'font-weight': '700' }}>
+              {displayValue()}
+            </span>
+            <span style={{ 'font-size': '11px', ...mono, color: threshold().color, 'font-weight': '600' }}>
+              {threshold().label}
+            </span>
+          </div>
+          <span style={{ 'font-size': '10px', ...mono, color: '#64748b' }}>
+            {period()} · {POLLUTANT_LABELS[index()?.pollutant ?? 'pm25']}
+          </span>
+        </div>
+      )}
+    </Show>
+  );
+};
+
+// --- IndexStandardSelect ---
+
+export const IndexStandardSelect: Component = () => {
+  const averaging = () => {
+    const { averaging } = activeIndexStandard();
+    return Object.entries(averaging)
+      .map(([metric, period]) => `${metric === 'pm25' ? 'PM2.5' : 'PM10'}: ${period}`)
+      .join(' · ');
+  };
+
+  return (
+    <div style={{ display: 'flex', 'align-items': 'center', 'justify-content': 'space-between', gap: '8px' }}>
+      <label for="index-standard" style={labelStyle}>
+        Index
+      </label>
+      <span style={{ 'font-size': '10px', ...mono, color: '#475569', flex: '1' }}>{averaging()}</span>
+      <select
+        id="index-standard"
+        value={activeIndexStandard().id}
+        onChange={(e) => selectIndexStandard(e.currentTarget.value as IndexStandardId)}
+        style={{
+          padding: '2px 6px',
+          'background-color': '#1e293b',
+          color: '#e2e8f0',
+          border: '1px solid #475569',
+          'border-radius': '6px',
+          'font-size': '11px',
+          ...mono,
+        }}
+      >
+        <For each={Object.values(INDEX_STANDARDS)}>
+          {(standard) => (
+            <option value={standard.id}>
+              {standard.name} ({standard.region})
+            </option>
+          )}
+        </For>
+      </select>
+    </div>
+  );
+};
+
 // --- VocQualityBadge ---
 
 interface VocQualityBadgeProps {
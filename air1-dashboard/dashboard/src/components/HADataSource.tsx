@@ -1,9 +1,12 @@
 import { For, Show, createEffect, createSignal, onCleanup } from 'solid-js';
 import { API_BASE_URL } from '../config';
-import type { HAConfig, HAEntity, SensorData, SensorOption } from './types';
+import { applyConfiguredIndexStandard } from './index-standards';
+import { setActiveDevice } from './threshold-profiles';
+import type { AqiInfo, HAConfig, HAEntity, IndexValues, SensorData, SensorOption } from './types';
 
 interface HADataSourceProps {
   onDataUpdate: (data: Partial<SensorData>, room: string) => void;
+  onAqiUpdate?: (indices: IndexValues | null) => void;
   onError: (error: string) => void;
   pausePolling?: boolean; // Pause auto-updates when viewing history
 }
@@ -13,17 +16,31 @@ interface DeviceResponse {
   device_id?: string;
   friendly_name?: string;
   device_name?: string;
-  room?: string;
+  room?: string | null;
+  manufacturer?: string | null;
+  model?: string | null;
+  sw_version?: string | null;
   co2?: number;
   pm25?: number;
+  pm10?: number;
+  pm_1um?: number;
+  pm_4um?: number;
   temperature?: number;
   humidity?: number;
   voc?: number;
+  vocQuality?: string;
   nox?: number;
+  pressure?: number;
   rssi?: number;
-  uptime?: number;
+  uptime?: string;
+  aqi?: number;
+  aqi_pollutant?: AqiInfo['pollutant'];
+  indices?: IndexValues;
 }
 
+// Partial device update from the /api/stream endpoint (removed fields are null)
+type DeviceDelta = { device_id: string } & { [K in keyof DeviceResponse]?: DeviceResponse[K] | null };
+
 export default function HADataSource(props: HADataSourceProps) {
   const [sensors, setSensors] = createSignal<SensorOption[]>([]);
   const [selectedSensor, setSelectedSensor] = createSignal<string | null>(null);
@@ -64,6 +81,7 @@ export default function HADataSource(props: HADataSourceProps) {
       }
       const json = await response.json();
       setConfig(json.data); // Extract the 'data' property from response
+      applyConfiguredIndexStandard(json.data?.index_standard);
       return json.data;
     } catch (err) {
       console.error('Config fetch error:', err);
@@ -84,7 +102,7 @@ export default function HADataSource(props: HADataSourceProps) {
         const sensorList: SensorOption[] = data.devices.map((device: DeviceResponse) => ({
           entity_id: device.entity_id || device.device_id || '',
           friendly_name: device.friendly_name || device.device_name || '',
-          room: device.room,
+          room: device.room ?? undefined,
           device_name: device.device_name,
         }));
         setSensors(sensorList);
@@ -112,6 +130,35 @@ export default function HADataSource(props: HADataSourceProps) {
     }
   };
 
+  // Push a device's readings to the dashboard
+  const applyDevice = (device: DeviceResponse) => {
+    // Transform device data to SensorData format
+    const sensorData: Partial<SensorData> = {
+      co2: device.co2?.toString() || '',
+      pm25: device.pm25?.toString() || '',
+      pm10: device.pm10?.toString() || '',
+      pm_1um: device.pm_1um?.toString() || '',
+      pm_4um: device.pm_4um?.toString() || '',
+      humidity: device.humidity?.toString() || '',
+      temperature: device.temperature?.toString() || '',
+      voc: device.voc?.toString() || '',
+      vocQuality: device.vocQuality || '',
+      nox: device.nox?.toString() || '',
+      pressure: device.pressure?.toString() || '',
+      rssi: device.rssi?.toString() || '',
+      uptime: device.uptime || '',
+    };
+
+    const room = device.room || device.device_name || 'Unknown';
+
+    setActiveDevice(device.device_id ?? null);
+    props.onDataUpdate(sensorData, room);
+    props.onAqiUpdate?.(device.indices ?? null);
+    setLastUpdate(new Date());
+    setConnected(true);
+    setError(null);
+  };
+
   // Fetch current sensor data for the selected device
   const fetchData = async () => {
     const entityId = selectedSensor();
@@ -131,29 +178,7 @@ export default function HADataSource(props: HADataSourceProps) {
         throw new Error(`Device ${entityId} not found in response`);
       }
 
-      // Transform device data to SensorData format
-      const sensorData: Partial<SensorData> = {
-        co2: device.co2?.toString() || '',
-        pm25: device.pm25?.toString() || '',
-        pm10: device.pm10?.toString() || '',
-        pm_1um: device.pm_1um?.toString() || '',
-        pm_4um: device.pm_4um?.toString() || '',
-        humidity: device.humidity?.toString() || '',
-        temperature: device.temperature?.toString() || '',
-        voc: device.voc?.toString() || '',
-        vocQuality: device.vocQuality || '',
-        nox: device.nox?.toString() || '',
-        pressure: device.pressure?.toString() || '',
-        rssi: device.rssi?.toString() || '',
-        uptime: device.uptime || '',
-      };
-
-      const room = device.room || device.device_name || 'Unknown';
-
-      props.onDataUpdate(sensorData, room);
-      setLastUpdate(new Date());
-      setConnected(true);
-      setError(null);
+      applyDevice(device);
     } catch (err) {
       console.error('Sensor data fetch error:', err);
       setConnected(false);
@@ -175,26 +200,40 @@ export default function HADataSource(props: HADataSourceProps) {
     }
   });
 
-  // Set up polling when sensor is selected
+  // Subscribe to live updates when sensor is selected
   createEffect(() => {
     const entityId = selectedSensor();
     const cfg = config();
     if (!entityId || !cfg) return;
 
-    // Skip polling if paused (e.g., when viewing history)
+    // Skip live updates if paused (e.g., when viewing history)
     if (props.pausePolling) {
       return;
     }
 
-    // Fetch immediately
-    fetchData();
+    // EventSource reconnects on its own and resumes via Last-Event-ID
+    const source = new EventSource(`${API_BASE_URL}api/stream`);
+    let current: DeviceResponse | null = null;
+
+    source.addEventListener('snapshot', (event) => {
+      const devices = JSON.parse((event as MessageEvent).data) as DeviceResponse[];
+      current = devices.find((d) => d.device_id === entityId) ?? null;
+      if (current) {
+        applyDevice(current);
+      }
+    });
+
+    source.addEventListener('device', (event) => {
+      const delta = JSON.parse((event as MessageEvent).data) as DeviceDelta;
+      if (delta.device_id !== entityId) return;
+      current = { ...current, ...delta } as DeviceResponse;
+      applyDevice(current);
+    });
 
-    // Set up polling interval
-    const interval = setInterval(() => {
-      fetchData();
-    }, cfg.update_interval * 1000);
+    source.addEventListener('open', () => setConnected(true));
+    source.addEventListener('error', () => setConnected(false));
 
-    onCleanup(() => clearInterval(interval));
+    onCleanup(() => source.close());
   });
 
   const handleSensorChange = (event: Event) => {
@@ -299,7 +338,7 @@ export default function HADataSource(props: HADataSourceProps) {
                 <For each={sensors()}>
                   {(sensor) => (
                     <option value={sensor.entity_id}>
-                      {sensor.friendly_name?.split(sensors()[0]?.entity_id || '  ')?.[0] || sensor.entity_id}
+                      {sensor.friendly_name || sensor.entity_id}
                       {sensor.room && ` (${sensor.room})`}
                     </option>
                   )}
@@ -311,7 +350,10 @@ export default function HADataSource(props: HADataSourceProps) {
           <Show when={sensors().length === 1 && selectedSensor()}>
             <div style={{ flex: 1 }}>
               <div style={{ color: '#94a3b8', 'font-size': '0.875rem' }}>Connected to:</div>
-              <div style={{ color: '#e2e8f0', 'font-weight': '500' }}>Apollo AIR-1 {sensors()[0]?.entity_id}</div>
+              <div style={{ color: '#e2e8f0', 'font-weight': '500' }}>
+                {sensors()[0]?.friendly_name || sensors()[0]?.entity_id}
+                {sensors()[0]?.room && ` (${sensors()[0]?.room})`}
+              </div>
             </div>
           </Show>
 
@@ -0,0 +1,403 @@
+import type { Component } from 'solid-js';
+import { For, Show, createSignal, onMount } from 'solid-js';
+import { importHistory, isCsvFile, mapCsvFile, prepareImport, previewImport } from './storage';
+import { getCsvPresets } from './storage-api';
+import type { ConflictStrategy, CsvImportOptions, CsvMapping, CsvMappingResponse, ImportResponse } from './storage-api';
+import { cardStyle, inputStyle, labelStyle, mono } from './thresholds';
+import type { Reading } from './types';
+
+const CONFLICT_LABELS: Record<ConflictStrategy, string> = {
+  overwrite: 'Overwrite stored readings',
+  skip: 'Skip, keep stored readings',
+  keep_both: 'Keep both',
+};
+
+// Reading fields a CSV column can be mapped onto
+const CSV_FIELD_LABELS: Record<string, string> = {
+  pm25: 'PM2.5',
+  pm10: 'PM10',
+  pm_1um: 'PM1',
+  pm_4um: 'PM4',
+  co2: 'CO₂',
+  voc: 'VOC',
+  nox: 'NOx',
+  humidity: 'Humidity',
+  temperature: 'Temperature',
+  pressure: 'Pressure',
+  rssi: 'RSSI',
+};
+
+// Rejected readings listed in the preview
+const MAX_REJECTED_SHOWN = 10;
+
+const smallInput = { ...inputStyle, padding: '4px 6px', 'font-size': '12px' };
+
+const buttonStyle = {
+  padding: '6px 10px',
+  background: '#1e293b',
+  border: '1px solid #334155',
+  'border-radius': '6px',
+  color: '#94a3b8',
+  'font-size': '11px',
+  ...mono,
+  cursor: 'pointer',
+};
+
+interface ImportPreviewProps {
+  file: File;
+  onImported: (history: Reading[], result: ImportResponse) => void;
+  onCancel: () => void;
+}
+
+export const ImportPreview: Component<ImportPreviewProps> = (props) => {
+  const [conflict, setConflict] = createSignal<ConflictStrategy>('overwrite');
+  const [preview, setPreview] = createSignal<ImportResponse | null>(null);
+  const [message, setMessage] = createSignal('Checking file…');
+  const [busy, setBusy] = createSignal(true);
+  // Column mapping of a CSV file, null for JSON and NDJSON files
+  const [csv, setCsv] = createSignal<CsvMappingResponse | null>(null);
+  const [presets, setPresets] = createSignal<{ id: string; name: string }[]>([]);
+  const [room, setRoom] = createSignal('');
+  const [deviceId, setDeviceId] = createSignal('');
+  let prepared: Blob | null = null;
+
+  const csvOptions = (): CsvImportOptions | undefined => {
+    const mapped = csv();
+    if (!mapped) return undefined;
+    return {
+      mapping: mapped.mapping,
+      room: room().trim() || undefined,
+      device_id: deviceId().trim() || undefined,
+      time_zone: mapped.time_zone,
+    };
+  };
+
+  // Dry run of the import with the selected conflict strategy and column mapping
+  const check = async () => {
+    setBusy(true);
+    setPreview(null);
+    setMessage('Checking file…');
+    try {
+      const mapped = csv();
+      if (mapped && !mapped.mapping.timestamp) {
+        setMessage('✕ Select the timestamp column');
+        return;
+      }
+      if (mapped && !mapped.mapping.room && !room().trim()) {
+        setMessage('✕ Select the room column or enter a room');
+        return;
+      }
+      prepared ??= await prepareImport(props.file);
+      setPreview(await previewImport(prepared, conflict(), csvOptions()));
+      setMessage('');
+    } catch (err) {
+      setMessage(`✕ ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runImport = async () => {
+    if (!prepared) return;
+    setBusy(true);
+    try {
+      const { result, history } = await importHistory(
+        prepared,
+        conflict(),
+        (progress) => setMessage(`Importing… ${progress.processed} readings (${progress.errors} errors)`),
+        csvOptions(),
+      );
+      props.onImported(history, result);
+    } catch (err) {
+      setMessage(`✕ ${(err as Error).message}`);
+      setBusy(false);
+    }
+  };
+
+  // Map a CSV file by a preset, or by the one matching its header
+  const mapCsv = async (preset?: string) => {
+    setBusy(true);
+    setPreview(null);
+    setMessage('Reading columns…');
+    try {
+      const mapped = await mapCsvFile(props.file, preset, csv()?.time_zone);
+      setCsv(mapped);
+      if (mapped.mapping_error && mapped.mapping.timestamp) {
+        setMessage(`✕ ${mapped.mapping_error}`);
+        setBusy(false);
+        return;
+      }
+    } catch (err) {
+      setMessage(`✕ ${(err as Error).message}`);
+      setBusy(false);
+      return;
+    }
+    await check();
+  };
+
+  const updateMapping = (update: (mapping: CsvMapping) => CsvMapping) => {
+    const mapped = csv();
+    if (!mapped) return;
+    setCsv({ ...mapped, mapping: update(mapped.mapping) });
+    check();
+  };
+
+  // Time zone of timestamps without an offset; an unknown one fails the dry run
+  const setTimeZone = (timeZone: string) => {
+    const mapped = csv();
+    if (!mapped || !timeZone) return;
+    setCsv({ ...mapped, time_zone: timeZone });
+    check();
+  };
+
+  const setField = (field: string, column: string, unit?: string) =>
+    updateMapping((mapping) => {
+      const fields = { ...mapping.fields };
+      if (column) fields[field] = { column, unit: unit || undefined };
+      else delete fields[field];
+      return { ...mapping, fields };
+    });
+
+  onMount(() => {
+    if (!isCsvFile(props.file)) {
+      check();
+      return;
+    }
+    getCsvPresets()
+      .then(setPresets)
+      .catch(() => {});
+    mapCsv();
+  });
+
+  const labelText = { 'font-size': '11px', ...mono, color: '#64748b', 'white-space': 'nowrap' };
+
+  const columnSelect = (value: string | undefined, onChange: (column: string) => void, empty: string) => (
+    <select
+      value={value ?? ''}
+      disabled={busy()}
+      onChange={(e) => onChange(e.currentTarget.value)}
+      style={{ ...smallInput, 'min-width': '0', flex: '1' }}
+    >
+      <option value="">{empty}</option>
+      <For each={csv()?.header ?? []}>{(column) => <option value={column}>{column}</option>}</For>
+    </select>
+  );
+
+  const summaryRow = (label: string, value: number, color = '#e2e8f0') => (
+    <div style={{ display: 'flex', 'justify-content': 'space-between', 'font-size': '12px', ...mono }}>
+      <span style={{ color: '#64748b' }}>{label}</span>
+      <span style={{ color }}>{value}</span>
+    </div>
+  );
+
+  return (
+    <div style={{ ...cardStyle, padding: '14px', 'margin-bottom': '12px' }}>
+      <div
+        style={{
+          display: 'flex',
+          'justify-content': 'space-between',
+          'align-items': 'center',
+          'margin-bottom': '10px',
+        }}
+      >
+        <span style={labelStyle}>Import {props.file.name}</span>
+        <button
+          type="button"
+          onClick={props.onCancel}
+          style={{
+            background: 'none',
+            border: 'none',
+            color: '#475569',
+            'font-size': '14px',
+            cursor: 'pointer',
+            padding: '0 4px',
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <Show when={csv()}>
+        {(mapped) => (
+          <div style={{ display: 'flex', 'flex-direction': 'column', gap: '6px', 'margin-bottom': '10px' }}>
+            <label style={{ display: 'flex', 'align-items': 'center', gap: '8px' }}>
+              <span style={labelText}>Format</span>
+              <select
+                value={mapped().preset}
+                disabled={busy()}
+                onChange={(e) => mapCsv(e.currentTarget.value)}
+                style={{ ...smallInput, flex: '1' }}
+              >
+                <For each={presets()}>{(preset) => <option value={preset.id}>{preset.name}</option>}</For>
+              </select>
+            </label>
+            <div style={{ display: 'flex', 'align-items': 'center', gap: '8px' }}>
+              <span style={labelText}>Timestamp</span>
+              {columnSelect(
+                mapped().mapping.timestamp,
+                (column) => updateMapping((mapping) => ({ ...mapping, timestamp: column })),
+                'Select column',
+              )}
+            </div>
+            <label style={{ display: 'flex', 'align-items': 'center', gap: '8px' }}>
+              <span style={labelText}>Time zone</span>
+              <input
+                type="text"
+                title="Time zone of timestamps without a UTC offset"
+                value={mapped().time_zone}
+                disabled={busy()}
+                onChange={(e) => setTimeZone(e.currentTarget.value.trim())}
+                style={{ ...smallInput, flex: '1' }}
+              />
+            </label>
+            <label style={{ display: 'flex', 'align-items': 'center', gap: '8px' }}>
+              <span style={labelText}>Room</span>
+              {columnSelect(
+                mapped().mapping.room,
+                (column) => updateMapping((mapping) => ({ ...mapping, room: column || undefined })),
+                'Same for all rows',
+              )}
+              <Show when={!mapped().mapping.room}>
+                <input
+                  type="text"
+                  placeholder="Room"
+                  value={room()}
+                  disabled={busy()}
+                  onChange={(e) => {
+                    setRoom(e.currentTarget.value);
+                    check();
+                  }}
+                  style={{ ...smallInput, width: '110px' }}
+                />
+              </Show>
+            </label>
+            <label style={{ display: 'flex', 'align-items': 'center', gap: '8px' }}>
+              <span style={labelText}>Device</span>
+              {columnSelect(
+                mapped().mapping.device_id,
+                (column) => updateMapping((mapping) => ({ ...mapping, device_id: column || undefined })),
+                'Same for all rows',
+              )}
+              <Show when={!mapped().mapping.device_id}>
+                <input
+                  type="text"
+                  placeholder="Device ID"
+                  value={deviceId()}
+                  disabled={busy()}
+                  onChange={(e) => {
+                    setDeviceId(e.currentTarget.value);
+                    check();
+                  }}
+                  style={{ ...smallInput, width: '110px' }}
+                />
+              </Show>
+            </label>
+            <For each={Object.entries(CSV_FIELD_LABELS)}>
+              {([field, label]) => (
+                <label style={{ display: 'flex', 'align-items': 'center', gap: '8px' }}>
+                  <span style={{ ...labelText, width: '80px' }}>{label}</span>
+                  {columnSelect(
+                    mapped().mapping.fields[field]?.column,
+                    (column) => setField(field, column, mapped().mapping.fields[field]?.unit),
+                    'Not imported',
+                  )}
+                  <input
+                    type="text"
+                    placeholder="Unit"
+                    value={mapped().mapping.fields[field]?.unit ?? ''}
+                    disabled={busy() || !mapped().mapping.fields[field]}
+                    onChange={(e) =>
+                      setField(field, mapped().mapping.fields[field]?.column ?? '', e.currentTarget.value.trim())
+                    }
+                    style={{ ...smallInput, width: '70px' }}
+                  />
+                </label>
+              )}
+            </For>
+          </div>
+        )}
+      </Show>
+
+      <label style={{ display: 'flex', 'align-items': 'center', gap: '8px', 'margin-bottom': '10px' }}>
+        <span style={labelText}>Existing readings</span>
+        <select
+          value={conflict()}
+          disabled={busy()}
+          onChange={(e) => {
+            setConflict(e.currentTarget.value as ConflictStrategy);
+            check();
+          }}
+          style={smallInput}
+        >
+          <For each={Object.entries(CONFLICT_LABELS)}>{([id, label]) => <option value={id}>{label}</option>}</For>
+        </select>
+      </label>
+
+      <Show when={preview()}>
+        {(result) => (
+          <div style={{ display: 'flex', 'flex-direction': 'column', gap: '4px', 'margin-bottom': '10px' }}>
+            {summaryRow('Readings in file', result().total)}
+            {summaryRow('New', result().imported, '#22c55e')}
+            {summaryRow('Conflicting with stored', result().conflicts - result().duplicates, '#eab308')}
+            <Show when={result().duplicates > 0}>
+              {summaryRow('Duplicated in file', result().duplicates, '#eab308')}
+            </Show>
+            <Show when={result().overwritten > 0}>{summaryRow('  Overwritten', result().overwritten)}</Show>
+            <Show when={result().skipped > 0}>{summaryRow('  Skipped', result().skipped)}</Show>
+            {summaryRow('Rejected', result().errors, result().errors > 0 ? '#ef4444' : '#e2e8f0')}
+            <Show when={result().rejected.length > 0}>
+              <div
+                style={{
+                  'margin-top': '4px',
+                  'font-size': '11px',
+                  ...mono,
+                  color: '#94a3b8',
+                  'max-height': '120px',
+                  'overflow-y': 'auto',
+                }}
+              >
+                <For each={result().rejected.slice(0, MAX_REJECTED_SHOWN)}>
+                  {(rejected) => (
+                    <div>
+                      Row {rejected.row}: {rejected.reason}
+                    </div>
+                  )}
+                </For>
+                <Show when={result().errors > MAX_REJECTED_SHOWN}>
+                  <div style={{ color: '#64748b' }}>…and {result().errors - MAX_REJECTED_SHOWN} more</div>
+                </Show>
+              </div>
+            </Show>
+          </div>
+        )}
+      </Show>
+
+      <Show when={message()}>
+        <div
+          style={{
+            'margin-bottom': '8px',
+            'font-size': '11px',
+            ...mono,
+            color: message().startsWith('✕') ? '#ef4444' : '#94a3b8',
+          }}
+        >
+          {message()}
+        </div>
+      </Show>
+
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button
+          type="button"
+          onClick={runImport}
+          disabled={busy() || !preview() || preview()?.total === preview()?.errors}
+          style={{ ...buttonStyle, color: '#e2e8f0', 'border-color': '#38bdf8' }}
+        >
+          Import
+        </button>
+        <button type="button" onClick={props.onCancel} disabled={busy()} style={buttonStyle}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+import type { Component } from 'solid-js';
+import { For, Show, createSignal } from 'solid-js';
+import { createThresholdProfile, deleteThresholdProfile, updateThresholdProfile } from './threshold-api';
+import {
+  activeDeviceId,
+  activeProfile,
+  assignActiveProfile,
+  loadThresholdProfiles,
+  thresholdProfiles,
+} from './threshold-profiles';
+import { THRESHOLDS, cardStyle, inputStyle, labelStyle, mono } from './thresholds';
+import type { ThresholdTier } from './types';
+
+const METRIC_LABELS: Record<string, string> = {
+  pm25: 'PM2.5',
+  pm10: 'PM10',
+  co2: 'CO₂',
+  voc: 'VOC',
+  humidity: 'Humidity',
+  temperature: 'Temperature',
+};
+
+const smallInput = { ...inputStyle, padding: '4px 6px', 'font-size': '12px' };
+
+const buttonStyle = {
+  padding: '6px 10px',
+  background: '#1e293b',
+  border: '1px solid #334155',
+  'border-radius': '6px',
+  color: '#94a3b8',
+  'font-size': '11px',
+  ...mono,
+  cursor: 'pointer',
+};
+
+interface ThresholdEditorProps {
+  onClose: () => void;
+}
+
+export const ThresholdEditor: Component<ThresholdEditorProps> = (props) => {
+  // null = new profile
+  const [editingId, setEditingId] = createSignal<string | null>(activeProfile()?.id ?? null);
+  const [name, setName] = createSignal(activeProfile()?.name ?? '');
+  const [draft, setDraft] = createSignal<Record<string, ThresholdTier[]>>(activeProfile()?.thresholds ?? {});
+  const [metric, setMetric] = createSignal('pm25');
+  const [message, setMessage] = createSignal('');
+
+  const editProfile = (id: string | null) => {
+    const profile = thresholdProfiles().find((p) => p.id === id);
+    setEditingId(profile?.id ?? null);
+    setName(profile?.name ?? '');
+    setDraft(profile ? structuredClone(profile.thresholds) : {});
+    setMessage('');
+  };
+
+  const tiers = () => draft()[metric()];
+
+  const setTiers = (next: ThresholdTier[] | undefined) => {
+    setDraft((current) => {
+      const copy = { ...current };
+      if (next) {
+        copy[metric()] = next;
+      } else {
+        delete copy[metric()];
+      }
+      return copy;
+    });
+  };
+
+  const updateTier = (index: number, changes: Partial<ThresholdTier>) => {
+    setTiers(tiers()?.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)));
+  };
+
+  const run = async (action: () => Promise<void>, done: string) => {
+    try {
+      await action();
+      await loadThresholdProfiles();
+      setMessage(`✓ ${done}`);
+    } catch (err) {
+      setMessage(`✕ ${(err as Error).message}`);
+    }
+  };
+
+  const save = () =>
+    run(async () => {
+      const id = editingId();
+      if (id) {
+        await updateThresholdProfile(id, { name: name(), thresholds: draft() });
+      } else {
+        const profile = await createThresholdProfile({ name: name(), thresholds: draft() });
+        setEditingId(profile.id);
+      }
+    }, 'Profile saved');
+
+  const remove = () => {
+    const id = editingId();
+    if (!id || !confirm(`Delete profile "${name()}"?`)) return;
+    run(async () => {
+      await deleteThresholdProfile(id);
+      editProfile(null);
+    }, 'Profile deleted');
+  };
+
+  return (
+    <div style={{ ...cardStyle, padding: '14px', 'margin-bottom': '12px' }}>
+      <div
+        style={{
+          display: 'flex',
+          'justify-content': 'space-between',
+          'align-items': 'center',
+          'margin-bottom': '10px',
+        }}
+      >
+        <span style={labelStyle}>Threshold Profiles</span>
+        <button
+          type="button"
+          onClick={props.onClose}
+          style={{
+            background: 'none',
+            border: 'none',
+            color: '#475569',
+            'font-size': '14px',
+            cursor: 'pointer',
+            padding: '0 4px',
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Assignment to the device shown on the dashboard */}
+      <Show when={activeDeviceId()}>
+        <label style={{ display: 'flex', 'align-items': 'center', gap: '8px', 'margin-bottom': '12px' }}>
+          <span style={{ 'font-size': '11px', ...mono, color: '#64748b', 'white-space': 'nowrap' }}>
+            This device uses
+          </span>
+          <select
+            value={activeProfile()?.id ?? ''}
+            onChange={(e) => {
+              const profileId = e.currentTarget.value || null;
+              run(() => assignActiveProfile(profileId), 'Device profile updated');
+            }}
+            style={smallInput}
+          >
+            <option value="">Default thresholds</option>
+            <For each={thresholdProfiles()}>{(profile) => <option value={profile.id}>{profile.name}</option>}</For>
+          </select>
+        </label>
+      </Show>
+
+      <div style={{ display: 'flex', gap: '8px', 'margin-bottom': '8px' }}>
+        <select
+          value={editingId() ?? ''}
+          onChange={(e) => editProfile(e.currentTarget.value || null)}
+          style={smallInput}
+        >
+          <option value="">+ New profile</option>
+          <For each={thresholdProfiles()}>{(profile) => <option value={profile.id}>{profile.name}</option>}</For>
+        </select>
+        <input
+          type="text"
+          placeholder="Profile name, e.g. Nursery"
+          value={name()}
+          onInput={(e) => setName(e.currentTarget.value)}
+          style={smallInput}
+        />
+      </div>
+
+      <div style={{ display: 'flex', gap: '4px', 'flex-wrap': 'wrap', 'margin-bottom': '8px' }}>
+        <For each={Object.keys(METRIC_LABELS)}>
+          {(key) => (
+            <button
+              type="button"
+              onClick={() => setMetric(key)}
+              style={{
+                ...buttonStyle,
+                color: metric() === key ? '#e2e8f0' : '#64748b',
+                'border-color': metric() === key ? '#38bdf8' : '#334155',
+              }}
+            >
+              {METRIC_LABELS[key]}
+              {draft()[key] ? ' •' : ''}
+            </button>
+          )}
+        </For>
+      </div>
+
+      <Show
+        when={tiers()}
+        fallback={
+          <div style={{ display: 'flex', 'align-items': 'center', gap: '8px', 'margin-bottom': '8px' }}>
+            <span style={{ 'font-size': '11px', ...mono, color: '#64748b' }}>
+              {METRIC_LABELS[metric()]} uses the default thresholds.
+            </span>
+            <button
+              type="button"
+              onClick={() => setTiers(structuredClone(THRESHOLDS[metric()] ?? []))}
+              style={buttonStyle}
+            >
+              Customize
+            </button>
+          </div>
+        }
+      >
+        {(current) => (
+          <div style={{ display: 'flex', 'flex-direction': 'column', gap: '4px', 'margin-bottom': '8px' }}>
+            <div
+              style={{
+                display: 'grid',
+                'grid-template-columns': '70px 1fr 40px 1.5fr 24px',
+                gap: '4px',
+                ...labelStyle,
+              }}
+            >
+              <span>Up to</span>
+              <span>Label</span>
+              <span>Color</span>
+              <span>Advice</span>
+              <span />
+            </div>
+            <For each={current()}>
+              {(tier, i) => (
+                <div style={{ display: 'grid', 'grid-template-columns': '70px 1fr 40px 1.5fr 24px', gap: '4px' }}>
+                  <input
+                    type="number"
+                    step="any"
+                    value={tier.max}
+                    onChange={(e) => updateTier(i(), { max: Number.parseFloat(e.currentTarget.value) })}
+                    style={smallInput}
+                  />
+                  <input
+                    type="text"
+                    value={tier.label}
+                    onChange={(e) => updateTier(i(), { label: e.currentTarget.value })}
+                    style={smallInput}
+                  />
+                  <input
+                    type="color"
+                    value={tier.color}
+                    onChange={(e) => updateTier(i(), { color: e.currentTarget.value })}
+                    style={{ ...smallInput, padding: '0', height: '26px' }}
+                  />
+                  <input
+                    type="text"
+                    value={tier.advice ?? ''}
+                    onChange={(e) => updateTier(i(), { advice: e.currentTarget.value || undefined })}
+                    style={smallInput}
+                  />
+                  <button
+                    type="button"
+                    title="Remove tier"
+                    onClick={() => setTiers(current().filter((_, j) => j !== i()))}
+                    style={{ ...buttonStyle, padding: '0' }}
+                  >
+                    ✕
+                  </button>
+                </div>
+              )}
+            </For>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <button
+                type="button"
+                onClick={() => {
+                  const last = current()[current().length - 1];
+                  setTiers([...current(), { max: (last?.max ?? 0) + 1, label: 'New tier', color: '#64748b' }]);
+                }}
+                style={buttonStyle}
+              >
+                + Tier
+              </button>
+              <button type="button" onClick={() => setTiers(undefined)} style={buttonStyle}>
+                Use defaults
+              </button>
+            </div>
+          </div>
+        )}
+      </Show>
+
+      <div style={{ display: 'flex', gap: '8px', 'align-items': 'center' }}>
+        <button type="button" onClick={save} disabled={!name().trim()} style={{ ...buttonStyle, color: '#38bdf8' }}>
+          {editingId() ? 'Save profile' : 'Create profile'}
+        </button>
+        <Show when={editingId()}>
+          <button type="button" onClick={remove} style={{ ...buttonStyle, color: '#ef4444' }}>
+            Delete
+          </button>
+        </Show>
+        <span style={{ 'font-size': '11px', ...mono, color: '#64748b' }}>{message()}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import { createSignal } from 'solid-js';
+import type { IndexStandard, IndexStandardId } from './types';
+
+// --- Regional Air Quality Index Standards ---
+// Particulate breakpoints of the index each region reports. Metrics a standard
+// does not cover (e.g. PM10 for AQHI+) fall back to the default thresholds.
+
+export const INDEX_STANDARDS: Record<IndexStandardId, IndexStandard> = {
+  us_epa: {
+    id: 'us_epa',
+    name: 'US EPA AQI',
+    region: 'United States',
+    averaging: { pm25: '24-hour mean', pm10: '24-hour mean' },
+    thresholds: {},
+  },
+  eu_caqi: {
+    id: 'eu_caqi',
+    name: 'CAQI',
+    region: 'European Union',
+    averaging: { pm25: '1-hour mean', pm10: '1-hour mean' },
+    thresholds: {
+      pm25: [
+        { max: 15, label: 'Very Low', color: '#79bc6a', severity: 0, advice: 'Air quality is very good.' },
+        { max: 30, label: 'Low', color: '#bbcf4c', severity: 0, advice: 'Air quality is good.' },
+        { max: 55, label: 'Medium', color: '#eec20b', severity: 1, advice: 'Sensitive individuals limit exposure.' },
+        { max: 110, label: 'High', color: '#f29305', severity: 3, advice: 'Ventilate or run HEPA filter.' },
+        { max: 9999, label: 'Very High', color: '#e8416f', severity: 4, advice: 'Health alert. Purifier on max.' },
+      ],
+      pm10: [
+        { max: 25, label: 'Very Low', color: '#79bc6a', severity: 0 },
+        { max: 50, label: 'Low', color: '#bbcf4c', severity: 0 },
+        { max: 90, label: 'Medium', color: '#eec20b', severity: 1 },
+        { max: 180, label: 'High', color: '#f29305', severity: 3 },
+        { max: 9999, label: 'Very High', color: '#e8416f', severity: 4 },
+      ],
+    },
+  },
+  uk_daqi: {
+    id: 'uk_daqi',
+    name: 'DAQI',
+    region: 'United Kingdom',
+    averaging: { pm25: '24-hour mean', pm10: '24-hour mean' },
+    thresholds: {
+      pm25: [
+        { max: 11, label: 'Low (1)', color: '#9cff9c', severity: 0, advice: 'Enjoy usual activities.' },
+        { max: 23, label: 'Low (2)', color: '#31ff00', severity: 0, advice: 'Enjoy usual activities.' },
+        { max: 35, label: 'Low (3)', color: '#31cf00', severity: 0, advice: 'Enjoy usual activities.' },
+        {
+          max: 41,
+          label: 'Moderate (4)',
+          color: '#ffff00',
+          severity: 1,
+          advice: 'Sensitive groups consider less exertion.',
+        },
+        {
+          max: 47,
+          label: 'Moderate (5)',
+          color: '#ffcf00',
+          severity: 1,
+          advice: 'Sensitive groups consider less exertion.',
+        },
+        {
+          max: 53,
+          label: 'Moderate (6)',
+          color: '#ff9a00',
+          severity: 2,
+          advice: 'Sensitive groups consider less exertion.',
+        },
+        { max: 58, label: 'High (7)', color: '#ff6464', severity: 3, advice: 'Reduce strenuous activity.' },
+        { max: 64, label: 'High (8)', color: '#ff0000', severity: 3, advice: 'Reduce strenuous activity.' },
+        { max: 70, label: 'High (9)', color: '#990000', severity: 3, advice: 'Reduce strenuous activity.' },
+        { max: 9999, label: 'Very High (10)', color: '#ce30ff', severity: 4, advice: 'Reduce physical exertion.' },
+      ],
+      pm10: [
+        { max: 16, label: 'Low (1)', color: '#9cff9c', severity: 0 },
+        { max: 33, label: 'Low (2)', color: '#31ff00', severity: 0 },
+        { max: 50, label: 'Low (3)', color: '#31cf00', severity: 0 },
+        { max: 58, label: 'Moderate (4)', color: '#ffff00', severity: 1 },
+        { max: 66, label: 'Moderate (5)', color: '#ffcf00', severity: 1 },
+        { max: 75, label: 'Moderate (6)', color: '#ff9a00', severity: 2 },
+        { max: 83, label: 'High (7)', color: '#ff6464', severity: 3 },
+        { max: 91, label: 'High (8)', color: '#ff0000', severity: 3 },
+        { max: 100, label: 'High (9)', color: '#990000', severity: 3 },
+        { max: 9999, label: 'Very High (10)', color: '#ce30ff', severity: 4 },
+      ],
+    },
+  },
+  ca_aqhi: {
+    id: 'ca_aqhi',
+    name: 'AQHI+',
+    region: 'Canada',
+    // AQHI+ rates PM2.5 alone, one index point per 10 µg/m³
+    averaging: { pm25: '1-hour mean' },
+    thresholds: {
+      pm25: [
+        { max: 30, label: 'Low Risk', color: '#00ccff', severity: 0, advice: 'Ideal for outdoor activities.' },
+        {
+          max: 60,
+          label: 'Moderate Risk',
+          color: '#ffff00',
+          severity: 1,
+          advice: 'At-risk groups consider less exertion.',
+        },
+        { max: 100, label: 'High Risk', color: '#ff6666', severity: 3, advice: 'Reduce strenuous activity.' },
+        { max: 9999, label: 'Very High Risk', color: '#990000', severity: 4, advice: 'Avoid strenuous activity.' },
+      ],
+    },
+  },
+  cn_aqi: {
+    id: 'cn_aqi',
+    name: 'AQI (HJ 633)',
+    region: 'China',
+    averaging: { pm25: '24-hour mean', pm10: '24-hour mean' },
+    thresholds: {
+      pm25: [
+        { max: 35, label: 'Excellent', color: '#00e400', severity: 0, advice: 'Air quality is satisfactory.' },
+        { max: 75, label: 'Good', color: '#ffff00', severity: 1, advice: 'Unusually sensitive people limit exertion.' },
+        {
+          max: 115,
+          label: 'Lightly Polluted',
+          color: '#ff7e00',
+          severity: 2,
+          advice: 'Sensitive groups reduce exertion.',
+        },
+        {
+          max: 150,
+          label: 'Moderately Polluted',
+          color: '#ff0000',
+          severity: 3,
+          advice: 'Ventilate or run HEPA filter.',
+        },
+        { max: 250, label: 'Heavily Polluted', color: '#99004c', severity: 4, advice: 'Health alert. Stay indoors.' },
+        { max: 9999, label: 'Severely Polluted', color: '#7e0023', severity: 5, advice: 'Emergency. Purifier on max.' },
+      ],
+      pm10: [
+        { max: 50, label: 'Excellent', color: '#00e400', severity: 0 },
+        { max: 150, label: 'Good', color: '#ffff00', severity: 1 },
+        { max: 250, label: 'Lightly Polluted', color: '#ff7e00', severity: 2 },
+        { max: 350, label: 'Moderately Polluted', color: '#ff0000', severity: 3 },
+        { max: 420, label: 'Heavily Polluted', color: '#99004c', severity: 4 },
+        { max: 9999, label: 'Severely Polluted', color: '#7e0023', severity: 5 },
+      ],
+    },
+  },
+};
+
+export const DEFAULT_INDEX_STANDARD: IndexStandardId = 'us_epa';
+
+const STORAGE_KEY = 'index_standard';
+
+function isIndexStandardId(value: unknown): value is IndexStandardId {
+  return typeof value === 'string' && value in INDEX_STANDARDS;
+}
+
+function loadSavedStandard(): IndexStandardId | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return isIndexStandardId(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+const [activeId, setActiveId] = createSignal<IndexStandardId>(loadSavedStandard() ?? DEFAULT_INDEX_STANDARD);
+
+/**
+ * The standard thresholds and labels are rendered with (reactive)
+ */
+export function activeIndexStandard(): IndexStandard {
+  return INDEX_STANDARDS[activeId()];
+}
+
+/**
+ * Select a standard and remember the choice in this browser
+ */
+export function selectIndexStandard(id: IndexStandardId): void {
+  setActiveId(id);
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (err) {
+    console.error('Failed to save index standard:', err);
+  }
+}
+
+/**
+ * Apply the add-on's configured standard, unless one was selected in this browser
+ */
+export function applyConfiguredIndexStandard(id: string | undefined): void {
+  if (loadSavedStandard() === null && isIndexStandardId(id)) {
+    setActiveId(id);
+  }
+}
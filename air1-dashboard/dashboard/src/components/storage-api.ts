@@ -19,17 +19,67 @@ interface StorageResponse {
   };
 }
 
-interface ExportData {
-  export_date: string;
-  version: string;
-  readings: StorageReading[];
-}
+export type ExportFormat = 'json' | 'csv' | 'ndjson' | 'influx';
+
+// How an imported reading that collides with a stored one is handled
+export type ConflictStrategy = 'skip' | 'overwrite' | 'keep_both';
 
-interface ImportResponse {
+export interface ImportResponse {
   success: boolean;
+  dry_run: boolean;
+  conflict: ConflictStrategy;
+  total: number;
+  imported: number;
+  overwritten: number;
+  skipped: number;
+  conflicts: number;
+  // Readings colliding with an earlier reading of the same file, included in conflicts
+  duplicates: number;
+  errors: number;
+  // First rejected readings, by position in the file starting at 1
+  rejected: { row: number; reason: string }[];
+}
+
+// Column of a CSV file a reading field is read from, with the unit of its values
+export interface CsvColumn {
+  column: string;
+  unit?: string;
+}
+
+// Which CSV columns hold the timestamp, device, room and sensor values
+export interface CsvMapping {
+  timestamp: string;
+  device_id?: string;
+  room?: string;
+  fields: Record<string, CsvColumn>;
+}
+
+// How a CSV file is imported; room and device_id apply to rows without those columns
+export interface CsvImportOptions {
+  mapping: CsvMapping;
+  room?: string;
+  device_id?: string;
+  // Time zone of timestamps without an offset, Home Assistant's if not given
+  time_zone?: string;
+}
+
+export interface CsvMappingResponse {
+  preset: string;
+  header: string[];
+  mapping: CsvMapping;
+  // Time zone timestamps without an offset are read in
+  time_zone: string;
+  // Why the mapping cannot be used as it is, e.g. no timestamp column was found
+  mapping_error: string | null;
+}
+
+export interface ImportProgress {
+  running: boolean;
+  started_at: number | null;
+  finished_at: number | null;
+  processed: number;
   imported: number;
   errors: number;
-  total: number;
 }
 
 interface StatsResponse {
@@ -38,11 +88,54 @@ interface StatsResponse {
   newest_timestamp: number | null;
   devices: string[];
   rooms: string[];
+  rollups: { hourly: number; daily: number };
+  last_compaction: {
+    ran_at: number;
+    duration_ms: number;
+    hourly_rolled_up: number;
+    daily_rolled_up: number;
+    raw_pruned: number;
+    hourly_pruned: number;
+    daily_pruned: number;
+  } | null;
+  schema_version: number;
   database_path: string;
 }
 
+interface MetricAggregate {
+  min: number;
+  max: number;
+  avg: number;
+  p95: number;
+  count: number;
+}
+
+interface AggregateResponse {
+  bucket: '5m' | '1h' | '1d';
+  since: number | null;
+  until: number | null;
+  buckets: {
+    start: number;
+    metrics: Record<string, MetricAggregate>;
+  }[];
+  count: number;
+}
+
 const API_BASE = `${API_BASE_URL}api/storage`;
 
+/**
+ * Error message of a failed request, from the { error } body when there is one
+ */
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json();
+    if (body?.error) return body.error;
+  } catch {
+    // Not JSON
+  }
+  return `${fallback}: ${response.statusText}`;
+}
+
 /**
  * Get readings with pagination and filtering
  */
@@ -53,6 +146,9 @@ export async function getReadings(
     device_id?: string;
     room?: string;
     since?: number;
+    metric?: string;
+    above?: number;
+    below?: number;
   } = {},
 ): Promise<Reading[]> {
   const params = new URLSearchParams();
@@ -62,6 +158,9 @@ export async function getReadings(
   if (options.device_id) params.set('device_id', options.device_id);
   if (options.room) params.set('room', options.room);
   if (options.since !== undefined) params.set('since', options.since.toString());
+  if (options.metric) params.set('metric', options.metric);
+  if (options.above !== undefined) params.set('above', options.above.toString());
+  if (options.below !== undefined) params.set('below', options.below.toString());
 
   const url = `${API_BASE}/readings?${params.toString()}`;
   const response = await fetch(url);
@@ -88,6 +187,37 @@ export async function getReadings(
   }) as Reading[];
 }
 
+/**
+ * Get min/max/avg/p95 per metric, bucketed by time
+ */
+export async function getAggregates(
+  options: {
+    bucket?: '5m' | '1h' | '1d';
+    metrics?: string[];
+    device_id?: string;
+    room?: string;
+    since?: number;
+    until?: number;
+  } = {},
+): Promise<AggregateResponse> {
+  const params = new URLSearchParams();
+
+  if (options.bucket) params.set('bucket', options.bucket);
+  if (options.metrics?.length) params.set('metrics', options.metrics.join(','));
+  if (options.device_id) params.set('device_id', options.device_id);
+  if (options.room) params.set('room', options.room);
+  if (options.since !== undefined) params.set('since', options.since.toString());
+  if (options.until !== undefined) params.set('until', options.until.toString());
+
+  const response = await fetch(`${API_BASE}/aggregate?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch aggregates: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
 /**
  * Store a new reading
  */
@@ -139,32 +269,115 @@ export async function clearAllReadings(): Promise<void> {
 }
 
 /**
- * Export all readings
+ * Export readings as a file in the given format
  */
-export async function exportReadings(): Promise<ExportData> {
-  const response = await fetch(`${API_BASE}/export`);
+export async function exportReadings(
+  options: {
+    format?: ExportFormat;
+    // Add a unit row to CSV exports
+    units?: boolean;
+    device_id?: string;
+    room?: string;
+    since?: number;
+    until?: number;
+  } = {},
+): Promise<Blob> {
+  const params = new URLSearchParams();
+
+  if (options.format) params.set('format', options.format);
+  if (options.units) params.set('units', 'true');
+  if (options.device_id) params.set('device_id', options.device_id);
+  if (options.room) params.set('room', options.room);
+  if (options.since !== undefined) params.set('since', options.since.toString());
+  if (options.until !== undefined) params.set('until', options.until.toString());
+
+  const response = await fetch(`${API_BASE}/export?${params.toString()}`);
 
   if (!response.ok) {
     throw new Error(`Failed to export readings: ${response.statusText}`);
   }
 
+  return response.blob();
+}
+
+/**
+ * Import readings from NDJSON, one reading per line, or from CSV mapped onto
+ * readings by csv.mapping. The body is streamed to the server.
+ * With dry_run the server only reports what the import would do.
+ */
+export async function importReadings(
+  body: Blob,
+  options: { conflict?: ConflictStrategy; dry_run?: boolean; csv?: CsvImportOptions } = {},
+): Promise<ImportResponse> {
+  const params = new URLSearchParams();
+
+  if (options.conflict) params.set('conflict', options.conflict);
+  if (options.dry_run) params.set('dry_run', 'true');
+  if (options.csv) {
+    params.set('mapping', JSON.stringify(options.csv.mapping));
+    if (options.csv.room) params.set('room', options.csv.room);
+    if (options.csv.device_id) params.set('device_id', options.csv.device_id);
+    if (options.csv.time_zone) params.set('time_zone', options.csv.time_zone);
+  }
+
+  const response = await fetch(`${API_BASE}/import?${params.toString()}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': options.csv ? 'text/csv' : 'application/x-ndjson',
+    },
+    body,
+  });
+
+  if (!response.ok) {
+    throw new Error(await errorMessage(response, 'Failed to import readings'));
+  }
+
   return response.json();
 }
 
 /**
- * Import readings
+ * Mapping presets for CSV exports of other monitors
  */
-export async function importReadings(readings: StorageReading[]): Promise<ImportResponse> {
-  const response = await fetch(`${API_BASE}/import`, {
+export async function getCsvPresets(): Promise<{ id: string; name: string }[]> {
+  const response = await fetch(`${API_BASE}/import/csv-presets`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch CSV presets: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.presets;
+}
+
+/**
+ * Map a CSV file by a preset, detected from its header if not given
+ * @param sample - The first lines of the file
+ * @param timeZone - Time zone of timestamps without an offset, Home Assistant's if not given
+ */
+export async function mapCsv(sample: string, preset?: string, timeZone?: string): Promise<CsvMappingResponse> {
+  const response = await fetch(`${API_BASE}/import/csv-mapping`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ readings }),
+    body: JSON.stringify({ sample, preset, time_zone: timeZone }),
   });
 
   if (!response.ok) {
-    throw new Error(`Failed to import readings: ${response.statusText}`);
+    throw new Error(await errorMessage(response, 'Failed to map CSV'));
+  }
+
+  return response.json();
+}
+
+/**
+ * Progress of the running or last import
+ */
+export async function getImportProgress(): Promise<ImportProgress> {
+  const response = await fetch(`${API_BASE}/import/progress`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch import progress: ${response.statusText}`);
   }
 
   return response.json();
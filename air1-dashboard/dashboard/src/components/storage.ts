@@ -1,4 +1,5 @@
 import * as StorageAPI from './storage-api';
+import type { ExportFormat } from './storage-api';
 import type { Reading, SensorData } from './types';
 
 // Save a new reading to the server
@@ -46,17 +47,40 @@ export async function clearAllStorage(): Promise<void> {
   }
 }
 
-// Export history as JSON file download
-export async function exportHistory(): Promise<void> {
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  ndjson: 'ndjson',
+  influx: 'lp',
+};
+
+export interface ExportOption {
+  id: string;
+  label: string;
+  format: ExportFormat;
+  // Add a unit row to CSV exports
+  units: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTION: ExportOption = { id: 'json', label: 'JSON', format: 'json', units: false };
+
+// Formats offered by the export picker
+export const EXPORT_OPTIONS: ExportOption[] = [
+  DEFAULT_EXPORT_OPTION,
+  { id: 'csv', label: 'CSV', format: 'csv', units: false },
+  { id: 'csv-units', label: 'CSV + units', format: 'csv', units: true },
+  { id: 'ndjson', label: 'NDJSON', format: 'ndjson', units: false },
+  { id: 'influx', label: 'InfluxDB', format: 'influx', units: false },
+];
+
+// Export history as a file download in the given format
+export async function exportHistory(format: ExportFormat = 'json', units = false): Promise<void> {
   try {
-    const exportData = await StorageAPI.exportReadings();
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], {
-      type: 'application/json',
-    });
+    const blob = await StorageAPI.exportReadings({ format, units });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `air-quality-${new Date().toISOString().slice(0, 10)}.json`;
+    a.download = `air-quality-${new Date().toISOString().slice(0, 10)}.${EXPORT_EXTENSIONS[format]}`;
     a.click();
     URL.revokeObjectURL(url);
   } catch (error) {
@@ -65,40 +89,94 @@ export async function exportHistory(): Promise<void> {
   }
 }
 
-// Import readings from a JSON file
-export async function importHistory(file: File): Promise<Reading[]> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = async () => {
-      try {
-        const data = JSON.parse(reader.result as string);
-
-        // Handle both old format (array) and new format (export object)
-        const readings: unknown[] = [];
-        if (Array.isArray(data)) {
-          readings.push(...data);
-        } else if (data.readings && Array.isArray(data.readings)) {
-          readings.push(...data.readings);
-        } else {
-          reject(new Error('Invalid format: expected an array or export object'));
-          return;
-        }
-
-        // Import to server
-        const result = await StorageAPI.importReadings(readings as never[]);
-
-        if (result.errors > 0) {
-          console.warn(`Import completed with ${result.errors} errors`);
-        }
-
-        // Fetch updated history
-        const history = await loadHistory();
-        resolve(history);
-      } catch (error) {
-        reject(new Error('Could not parse or import JSON file'));
-      }
-    };
-    reader.onerror = () => reject(new Error('Failed to read file'));
-    reader.readAsText(file);
-  });
+// How often import progress is polled while a file is uploading
+const IMPORT_PROGRESS_INTERVAL_MS = 1000;
+
+// Bytes read from the start of a CSV file to map its columns
+const CSV_SAMPLE_SIZE = 64 * 1024;
+
+// Rows of a CSV file sent to the server to map its columns
+const CSV_SAMPLE_LINES = 5;
+
+export function isCsvFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.csv');
+}
+
+// Map the columns of a CSV file by a preset, detected from its header if not given
+export async function mapCsvFile(
+  file: File,
+  preset?: string,
+  timeZone?: string,
+): Promise<StorageAPI.CsvMappingResponse> {
+  const sample = (await file.slice(0, CSV_SAMPLE_SIZE).text()).split(/\r?\n/).slice(0, CSV_SAMPLE_LINES).join('\n');
+  return StorageAPI.mapCsv(sample, preset, timeZone);
+}
+
+// Read an import file as NDJSON. NDJSON and CSV files are sent as they are, so
+// large exports are streamed to the server without being loaded here; JSON
+// exports (or plain arrays of readings) are converted.
+export async function prepareImport(file: File): Promise<Blob> {
+  if (file.name.endsWith('.ndjson') || isCsvFile(file)) return file;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Could not parse JSON file');
+  }
+
+  // Handle both old format (array) and new format (export object)
+  let readings: unknown[];
+  if (Array.isArray(data)) {
+    readings = data;
+  } else if (data && typeof data === 'object' && Array.isArray((data as { readings?: unknown }).readings)) {
+    readings = (data as { readings: unknown[] }).readings;
+  } else {
+    throw new Error('Invalid format: expected an array or export object');
+  }
+
+  return new Blob(
+    readings.map((reading) => `${JSON.stringify(reading)}\n`),
+    { type: 'application/x-ndjson' },
+  );
+}
+
+// What importing a prepared file would do, without writing anything
+export async function previewImport(
+  prepared: Blob,
+  conflict: StorageAPI.ConflictStrategy,
+  csv?: StorageAPI.CsvImportOptions,
+): Promise<StorageAPI.ImportResponse> {
+  return StorageAPI.importReadings(prepared, { conflict, dry_run: true, csv });
+}
+
+// Import a prepared file and reload the history. CSV files are imported with csv.mapping.
+export async function importHistory(
+  prepared: Blob,
+  conflict: StorageAPI.ConflictStrategy,
+  onProgress?: (progress: StorageAPI.ImportProgress) => void,
+  csv?: StorageAPI.CsvImportOptions,
+): Promise<{ result: StorageAPI.ImportResponse; history: Reading[] }> {
+  const timer = onProgress
+    ? setInterval(() => {
+        StorageAPI.getImportProgress()
+          .then((progress) => {
+            if (progress.running) onProgress(progress);
+          })
+          .catch(() => {});
+      }, IMPORT_PROGRESS_INTERVAL_MS)
+    : null;
+
+  try {
+    const result = await StorageAPI.importReadings(prepared, { conflict, csv });
+
+    if (result.errors > 0) {
+      console.warn(`Import completed with ${result.errors} errors`);
+    }
+
+    // Fetch updated history
+    return { result, history: await loadHistory() };
+  } finally {
+    if (timer) clearInterval(timer);
+  }
 }
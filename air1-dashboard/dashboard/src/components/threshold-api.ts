@@ -0,0 +1,110 @@
+import { API_BASE_URL } from '../config';
+import type { ThresholdProfile, ThresholdTier } from './types';
+
+interface ThresholdsResponse {
+  profiles: ThresholdProfile[];
+  // Profile ID assigned to each device, by device ID
+  assignments: Record<string, string>;
+}
+
+const API_BASE = `${API_BASE_URL}api/thresholds`;
+
+/**
+ * Error message of a failed request, from the { error } body when there is one
+ */
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json();
+    if (body?.error) return body.error;
+  } catch {
+    // Not JSON
+  }
+  return `${fallback}: ${response.statusText}`;
+}
+
+/**
+ * Get all threshold profiles and device assignments
+ */
+export async function getThresholdProfiles(): Promise<ThresholdsResponse> {
+  const response = await fetch(API_BASE);
+
+  if (!response.ok) {
+    throw new Error(await errorMessage(response, 'Failed to fetch threshold profiles'));
+  }
+
+  return response.json();
+}
+
+/**
+ * Create a threshold profile
+ */
+export async function createThresholdProfile(profile: {
+  name: string;
+  thresholds: Record<string, ThresholdTier[]>;
+}): Promise<ThresholdProfile> {
+  const response = await fetch(API_BASE, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(profile),
+  });
+
+  if (!response.ok) {
+    throw new Error(await errorMessage(response, 'Failed to create threshold profile'));
+  }
+
+  return response.json();
+}
+
+/**
+ * Rename a threshold profile and/or replace its tiers
+ */
+export async function updateThresholdProfile(
+  id: string,
+  changes: { name?: string; thresholds?: Record<string, ThresholdTier[]> },
+): Promise<ThresholdProfile> {
+  const response = await fetch(`${API_BASE}/${id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    throw new Error(await errorMessage(response, 'Failed to update threshold profile'));
+  }
+
+  return response.json();
+}
+
+/**
+ * Delete a threshold profile
+ */
+export async function deleteThresholdProfile(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/${id}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error(await errorMessage(response, 'Failed to delete threshold profile'));
+  }
+}
+
+/**
+ * Assign a profile to a device, or remove its assignment with null
+ */
+export async function assignThresholdProfile(deviceId: string, profileId: string | null): Promise<void> {
+  const response = await fetch(`${API_BASE}/devices/${encodeURIComponent(deviceId)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ profile_id: profileId }),
+  });
+
+  if (!response.ok) {
+    throw new Error(await errorMessage(response, 'Failed to assign threshold profile'));
+  }
+}
@@ -0,0 +1,59 @@
+import { createSignal } from 'solid-js';
+import { assignThresholdProfile, getThresholdProfiles } from './threshold-api';
+import type { ThresholdProfile } from './types';
+
+// --- Threshold Profiles ---
+// Custom tiers stored on the server, assigned per device. The profile of the
+// device shown on the dashboard takes precedence over the index standard and
+// the default thresholds.
+
+const [profiles, setProfiles] = createSignal<ThresholdProfile[]>([]);
+const [assignments, setAssignments] = createSignal<Record<string, string>>({});
+const [activeDeviceId, setActiveDeviceId] = createSignal<string | null>(null);
+
+export { profiles as thresholdProfiles, activeDeviceId };
+
+/**
+ * Load profiles and device assignments from the server
+ */
+export async function loadThresholdProfiles(): Promise<void> {
+  const data = await getThresholdProfiles();
+  setProfiles(data.profiles);
+  setAssignments(data.assignments);
+}
+
+/**
+ * Set the device whose profile thresholds are rendered with
+ */
+export function setActiveDevice(deviceId: string | null): void {
+  setActiveDeviceId(deviceId);
+}
+
+/**
+ * Profile assigned to the active device (reactive)
+ */
+export function activeProfile(): ThresholdProfile | null {
+  const deviceId = activeDeviceId();
+  if (!deviceId) return null;
+  const profileId = assignments()[deviceId];
+  return profiles().find((profile) => profile.id === profileId) ?? null;
+}
+
+/**
+ * Assign a profile to the active device, or remove its assignment with null
+ */
+export async function assignActiveProfile(profileId: string | null): Promise<void> {
+  const deviceId = activeDeviceId();
+  if (!deviceId) return;
+
+  await assignThresholdProfile(deviceId, profileId);
+  setAssignments((current) => {
+    const next = { ...current };
+    if (profileId) {
+      next[deviceId] = profileId;
+    } else {
+      delete next[deviceId];
+    }
+    return next;
+  });
+}
@@ -1,12 +1,15 @@
 import type { JSX } from 'solid-js';
+import { activeIndexStandard } from './index-standards';
+import { activeProfile } from './threshold-profiles';
 import type { SensorData, ThresholdResult, ThresholdTier } from './types';
 
 // --- Thresholds & Classification ---
 
 export const THRESHOLDS: Record<string, ThresholdTier[]> = {
+  // Concentration breakpoints of the US EPA AQI (2024 revision for PM2.5), same as the server's
   pm25: [
     {
-      max: 12,
+      max: 9,
       label: 'Good',
       color: '#22c55e',
       advice: 'Air quality is great.',
@@ -24,13 +27,13 @@ export const THRESHOLDS: Record<string, ThresholdTier[]> = {
       advice: 'Sensitive groups reduce exertion.',
     },
     {
-      max: 150.4,
+      max: 125.4,
       label: 'Unhealthy',
       color: '#ef4444',
       advice: 'Ventilate or run HEPA filter.',
     },
     {
-      max: 250.4,
+      max: 225.4,
       label: 'Very Unhealthy',
       color: '#a855f7',
       advice: 'Health alert. Ventilate immediately.',
@@ -50,6 +53,15 @@ export const THRESHOLDS: Record<string, ThresholdTier[]> = {
     { max: 424, label: 'Very Unhealthy', color: '#a855f7' },
     { max: 9999, label: 'Hazardous', color: '#991b1b' },
   ],
+  // US EPA AQI categories
+  aqi: [
+    { max: 50, label: 'Good', color: '#22c55e', advice: 'Air quality is satisfactory.' },
+    { max: 100, label: 'Moderate', color: '#eab308', advice: 'Unusually sensitive people limit exertion.' },
+    { max: 150, label: 'Unhealthy (Sensitive)', color: '#f97316', advice: 'Sensitive groups reduce exertion.' },
+    { max: 200, label: 'Unhealthy', color: '#ef4444', advice: 'Everyone reduce prolonged exertion.' },
+    { max: 300, label: 'Very Unhealthy', color: '#a855f7', advice: 'Health alert. Avoid exertion.' },
+    { max: 9999, label: 'Hazardous', color: '#991b1b', advice: 'Emergency conditions.' },
+  ],
   co2: [
     {
       max: 600,
@@ -158,17 +170,27 @@ export const VOC_QUALITY_HINTS: Record<string, string> = {
 
 export const HIGHER_IS_WORSE = new Set(['pm25', 'pm10', 'co2', 'voc']);
 
+// Tiers of a metric: the device's threshold profile first, then the active
+// index standard, then the defaults
+export function getTiers(type: string): ThresholdTier[] | undefined {
+  const custom = activeProfile()?.thresholds[type];
+  if (custom) return custom;
+  const standard = activeIndexStandard().thresholds[type as 'pm25' | 'pm10'];
+  return standard ?? THRESHOLDS[type];
+}
+
 export function getThreshold(type: string, value: string | undefined): ThresholdResult | null {
   if (!value && value !== '') return null;
   if (!value) return null;
-  const tiers = THRESHOLDS[type];
+  const tiers = getTiers(type);
   if (!tiers) return null;
   const v = Number.parseFloat(value);
   if (Number.isNaN(v)) return null;
-  for (const t of tiers) {
-    if (v <= t.max) return { ...t, value: v };
-  }
-  return { ...tiers[tiers.length - 1], value: v };
+  const i = tiers.findIndex((t) => v <= t.max);
+  const index = i === -1 ? tiers.length - 1 : i;
+  const tier = tiers[index];
+  if (!tier) return null;
+  return { ...tier, severity: tier.severity ?? index, value: v };
 }
 
 // --- Parser (ESPHome web UI text format) ---
@@ -19,12 +19,46 @@ export interface ThresholdTier {
   label: string;
   color: string;
   advice?: string;
+  // Position on the dashboard's overall status scale, defaults to the tier index
+  severity?: number;
 }
 
 export interface ThresholdResult extends ThresholdTier {
   value: number;
 }
 
+// Named set of tiers stored on the server; metrics without tiers keep the defaults
+export interface ThresholdProfile {
+  id: string;
+  name: string;
+  thresholds: Record<string, ThresholdTier[]>;
+  created_at: number;
+  updated_at: number;
+}
+
+export type IndexStandardId = 'us_epa' | 'eu_caqi' | 'uk_daqi' | 'ca_aqhi' | 'cn_aqi';
+
+// Regional air quality index with its own particulate breakpoints and labels
+export interface IndexStandard {
+  id: IndexStandardId;
+  name: string;
+  region: string;
+  // Averaging period the breakpoints are defined for
+  averaging: Partial<Record<'pm25' | 'pm10', string>>;
+  thresholds: Partial<Record<'pm25' | 'pm10', ThresholdTier[]>>;
+}
+
+// Index of one standard computed by the server, with the pollutant that determines it
+export interface AqiInfo {
+  value: number;
+  pollutant: 'pm25' | 'pm10';
+  // Concentrations averaged over the standard's period (NowCast for US EPA)
+  concentrations: Partial<Record<'pm25' | 'pm10', number>>;
+}
+
+// Index of every standard the server had enough data for
+export type IndexValues = Partial<Record<IndexStandardId, AqiInfo>>;
+
 export interface Reading {
   id: string;
   data: SensorData;
@@ -47,6 +81,7 @@ export interface HAConfig {
   sensor_prefix: string;
   history_days: number;
   update_interval: number;
+  index_standard?: IndexStandardId;
 }
 
 export interface SensorOption {
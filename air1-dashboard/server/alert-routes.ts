@@ -0,0 +1,286 @@
+import { type Request, type Response, Router } from 'express';
+import { ALERT_METRICS, type AlertEngine } from './alerts';
+import type { AirQualityDatabase, AlertRule, AlertRuleInput } from './db';
+
+// Helper to generate unique ID using Web Crypto API
+function generateId(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+const NOTIFY_TARGET_PATTERN = /^[a-z0-9_]+$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Validate a rule from a request body, on top of the existing rule when updating
+ * @returns The rule, or an error message
+ */
+function parseAlertRule(body: unknown, existing: AlertRule | null): { rule: AlertRuleInput } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Expected a JSON object' };
+  }
+
+  const input = { ...existing, ...body } as Record<string, unknown>;
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    return { error: 'Missing required field: name' };
+  }
+  if (typeof input.metric !== 'string' || !ALERT_METRICS.includes(input.metric)) {
+    return { error: `Invalid metric, expected one of: ${ALERT_METRICS.join(', ')}` };
+  }
+  if (input.operator !== '>' && input.operator !== '<') {
+    return { error: "Invalid operator, expected '>' or '<'" };
+  }
+  if (!isNumber(input.threshold)) {
+    return { error: 'threshold must be a number' };
+  }
+
+  const clearThreshold = input.clear_threshold ?? null;
+  if (clearThreshold !== null) {
+    if (!isNumber(clearThreshold)) {
+      return { error: 'clear_threshold must be a number or null' };
+    }
+    // The clear threshold must lie on the non-alerting side of the threshold
+    if (input.operator === '>' ? clearThreshold > input.threshold : clearThreshold < input.threshold) {
+      return { error: `clear_threshold must be ${input.operator === '>' ? 'below' : 'above'} threshold` };
+    }
+  }
+
+  const duration = input.duration_seconds ?? 0;
+  if (!Number.isInteger(duration) || (duration as number) < 0) {
+    return { error: 'duration_seconds must be a non-negative integer' };
+  }
+
+  const deviceId = input.device_id ?? null;
+  if (deviceId !== null && typeof deviceId !== 'string') {
+    return { error: 'device_id must be a string or null' };
+  }
+
+  const targets = input.notify_targets ?? [];
+  if (!Array.isArray(targets) || !targets.every((target) => typeof target === 'string')) {
+    return { error: 'notify_targets must be an array of notify service names' };
+  }
+  // Accept both "mobile_app_phone" and "notify.mobile_app_phone"
+  const notifyTargets = targets.map((target: string) => target.trim().replace(/^notify\./, ''));
+  const invalidTarget = notifyTargets.find((target) => !NOTIFY_TARGET_PATTERN.test(target));
+  if (invalidTarget !== undefined) {
+    return { error: `Invalid notify target: ${invalidTarget}` };
+  }
+
+  const template = input.message_template ?? null;
+  if (template !== null && typeof template !== 'string') {
+    return { error: 'message_template must be a string or null' };
+  }
+
+  const quietStart = input.quiet_hours_start ?? null;
+  const quietEnd = input.quiet_hours_end ?? null;
+  if ((quietStart === null) !== (quietEnd === null)) {
+    return { error: 'quiet_hours_start and quiet_hours_end must be set together' };
+  }
+  for (const time of [quietStart, quietEnd]) {
+    if (time !== null && (typeof time !== 'string' || !TIME_PATTERN.test(time))) {
+      return { error: 'Quiet hours must be local times as HH:MM' };
+    }
+  }
+
+  const interval = input.notify_interval_minutes ?? 15;
+  if (!Number.isInteger(interval) || (interval as number) < 0) {
+    return { error: 'notify_interval_minutes must be a non-negative integer' };
+  }
+
+  return {
+    rule: {
+      id: existing?.id ?? generateId(),
+      name,
+      metric: input.metric,
+      operator: input.operator,
+      threshold: input.threshold,
+      clear_threshold: clearThreshold,
+      duration_seconds: duration as number,
+      device_id: deviceId || null,
+      enabled: input.enabled !== false,
+      snoozed_until: existing?.snoozed_until ?? null,
+      notify_targets: [...new Set(notifyTargets)],
+      message_template: template?.trim() || null,
+      quiet_hours_start: quietStart as string | null,
+      quiet_hours_end: quietEnd as string | null,
+      notify_interval_minutes: interval as number,
+    },
+  };
+}
+
+/**
+ * Create the alert API router
+ * @param db - Database the rules and history are stored in
+ * @param engine - Engine evaluating the rules
+ */
+export function createAlertRouter(db: AirQualityDatabase, engine: AlertEngine): Router {
+  const router = Router();
+
+  // GET / - Current alert states (pending, firing and resolved)
+  router.get('/', (req: Request, res: Response) => {
+    try {
+      const alerts = engine.getStates();
+      res.json({ alerts, count: alerts.length });
+    } catch (error) {
+      console.error('Error fetching alerts:', error);
+      res.status(500).json({ error: 'Failed to fetch alerts' });
+    }
+  });
+
+  // GET /history - Firing, resolved and acknowledged events, most recent first
+  router.get('/history', (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? Number.parseInt(req.query.limit as string, 10) : 100;
+      const since = req.query.since ? Number.parseInt(req.query.since as string, 10) : undefined;
+
+      if (Number.isNaN(limit) || Number.isNaN(since)) {
+        res.status(400).json({ error: 'Invalid limit/since, expected numbers' });
+        return;
+      }
+
+      const events = db.getAlertHistory({
+        limit,
+        since,
+        rule_id: req.query.rule_id as string | undefined,
+        device_id: req.query.device_id as string | undefined,
+      });
+      res.json({ events, count: events.length });
+    } catch (error) {
+      console.error('Error fetching alert history:', error);
+      res.status(500).json({ error: 'Failed to fetch alert history' });
+    }
+  });
+
+  // GET /notifications - Notification delivery log, most recent first
+  router.get('/notifications', (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? Number.parseInt(req.query.limit as string, 10) : 100;
+      if (Number.isNaN(limit)) {
+        res.status(400).json({ error: 'Invalid limit, expected a number' });
+        return;
+      }
+
+      const notifications = db.getNotifications({
+        limit,
+        rule_id: req.query.rule_id as string | undefined,
+        device_id: req.query.device_id as string | undefined,
+      });
+      res.json({ notifications, count: notifications.length });
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      res.status(500).json({ error: 'Failed to fetch notifications' });
+    }
+  });
+
+  // GET /rules - All rules
+  router.get('/rules', (req: Request, res: Response) => {
+    try {
+      res.json({ rules: db.getAlertRules() });
+    } catch (error) {
+      console.error('Error fetching alert rules:', error);
+      res.status(500).json({ error: 'Failed to fetch alert rules' });
+    }
+  });
+
+  // POST /rules - Create a rule
+  router.post('/rules', (req: Request, res: Response) => {
+    try {
+      const parsed = parseAlertRule(req.body, null);
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const rule = db.saveAlertRule(parsed.rule);
+      engine.invalidateRules();
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error('Error creating alert rule:', error);
+      res.status(500).json({ error: 'Failed to create alert rule' });
+    }
+  });
+
+  // PUT /rules/:id - Update a rule, its alerts start over
+  router.put('/rules/:id', (req: Request, res: Response) => {
+    try {
+      const existing = db.getAlertRule(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: 'Alert rule not found' });
+        return;
+      }
+
+      const parsed = parseAlertRule(req.body, existing);
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const rule = db.saveAlertRule(parsed.rule);
+      engine.resetRule(rule.id);
+      res.json(rule);
+    } catch (error) {
+      console.error('Error updating alert rule:', error);
+      res.status(500).json({ error: 'Failed to update alert rule' });
+    }
+  });
+
+  // DELETE /rules/:id - Delete a rule with its alerts and history
+  router.delete('/rules/:id', (req: Request, res: Response) => {
+    try {
+      if (!db.deleteAlertRule(req.params.id)) {
+        res.status(404).json({ error: 'Alert rule not found' });
+        return;
+      }
+      engine.resetRule(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting alert rule:', error);
+      res.status(500).json({ error: 'Failed to delete alert rule' });
+    }
+  });
+
+  // POST /rules/:id/snooze - Mute a rule for { minutes }, 0 unmutes it
+  router.post('/rules/:id/snooze', (req: Request, res: Response) => {
+    try {
+      const minutes = req.body?.minutes;
+      if (!isNumber(minutes) || minutes < 0) {
+        res.status(400).json({ error: 'minutes must be a non-negative number' });
+        return;
+      }
+
+      const until = minutes > 0 ? Date.now() + minutes * 60 * 1000 : null;
+      if (!db.snoozeAlertRule(req.params.id, until)) {
+        res.status(404).json({ error: 'Alert rule not found' });
+        return;
+      }
+      engine.invalidateRules();
+      res.json({ id: req.params.id, snoozed_until: until });
+    } catch (error) {
+      console.error('Error snoozing alert rule:', error);
+      res.status(500).json({ error: 'Failed to snooze alert rule' });
+    }
+  });
+
+  // POST /:rule_id/:device_id/acknowledge - Acknowledge a firing alert
+  router.post('/:rule_id/:device_id/acknowledge', (req: Request, res: Response) => {
+    try {
+      const state = engine.acknowledge(req.params.rule_id, req.params.device_id);
+      if (!state) {
+        res.status(404).json({ error: 'No firing alert for this rule and device' });
+        return;
+      }
+      res.json(state);
+    } catch (error) {
+      console.error('Error acknowledging alert:', error);
+      res.status(500).json({ error: 'Failed to acknowledge alert' });
+    }
+  });
+
+  return router;
+}
+
+export default createAlertRouter;
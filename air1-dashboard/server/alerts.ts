@@ -0,0 +1,255 @@
+/**
+ * Alert Rules Engine
+ *
+ * Evaluates alert rules against live device values. Each rule has a state per
+ * device: pending while the condition holds for less than the rule's duration,
+ * firing once it held long enough, and resolved after the value crossed the
+ * clear threshold back. While a rule is snoozed its alerts stay pending instead
+ * of firing. States are kept in SQLite so they survive restarts, and every
+ * firing, resolution and acknowledgement is written to the alert history.
+ */
+
+import { AGGREGATE_METRICS, type AirQualityDatabase, type AlertEvent, type AlertRule, type AlertState } from './db';
+import type { Device } from './types';
+
+// Device values rules can watch: the stored metrics and the computed AQI
+export const ALERT_METRICS = [...AGGREGATE_METRICS, 'aqi'];
+
+// Re-evaluate periodically, so pending alerts fire even when values stop changing
+const EVALUATION_INTERVAL_MS = 30 * 1000;
+
+export type AlertListener = (event: AlertEvent, rule: AlertRule) => void;
+
+/**
+ * Safely extract error message from unknown error type
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+/**
+ * Numeric value of a metric on a device, null if the device does not report it
+ */
+function metricValue(device: Device, metric: string): number | null {
+  const value = (device as unknown as Record<string, unknown>)[metric];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Whether the rule's condition holds for a value
+ */
+export function isBreached(rule: AlertRule, value: number): boolean {
+  return rule.operator === '>' ? value > rule.threshold : value < rule.threshold;
+}
+
+/**
+ * Whether a firing alert may resolve. With a clear threshold the value must
+ * cross it (hysteresis), otherwise it only has to leave the alert condition.
+ */
+export function isCleared(rule: AlertRule, value: number): boolean {
+  if (rule.clear_threshold === null) return !isBreached(rule, value);
+  return rule.operator === '>' ? value < rule.clear_threshold : value > rule.clear_threshold;
+}
+
+/**
+ * Whether a rule is snoozed at the given time
+ */
+export function isSnoozed(rule: AlertRule, now: number): boolean {
+  return rule.snoozed_until !== null && rule.snoozed_until > now;
+}
+
+export class AlertEngine {
+  private states = new Map<string, AlertState>();
+  // Enabled rules, loaded on the first evaluation after they changed
+  private rules: AlertRule[] | null = null;
+  private listeners = new Set<AlertListener>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * @param db - Rules, states and history
+   * @param getDevices - Source of the current device values for periodic evaluation
+   */
+  constructor(
+    private readonly db: AirQualityDatabase,
+    private readonly getDevices: () => Promise<Device[]>,
+  ) {
+    for (const state of db.getAlertStates()) {
+      this.states.set(this.key(state.rule_id, state.device_id), state);
+    }
+  }
+
+  /**
+   * Evaluate all devices periodically
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(async () => {
+      try {
+        this.evaluate(await this.getDevices());
+      } catch (error: unknown) {
+        console.error('[Alerts] Evaluation failed:', getErrorMessage(error));
+      }
+    }, EVALUATION_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Register a listener called when an alert fires, resolves or is acknowledged
+   * @returns Function that removes the listener
+   */
+  onEvent(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Current alert states, most recent first. Resolved states are kept until the
+   * alert becomes pending again.
+   */
+  getStates(): AlertState[] {
+    return [...this.states.values()].sort((a, b) => b.since - a.since);
+  }
+
+  /**
+   * Drop the cached states of a rule after it was changed or deleted
+   */
+  resetRule(ruleId: string): void {
+    for (const [key, state] of this.states) {
+      if (state.rule_id === ruleId) this.states.delete(key);
+    }
+    this.invalidateRules();
+  }
+
+  /**
+   * Reload the rules on the next evaluation, after one was created, changed or snoozed
+   */
+  invalidateRules(): void {
+    this.rules = null;
+  }
+
+  /**
+   * Evaluate the rules against device values
+   * @param devices - Devices with their current values, others keep their state
+   * @param now - Evaluation time (epoch ms)
+   */
+  evaluate(devices: Device[], now = Date.now()): void {
+    if (!this.rules) {
+      this.rules = this.db.getAlertRules().filter((rule) => rule.enabled);
+    }
+
+    for (const rule of this.rules) {
+      for (const device of devices) {
+        if (rule.device_id !== null && rule.device_id !== device.device_id) continue;
+
+        const value = metricValue(device, rule.metric);
+        // Unavailable values leave the state as it is
+        if (value === null) continue;
+
+        this.step(rule, device.device_id, value, now);
+      }
+    }
+  }
+
+  /**
+   * Acknowledge a firing alert
+   * @returns The updated state, or null if the alert is not firing
+   */
+  acknowledge(ruleId: string, deviceId: string, now = Date.now()): AlertState | null {
+    const state = this.states.get(this.key(ruleId, deviceId));
+    const rule = this.db.getAlertRule(ruleId);
+    if (!state || state.state !== 'firing' || !rule) return null;
+
+    if (state.acknowledged_at === null) {
+      state.acknowledged_at = now;
+      this.db.saveAlertState(state);
+      this.emit(rule, { rule_id: ruleId, device_id: deviceId, event: 'acknowledged', value: state.value, at: now });
+    }
+    return state;
+  }
+
+  private step(rule: AlertRule, deviceId: string, value: number, now: number): void {
+    const key = this.key(rule.id, deviceId);
+    const current = this.states.get(key);
+
+    if (!current || current.state === 'resolved') {
+      if (!isBreached(rule, value)) return;
+
+      const state: AlertState = {
+        rule_id: rule.id,
+        device_id: deviceId,
+        state: 'pending',
+        since: now,
+        value,
+        acknowledged_at: null,
+      };
+      this.save(key, state);
+      // Rules without a duration fire right away
+      if (rule.duration_seconds === 0 && !isSnoozed(rule, now)) this.fire(rule, state, now);
+      return;
+    }
+
+    if (current.state === 'pending') {
+      if (!isBreached(rule, value)) {
+        // Condition did not hold for the rule's duration
+        this.states.delete(key);
+        this.db.deleteAlertState(rule.id, deviceId);
+        return;
+      }
+
+      // Only transitions are written, the latest value is kept in memory
+      current.value = value;
+      // A snoozed rule fires once the snooze ends, if the condition still holds
+      if (now - current.since >= rule.duration_seconds * 1000 && !isSnoozed(rule, now)) {
+        this.fire(rule, current, now);
+      }
+      return;
+    }
+
+    // Firing
+    current.value = value;
+    if (isCleared(rule, value)) {
+      current.state = 'resolved';
+      current.since = now;
+      current.acknowledged_at = null;
+      this.save(key, current);
+      this.emit(rule, { rule_id: rule.id, device_id: deviceId, event: 'resolved', value, at: now });
+    }
+  }
+
+  private fire(rule: AlertRule, state: AlertState, now: number): void {
+    state.state = 'firing';
+    state.since = now;
+    this.save(this.key(rule.id, state.device_id), state);
+    console.log(`[Alerts] ${rule.name} firing on ${state.device_id}: ${rule.metric} = ${state.value}`);
+    this.emit(rule, { rule_id: rule.id, device_id: state.device_id, event: 'firing', value: state.value, at: now });
+  }
+
+  private save(key: string, state: AlertState): void {
+    this.states.set(key, state);
+    this.db.saveAlertState(state);
+  }
+
+  private emit(rule: AlertRule, event: Omit<AlertEvent, 'id'>): void {
+    const stored = this.db.insertAlertEvent(event);
+    for (const listener of this.listeners) {
+      try {
+        listener(stored, rule);
+      } catch (error: unknown) {
+        console.error('[Alerts] Error in event listener:', getErrorMessage(error));
+      }
+    }
+  }
+
+  private key(ruleId: string, deviceId: string): string {
+    return `${ruleId}:${deviceId}`;
+  }
+}
+
+export default AlertEngine;
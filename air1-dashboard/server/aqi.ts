@@ -0,0 +1,344 @@
+/**
+ * US EPA Air Quality Index
+ *
+ * Computes the AQI of PM2.5 and PM10 with the EPA breakpoint tables (PM2.5 as
+ * revised in 2024). Concentrations are NowCast averages of the last 12 hours,
+ * taken from the readings the recorder stored, or from Home Assistant history
+ * when there are not enough stored readings. The same hourly averages give the
+ * indices of the regional standards in index-standards.ts.
+ */
+
+import type { AirQualityDatabase } from './db';
+import { computeRegionalIndices } from './index-standards';
+import type { Device, IndexStandardId, IndexValue, TimeSeriesDataPoint } from './types';
+
+export type AqiPollutant = 'pm25' | 'pm10';
+
+export const AQI_POLLUTANTS: AqiPollutant[] = ['pm25', 'pm10'];
+
+interface Breakpoint {
+  cLow: number;
+  cHigh: number;
+  iLow: number;
+  iHigh: number;
+}
+
+// One row per AQI category, Good to Hazardous
+export const BREAKPOINTS: Record<AqiPollutant, Breakpoint[]> = {
+  pm25: [
+    { cLow: 0, cHigh: 9.0, iLow: 0, iHigh: 50 },
+    { cLow: 9.1, cHigh: 35.4, iLow: 51, iHigh: 100 },
+    { cLow: 35.5, cHigh: 55.4, iLow: 101, iHigh: 150 },
+    { cLow: 55.5, cHigh: 125.4, iLow: 151, iHigh: 200 },
+    { cLow: 125.5, cHigh: 225.4, iLow: 201, iHigh: 300 },
+    { cLow: 225.5, cHigh: 325.4, iLow: 301, iHigh: 500 },
+  ],
+  pm10: [
+    { cLow: 0, cHigh: 54, iLow: 0, iHigh: 50 },
+    { cLow: 55, cHigh: 154, iLow: 51, iHigh: 100 },
+    { cLow: 155, cHigh: 254, iLow: 101, iHigh: 150 },
+    { cLow: 255, cHigh: 354, iLow: 151, iHigh: 200 },
+    { cLow: 355, cHigh: 424, iLow: 201, iHigh: 300 },
+    { cLow: 425, cHigh: 604, iLow: 301, iHigh: 500 },
+  ],
+};
+
+// Concentrations are truncated to the precision of the breakpoint table
+const DECIMALS: Record<AqiPollutant, number> = {
+  pm25: 1,
+  pm10: 0,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOWCAST_HOURS = 12;
+// Hours of averages kept per device, enough for the 24-hour means of the regional standards
+const WINDOW_HOURS = 24;
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export interface DeviceAqi {
+  aqi: number;
+  pollutant: AqiPollutant;
+  // NowCast concentration per pollutant, in µg/m³
+  concentrations: Partial<Record<AqiPollutant, number>>;
+  // Index of every standard with enough data, us_epa being the fields above
+  indices: Partial<Record<IndexStandardId, IndexValue>>;
+  source: 'database' | 'history';
+  computed_at: number;
+}
+
+/**
+ * Hourly averages, most recent hour first (index 0), null for hours without data
+ */
+export type HourlyAverages = Partial<Record<AqiPollutant, (number | null)[]>>;
+
+/**
+ * Time series of PM2.5/PM10 values, used when not enough readings are stored
+ */
+export type ParticleHistorySource = (
+  deviceId: string,
+  start: string,
+  end: string,
+) => Promise<Partial<Record<AqiPollutant, TimeSeriesDataPoint[]>>>;
+
+type AqiChangeListener = (deviceIds: string[]) => void;
+
+/**
+ * Safely extract error message from unknown error type
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+function truncate(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.floor(value * factor) / factor;
+}
+
+/**
+ * AQI of a single pollutant concentration by linear interpolation between breakpoints
+ * @param pollutant - pm25 or pm10
+ * @param concentration - Concentration in µg/m³
+ * @returns AQI (0-500), or null for negative concentrations
+ */
+export function calculateAqi(pollutant: AqiPollutant, concentration: number): number | null {
+  if (Number.isNaN(concentration) || concentration < 0) return null;
+
+  const c = truncate(concentration, DECIMALS[pollutant]);
+  const breakpoints = BREAKPOINTS[pollutant];
+  const bp = breakpoints.find((b) => c <= b.cHigh);
+
+  // Above the highest breakpoint the AQI is capped at 500
+  if (!bp) return 500;
+
+  return Math.round(((bp.iHigh - bp.iLow) / (bp.cHigh - bp.cLow)) * (c - bp.cLow) + bp.iLow);
+}
+
+/**
+ * EPA NowCast of hourly averages
+ * @param hourly - Up to 12 hourly averages, most recent first, null for missing hours
+ * @returns NowCast concentration, or null if 2 of the 3 most recent hours are missing
+ */
+export function nowCast(hourly: (number | null)[]): number | null {
+  const recent = hourly.slice(0, 3).filter((c) => c != null);
+  if (recent.length < 2) return null;
+
+  const available = hourly.slice(0, NOWCAST_HOURS).filter((c): c is number => c != null);
+  const max = Math.max(...available);
+  const min = Math.min(...available);
+
+  // Weight factor: how stable the concentration was, at least 0.5
+  const weight = max === 0 ? 1 : Math.max(min / max, 0.5);
+
+  let weighted = 0;
+  let weights = 0;
+  hourly.slice(0, NOWCAST_HOURS).forEach((c, i) => {
+    if (c == null) return;
+    weighted += weight ** i * c;
+    weights += weight ** i;
+  });
+
+  return weighted / weights;
+}
+
+/**
+ * Overall AQI from hourly averages: the highest pollutant AQI
+ * @returns AQI, dominant pollutant and NowCast concentrations, or null without enough data
+ */
+export function computeAqi(hourly: HourlyAverages): Pick<DeviceAqi, 'aqi' | 'pollutant' | 'concentrations'> | null {
+  let result: Pick<DeviceAqi, 'aqi' | 'pollutant' | 'concentrations'> | null = null;
+  const concentrations: Partial<Record<AqiPollutant, number>> = {};
+
+  for (const pollutant of AQI_POLLUTANTS) {
+    const averages = hourly[pollutant];
+    if (!averages) continue;
+
+    const concentration = nowCast(averages);
+    if (concentration === null) continue;
+    concentrations[pollutant] = truncate(concentration, DECIMALS[pollutant]);
+
+    const aqi = calculateAqi(pollutant, concentration);
+    if (aqi !== null && (!result || aqi > result.aqi)) {
+      result = { aqi, pollutant, concentrations };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Indices of all standards: the US EPA AQI and those of the regional standards
+ */
+function withRegionalIndices(
+  epa: Pick<DeviceAqi, 'aqi' | 'pollutant' | 'concentrations'>,
+  hourly: HourlyAverages,
+): Partial<Record<IndexStandardId, IndexValue>> {
+  return {
+    us_epa: { value: epa.aqi, pollutant: epa.pollutant, concentrations: epa.concentrations },
+    ...computeRegionalIndices(hourly),
+  };
+}
+
+/**
+ * Average a time series into the hours of the averaging window
+ * @param points - Time series
+ * @param currentHour - Start of the most recent hour (epoch ms)
+ */
+function hourlyAveragesFromSeries(points: TimeSeriesDataPoint[], currentHour: number): (number | null)[] {
+  const sums = new Array<number>(WINDOW_HOURS).fill(0);
+  const counts = new Array<number>(WINDOW_HOURS).fill(0);
+
+  for (const point of points) {
+    if (point.value === null) continue;
+    const hour = Math.floor(Date.parse(point.timestamp) / HOUR_MS) * HOUR_MS;
+    const index = (currentHour - hour) / HOUR_MS;
+    if (index < 0 || index >= WINDOW_HOURS) continue;
+    sums[index] += point.value;
+    counts[index]++;
+  }
+
+  return sums.map((sum, i) => (counts[i] > 0 ? sum / counts[i] : null));
+}
+
+/**
+ * Keeps the current AQI of every device, recomputed at most every few minutes
+ */
+export class AqiTracker {
+  private cache = new Map<string, DeviceAqi | null>();
+  private computedAt = new Map<string, number>();
+  private listeners = new Set<AqiChangeListener>();
+  private refreshing: Promise<void> | null = null;
+
+  /**
+   * @param db - Stored readings, the preferred source of hourly averages
+   * @param fetchHistory - Fallback source when too few readings are stored
+   */
+  constructor(
+    private readonly db: AirQualityDatabase,
+    private readonly fetchHistory: ParticleHistorySource,
+  ) {}
+
+  /**
+   * Current AQI of a device, null if it cannot be computed (yet)
+   */
+  get(deviceId: string): DeviceAqi | null {
+    return this.cache.get(deviceId) ?? null;
+  }
+
+  /**
+   * Device with its AQI fields set from the cache
+   */
+  decorate(device: Device): Device {
+    const result = this.cache.get(device.device_id);
+    if (!result) return device;
+    return { ...device, aqi: result.aqi, aqi_pollutant: result.pollutant, indices: result.indices };
+  }
+
+  /**
+   * Register a listener called with the devices whose AQI changed
+   * @returns Function that removes the listener
+   */
+  onChange(listener: AqiChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Recompute the AQI of devices whose value is older than the cache TTL
+   */
+  refresh(deviceIds: string[]): Promise<void> {
+    // Concurrent callers share one refresh
+    if (!this.refreshing) {
+      this.refreshing = this.refreshStale(deviceIds).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async refreshStale(deviceIds: string[]): Promise<void> {
+    const now = Date.now();
+    const changed: string[] = [];
+
+    for (const deviceId of deviceIds) {
+      if (now - (this.computedAt.get(deviceId) ?? 0) < CACHE_TTL_MS) continue;
+
+      try {
+        const result = await this.compute(deviceId, now);
+        const previous = this.cache.get(deviceId);
+        this.cache.set(deviceId, result);
+        this.computedAt.set(deviceId, now);
+
+        if (
+          previous?.aqi !== result?.aqi ||
+          previous?.pollutant !== result?.pollutant ||
+          JSON.stringify(previous?.indices) !== JSON.stringify(result?.indices)
+        ) {
+          changed.push(deviceId);
+        }
+      } catch (error: unknown) {
+        // Keep the previous value, retry on the next refresh
+        console.error(`[AQI] Failed to compute AQI for ${deviceId}:`, getErrorMessage(error));
+      }
+    }
+
+    if (changed.length === 0) return;
+    for (const listener of this.listeners) {
+      try {
+        listener(changed);
+      } catch (error: unknown) {
+        console.error('[AQI] Error in change listener:', getErrorMessage(error));
+      }
+    }
+  }
+
+  private async compute(deviceId: string, now: number): Promise<DeviceAqi | null> {
+    const currentHour = Math.floor(now / HOUR_MS) * HOUR_MS;
+    const windowStart = currentHour - (WINDOW_HOURS - 1) * HOUR_MS;
+
+    const storedHourly = this.storedHourlyAverages(deviceId, currentHour, windowStart);
+    const stored = computeAqi(storedHourly);
+    if (stored) {
+      return { ...stored, indices: withRegionalIndices(stored, storedHourly), source: 'database', computed_at: now };
+    }
+
+    const series = await this.fetchHistory(deviceId, new Date(windowStart).toISOString(), new Date(now).toISOString());
+    const hourly: HourlyAverages = {};
+    for (const pollutant of AQI_POLLUTANTS) {
+      const points = series[pollutant];
+      if (points) {
+        hourly[pollutant] = hourlyAveragesFromSeries(points, currentHour);
+      }
+    }
+
+    const fromHistory = computeAqi(hourly);
+    return fromHistory
+      ? { ...fromHistory, indices: withRegionalIndices(fromHistory, hourly), source: 'history', computed_at: now }
+      : null;
+  }
+
+  private storedHourlyAverages(deviceId: string, currentHour: number, windowStart: number): HourlyAverages {
+    const buckets = this.db.getAggregates({
+      bucket: '1h',
+      metrics: AQI_POLLUTANTS,
+      device_id: deviceId,
+      since: windowStart,
+    });
+
+    const hourly: HourlyAverages = {};
+    for (const pollutant of AQI_POLLUTANTS) {
+      const averages = new Array<number | null>(WINDOW_HOURS).fill(null);
+      for (const bucket of buckets) {
+        const index = (currentHour - bucket.start) / HOUR_MS;
+        const aggregate = bucket.metrics[pollutant];
+        if (aggregate && index >= 0 && index < WINDOW_HOURS) {
+          averages[index] = aggregate.avg;
+        }
+      }
+      hourly[pollutant] = averages;
+    }
+    return hourly;
+  }
+}
+
+export default AqiTracker;
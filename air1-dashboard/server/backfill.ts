@@ -0,0 +1,421 @@
+/**
+ * History Backfill
+ *
+ * Reconstructs readings from the history Home Assistant already has, so a
+ * fresh install starts with the months of data HA kept. For every device, the
+ * recorded states of its sensor entities, or the hourly long-term statistics
+ * once HA has purged the states, are aligned onto a common reading grid and
+ * stored like imported readings. Grid slots the recorder already filled are
+ * left alone. The range is worked through a day at a time and the job's
+ * position is stored after each day, so a job interrupted by a restart
+ * continues where it stopped.
+ */
+
+import { groupEntitiesByDevice } from './config';
+import type { AirQualityDatabase, BackfillJob, BackfillSource, ReadingInsert } from './db';
+import { buildDevices, fetchDeviceHistory, mapEntitiesBySensorType, normalizeHistory } from './ha-client';
+import type { DeviceRegistry } from './ha-registry';
+import { fetchStatistics, statisticsRowStart } from './ha-statistics';
+import type { HAWebSocketClient } from './ha-websocket';
+import { normalizeValue } from './normalize';
+import type { HAEntity, SensorHistory, SensorType } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Progress is logged every this many days of the range
+const LOG_INTERVAL_DAYS = 7;
+
+export interface BackfillOptions {
+  start: number;
+  end: number;
+  source: BackfillSource;
+  // Spacing of the reconstructed readings, milliseconds (defaults to the recorder interval)
+  interval?: number;
+  device_ids: string[] | null;
+}
+
+export interface BackfillProgress {
+  running: boolean;
+  // Share of the job's range that is done, 0-100
+  percent: number;
+  // Running or last job, null if no backfill ran yet
+  job: BackfillJob | null;
+}
+
+interface BackfillDevice {
+  device_id: string;
+  room: string;
+  entities: Partial<Record<SensorType, HAEntity>>;
+}
+
+// Metric values of a device per grid slot
+type GridValues = Map<number, Partial<Record<SensorType, number>>>;
+
+function generateId(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Safely extract error message from unknown error type
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Align the state changes of one metric onto the grid. States hold until the
+ * next change, so every slot gets the value in effect at its start.
+ * @param points - State changes, oldest first; null values (unavailable) end the previous value
+ */
+function alignStates(
+  points: { time: number; value: number | null }[],
+  from: number,
+  to: number,
+  interval: number,
+): Map<number, number> {
+  const result = new Map<number, number>();
+  let index = 0;
+  let current: number | null = null;
+
+  for (let slot = from; slot < to; slot += interval) {
+    while (index < points.length && (points[index]?.time ?? Number.POSITIVE_INFINITY) <= slot) {
+      current = points[index]?.value ?? null;
+      index++;
+    }
+    if (current !== null) result.set(slot, current);
+  }
+
+  return result;
+}
+
+export class HistoryBackfill {
+  private job: BackfillJob | null = null;
+  private running: Promise<void> | null = null;
+  private cancelRequested = false;
+  private stopRequested = false;
+
+  /**
+   * @param db - Database the readings are written to
+   * @param socket - HA WebSocket client, for long-term statistics
+   * @param getEntities - Source of the sensor entities (calibration offsets attached)
+   * @param prefix - Sensor prefix
+   * @param intervalSeconds - Default spacing of reconstructed readings
+   */
+  constructor(
+    private readonly db: AirQualityDatabase,
+    private readonly socket: HAWebSocketClient,
+    private readonly getEntities: () => Promise<HAEntity[]>,
+    private readonly prefix = 'air1',
+    private readonly intervalSeconds = 300,
+    // Rooms of the devices, readings are stored under the device name without it
+    private readonly registry: DeviceRegistry | null = null,
+  ) {}
+
+  isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  /**
+   * Progress of the running or last job
+   */
+  getProgress(): BackfillProgress {
+    const job = this.job ?? this.db.getLatestBackfillJob();
+    const percent = job ? Math.round(((job.cursor - job.start) / Math.max(job.end - job.start, 1)) * 1000) / 10 : 0;
+    return { running: this.isRunning(), percent, job: job ? { ...job } : null };
+  }
+
+  /**
+   * Start a job in the background
+   */
+  start(options: BackfillOptions): BackfillJob {
+    if (this.running) {
+      throw new Error('A backfill is already running');
+    }
+
+    const interval = options.interval ?? this.intervalSeconds * 1000;
+    // Aligned like the recorder's samples, so both deduplicate against each other
+    const start = Math.floor(options.start / interval) * interval;
+    const now = Date.now();
+    const job: BackfillJob = {
+      id: generateId(),
+      start,
+      end: options.end,
+      source: options.source,
+      interval,
+      device_ids: options.device_ids,
+      status: 'running',
+      cursor: start,
+      imported: 0,
+      skipped: 0,
+      error: null,
+      created_at: now,
+      updated_at: now,
+      finished_at: null,
+    };
+
+    this.db.saveBackfillJob(job);
+    this.launch(job);
+    return { ...job };
+  }
+
+  /**
+   * Continue the last job if it failed or was cancelled
+   * @returns The resumed job, or null if there is nothing to resume
+   */
+  resume(): BackfillJob | null {
+    if (this.running) {
+      throw new Error('A backfill is already running');
+    }
+
+    const job = this.db.getLatestBackfillJob();
+    if (!job || job.status === 'completed') return null;
+
+    job.status = 'running';
+    job.error = null;
+    job.finished_at = null;
+    job.updated_at = Date.now();
+    this.db.saveBackfillJob(job);
+    this.launch(job);
+    return { ...job };
+  }
+
+  /**
+   * Resume a job that was still running when the server stopped
+   */
+  resumeInterrupted(): void {
+    if (this.running) return;
+
+    const job = this.db.getLatestBackfillJob();
+    if (job?.status !== 'running') return;
+
+    console.log(`[Backfill] Resuming interrupted backfill at ${new Date(job.cursor).toISOString()}`);
+    this.launch(job);
+  }
+
+  /**
+   * Cancel the running job after the day it is working on
+   * @returns false if no job is running
+   */
+  cancel(): boolean {
+    if (!this.running) return false;
+    this.cancelRequested = true;
+    return true;
+  }
+
+  /**
+   * Stop for shutdown. The job stays running and is resumed on the next start.
+   */
+  async stop(): Promise<void> {
+    this.stopRequested = true;
+    await this.running;
+  }
+
+  private launch(job: BackfillJob): void {
+    this.job = job;
+    this.cancelRequested = false;
+    this.stopRequested = false;
+    this.running = this.run(job).finally(() => {
+      this.running = null;
+    });
+  }
+
+  private async run(job: BackfillJob): Promise<void> {
+    const startedAt = Date.now();
+    // Whole grid slots per chunk, about a day
+    const chunk = Math.ceil(DAY_MS / job.interval) * job.interval;
+
+    try {
+      const devices = await this.loadDevices(job.device_ids);
+      if (devices.length === 0) {
+        throw new Error('No devices to backfill');
+      }
+      console.log(
+        `[Backfill] Backfilling ${devices.length} device(s) from ${new Date(job.cursor).toISOString()} to ${new Date(
+          job.end,
+        ).toISOString()} (${job.source})`,
+      );
+
+      let chunks = 0;
+      while (job.cursor < job.end && !this.cancelRequested && !this.stopRequested) {
+        const chunkEnd = Math.min(job.cursor + chunk, job.end);
+
+        for (const device of devices) {
+          const readings = await this.reconstruct(job, device, job.cursor, chunkEnd);
+          if (readings.length === 0) continue;
+
+          for (const outcome of this.db.importReadings(readings, 'skip')) {
+            if (outcome === 'skipped') job.skipped++;
+            else job.imported++;
+          }
+        }
+
+        job.cursor = chunkEnd;
+        job.updated_at = Date.now();
+        this.db.saveBackfillJob(job);
+
+        if (++chunks % LOG_INTERVAL_DAYS === 0) {
+          console.log(
+            `[Backfill] Reached ${new Date(job.cursor).toISOString()}, ${job.imported} readings imported, ${job.skipped} already stored`,
+          );
+        }
+      }
+      this.db.refreshTableRowCounts();
+
+      if (job.cursor < job.end && this.stopRequested) {
+        console.log(`[Backfill] Paused at ${new Date(job.cursor).toISOString()}, resuming on next start`);
+        return;
+      }
+      job.status = job.cursor < job.end ? 'cancelled' : 'completed';
+    } catch (error: unknown) {
+      job.status = 'failed';
+      job.error = getErrorMessage(error);
+      this.db.refreshTableRowCounts();
+      console.error('[Backfill] Failed:', job.error);
+    }
+
+    job.updated_at = Date.now();
+    job.finished_at = job.updated_at;
+    this.db.saveBackfillJob(job);
+
+    console.log(
+      `[Backfill] ${job.status}: ${job.imported} readings imported, ${job.skipped} already stored in ${Date.now() - startedAt}ms`,
+    );
+  }
+
+  /**
+   * Current devices and their sensor entities
+   */
+  private async loadDevices(deviceIds: string[] | null): Promise<BackfillDevice[]> {
+    const entities = await this.getEntities();
+    const grouped = groupEntitiesByDevice(entities, this.prefix);
+
+    return buildDevices(entities, this.prefix, this.registry?.getDevices())
+      .filter((device) => !deviceIds || deviceIds.includes(device.device_id))
+      .map((device) => ({
+        device_id: device.device_id,
+        // Stored under the same room as the recorder's readings
+        room: device.room || device.device_name,
+        entities: mapEntitiesBySensorType(grouped[device.device_id] ?? [], this.prefix),
+      }));
+  }
+
+  /**
+   * Readings of a device on the grid slots from `from` up to `to`
+   */
+  private async reconstruct(
+    job: BackfillJob,
+    device: BackfillDevice,
+    from: number,
+    to: number,
+  ): Promise<ReadingInsert[]> {
+    let grid: GridValues = new Map();
+    // Slots before this time have no recorded states
+    let covered = from;
+
+    if (job.source !== 'statistics') {
+      grid = await this.alignHistory(device, from, to, job.interval);
+      covered = grid.size > 0 ? Math.min(...grid.keys()) : to;
+    }
+
+    // Fill the slots HA has purged the states of from the statistics
+    if (job.source === 'statistics' || (job.source === 'auto' && covered > from)) {
+      for (const [slot, values] of await this.alignStatistics(device, from, covered, job.interval)) {
+        grid.set(slot, { ...values, ...grid.get(slot) });
+      }
+    }
+
+    return [...grid.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([timestamp, values]) => ({
+        id: generateId(),
+        device_id: device.device_id,
+        room: device.room,
+        timestamp,
+        data: Object.fromEntries(Object.entries(values).map(([metric, value]) => [metric, String(value)])),
+      }));
+  }
+
+  /**
+   * Recorded states of a device's metrics, aligned onto the grid
+   */
+  private async alignHistory(device: BackfillDevice, from: number, to: number, interval: number): Promise<GridValues> {
+    const history = await fetchDeviceHistory(
+      Object.values(device.entities),
+      new Date(from).toISOString(),
+      new Date(to).toISOString(),
+      { minimalResponse: true, significantChangesOnly: false },
+      this.prefix,
+    );
+
+    const grid: GridValues = new Map();
+    for (const [sensorType, sensorHistory] of Object.entries(history) as [SensorType, SensorHistory][]) {
+      // Same unit conversion and calibration offsets as /api/history
+      const points = normalizeHistory(sensorHistory.records, this.prefix, sensorHistory.offsets).history.map(
+        (point) => ({ time: Date.parse(point.timestamp), value: point.value }),
+      );
+
+      for (const [slot, value] of alignStates(points, from, to, interval)) {
+        grid.set(slot, { ...grid.get(slot), [sensorType]: value });
+      }
+    }
+    return grid;
+  }
+
+  /**
+   * Hourly means of a device's metrics, aligned onto the grid. With a grid
+   * finer than an hour, each hour is one reading at its start; with a coarser
+   * grid, the hours of a slot are averaged.
+   */
+  private async alignStatistics(
+    device: BackfillDevice,
+    from: number,
+    to: number,
+    interval: number,
+  ): Promise<GridValues> {
+    const grid: GridValues = new Map();
+    if (to <= from) return grid;
+
+    const entities = Object.entries(device.entities) as [SensorType, HAEntity][];
+    const statistics = await fetchStatistics(
+      this.socket,
+      entities.map(([, entity]) => entity.entity_id),
+      new Date(from).toISOString(),
+      new Date(to).toISOString(),
+      'hour',
+    );
+
+    for (const [sensorType, entity] of entities) {
+      const unit =
+        typeof entity.attributes.unit_of_measurement === 'string' ? entity.attributes.unit_of_measurement : null;
+      const sums = new Map<number, { total: number; count: number }>();
+
+      for (const row of statistics[entity.entity_id] ?? []) {
+        if (row.mean === null || row.mean === undefined) continue;
+        const start = statisticsRowStart(row);
+        if (start < from || start >= to) continue;
+
+        // Statistics hold the raw entity values; the offset in effect now is applied
+        const { value } = normalizeValue(sensorType, String(row.mean), unit, entity._offset ?? null);
+        if (value === null) continue;
+
+        const slot = Math.floor(start / interval) * interval;
+        const sum = sums.get(slot) ?? { total: 0, count: 0 };
+        sum.total += value;
+        sum.count++;
+        sums.set(slot, sum);
+      }
+
+      for (const [slot, { total, count }] of sums) {
+        grid.set(slot, { ...grid.get(slot), [sensorType]: round(total / count) });
+      }
+    }
+    return grid;
+  }
+}
+
+export default HistoryBackfill;
@@ -21,6 +21,17 @@ export const ENTITY_MAPPINGS: EntityMappings = {
   rssi: ['rssi', 'wifi_signal', 'signal_strength', 'wifi_rssi'],
 };
 
+// Entities the dashboard publishes to Home Assistant (see derived-entities.ts).
+// They start with the default "air1" prefix, so they must not be read back as sensors.
+export const DERIVED_ENTITY_PREFIX = 'sensor.air1_dashboard_';
+
+/**
+ * Whether an entity was published by the dashboard itself
+ */
+export function isDerivedEntity(entityId: string): boolean {
+  return entityId.startsWith(DERIVED_ENTITY_PREFIX);
+}
+
 /**
  * Parse entity ID to extract device/room name
  * @param entityId - Entity ID like "sensor.apollo_air_1_2c77c8_esp_temperature"
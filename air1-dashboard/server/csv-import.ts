@@ -0,0 +1,622 @@
+/**
+ * CSV Import
+ *
+ * Turns CSV files into readings for the importer, including exports of other
+ * air quality monitors. A mapping names the column holding the time and the
+ * columns holding each sensor type, with the unit their values are in; values
+ * are converted to the units readings are stored in. Presets resolve the
+ * mapping from the header of AirGradient dashboard, Awair and PurpleAir
+ * exports, and of generic CSV named after the sensor types (such as this
+ * dashboard's own CSV export, with or without its unit row). Semicolon-separated
+ * files may write decimals with a comma; times without an offset are read in
+ * the time zone given for the import.
+ */
+
+import { METRIC_UNITS } from './db';
+import type { ImportRow } from './reading-import';
+import type { SensorType } from './types';
+
+export interface CsvColumn {
+  column: string;
+  // Unit of the column's values, e.g. °F; defaults to the unit readings are stored in
+  unit?: string;
+}
+
+export interface CsvMapping {
+  // Column with the time: an ISO date, or epoch seconds or milliseconds
+  timestamp: string;
+  device_id?: string;
+  room?: string;
+  fields: Partial<Record<SensorType, CsvColumn>>;
+}
+
+// Values used for readings whose row has no device or room column
+export interface CsvDefaults {
+  room?: string;
+  device_id?: string;
+}
+
+// How the cells of a file are read
+interface CellFormat {
+  // Decimals written with a comma, as semicolon-separated files may do
+  decimalComma: boolean;
+  // IANA time zone of times without an offset, the server's if not given
+  timeZone?: string;
+}
+
+interface CsvPreset {
+  name: string;
+  // Candidate headers, the first present one is used
+  timestamp: string[];
+  device_id?: string[];
+  room?: string[];
+  fields: Partial<Record<SensorType, { headers: string[]; unit?: string }>>;
+}
+
+export const CSV_PRESETS: Record<string, CsvPreset> = {
+  airgradient: {
+    name: 'AirGradient dashboard',
+    timestamp: ['UTC Date/Time', 'Local Date/Time', 'Date'],
+    device_id: ['Sensor ID', 'Serialno'],
+    room: ['Location Name'],
+    fields: {
+      pm25: { headers: ['PM2.5 (μg/m³) corrected', 'PM2.5 (μg/m³)', 'PM2.5 (μg/m³) raw'] },
+      pm_1um: { headers: ['PM1 (μg/m³)'] },
+      pm10: { headers: ['PM10 (μg/m³)'] },
+      co2: { headers: ['CO2 (ppm)'] },
+      voc: { headers: ['TVOC Index', 'TVOC index (raw)'] },
+      nox: { headers: ['NOX Index', 'NOx index (raw)'] },
+      temperature: { headers: ['Temperature (°C) corrected', 'Temperature (°C)', 'Temperature (°C) raw'] },
+      humidity: { headers: ['Humidity (%) corrected', 'Humidity (%)', 'Humidity (%) raw'] },
+    },
+  },
+  awair: {
+    name: 'Awair',
+    timestamp: ['timestamp(UTC)', 'timestamp'],
+    device_id: ['device'],
+    fields: {
+      co2: { headers: ['co2'], unit: 'ppm' },
+      pm25: { headers: ['pm25'], unit: 'µg/m³' },
+      pm10: { headers: ['pm10'], unit: 'µg/m³' },
+      temperature: { headers: ['temp'], unit: '°C' },
+      humidity: { headers: ['humid'], unit: '%' },
+      // Awair's voc is TVOC in ppb, which does not convert to the VOC index
+    },
+  },
+  purpleair: {
+    name: 'PurpleAir',
+    timestamp: ['time_stamp', 'created_at', 'UTCDateTime'],
+    device_id: ['sensor_index'],
+    fields: {
+      pm25: { headers: ['pm2.5_atm', 'pm2.5_atm_a', 'pm2.5_cf_1', 'PM2.5_ATM_ug/m3'] },
+      pm_1um: { headers: ['pm1.0_atm', 'pm1.0_atm_a', 'PM1.0_ATM_ug/m3'] },
+      pm10: { headers: ['pm10.0_atm', 'pm10.0_atm_a', 'PM10.0_ATM_ug/m3'] },
+      // PurpleAir reports the sensor's temperature in °F
+      temperature: { headers: ['temperature', 'temperature_a', 'Temperature_F', 'current_temp_f'], unit: '°F' },
+      humidity: { headers: ['humidity', 'humidity_a', 'Humidity_%', 'current_humidity'] },
+      pressure: { headers: ['pressure', 'pressure_a', 'Pressure_hpa'], unit: 'hPa' },
+      rssi: { headers: ['rssi'] },
+    },
+  },
+  generic: {
+    name: 'Generic CSV with units',
+    timestamp: ['timestamp', 'time', 'datetime', 'date'],
+    device_id: ['device_id', 'device'],
+    room: ['room'],
+    fields: {
+      co2: { headers: ['co2'] },
+      pm25: { headers: ['pm25', 'pm2.5', 'pm2_5'] },
+      pm10: { headers: ['pm10'] },
+      pm_1um: { headers: ['pm_1um', 'pm1', 'pm1.0'] },
+      pm_4um: { headers: ['pm_4um', 'pm4', 'pm4.0'] },
+      humidity: { headers: ['humidity', 'rh'] },
+      temperature: { headers: ['temperature', 'temp'] },
+      voc: { headers: ['voc', 'voc_index'] },
+      nox: { headers: ['nox', 'nox_index'] },
+      pressure: { headers: ['pressure'] },
+      rssi: { headers: ['rssi'] },
+    },
+  },
+};
+
+// Unit spellings, normalized by normalizeUnit, and the unit they stand for
+const UNIT_ALIASES: Record<string, string> = {
+  c: '°C',
+  '°c': '°C',
+  degc: '°C',
+  celsius: '°C',
+  f: '°F',
+  '°f': '°F',
+  degf: '°F',
+  fahrenheit: '°F',
+  k: 'K',
+  kelvin: 'K',
+  'µg/m³': 'µg/m³',
+  'µg/m3': 'µg/m³',
+  'ug/m3': 'µg/m³',
+  'ug/m³': 'µg/m³',
+  ppm: 'ppm',
+  ppb: 'ppb',
+  '%': '%',
+  hpa: 'hPa',
+  mbar: 'hPa',
+  pa: 'Pa',
+  kpa: 'kPa',
+  inhg: 'inHg',
+  mmhg: 'mmHg',
+  dbm: 'dBm',
+};
+
+// Conversions to the units readings are stored in, keyed by "<from>><to>"
+const CONVERSIONS: Record<string, (value: number) => number> = {
+  '°F>°C': (value) => ((value - 32) * 5) / 9,
+  'K>°C': (value) => value - 273.15,
+  'Pa>hPa': (value) => value / 100,
+  'kPa>hPa': (value) => value * 10,
+  'inHg>hPa': (value) => value * 33.8639,
+  'mmHg>hPa': (value) => value * 1.33322,
+  'ppb>ppm': (value) => value / 1000,
+};
+
+// Cells that mean "no value"
+const EMPTY_VALUES = ['', 'nan', 'null', 'none', 'n/a', '-'];
+
+const NUMBER_PATTERN = /^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/;
+
+// Time zone offset formatters by time zone, created once per zone
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Date and time without T or with a trailing "UTC", e.g. 2024-01-15 10:30:00 UTC
+const SPACED_DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)\s*(UTC|Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Header in a form that ignores case, spacing and the µ/μ spelling
+ */
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/μ/g, 'µ').replace(/\s+/g, ' ');
+}
+
+/**
+ * Header without a trailing unit, e.g. "temperature (°F)" -> "temperature"
+ */
+function stripUnit(header: string): string {
+  return normalizeHeader(header)
+    .replace(/\s*[([][^)\]]*[)\]]\s*$/, '')
+    .trim();
+}
+
+/**
+ * Unit given in a header, e.g. "temperature (°F)" -> "°F"
+ */
+function unitFromHeader(header: string): string | undefined {
+  return header.match(/[([]([^)\]]+)[)\]]\s*$/)?.[1]?.trim();
+}
+
+function normalizeUnit(unit: string): string | undefined {
+  return UNIT_ALIASES[unit.trim().toLowerCase().replace(/μ/g, 'µ').replace(/\s+/g, '')];
+}
+
+/**
+ * Convert a value to the unit readings of a sensor type are stored in
+ * @returns The converted value, or null if the unit does not convert
+ */
+function convertUnit(value: number, unit: string | undefined, field: SensorType): number | null {
+  const target = METRIC_UNITS[field];
+  if (!unit || !target) return value;
+
+  const from = normalizeUnit(unit);
+  if (from === target) return value;
+
+  const convert = from ? CONVERSIONS[`${from}>${target}`] : undefined;
+  return convert ? convert(value) : null;
+}
+
+/**
+ * Whether a time zone is an IANA time zone known to the runtime
+ */
+export function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function zoneOffset(instant: number, timeZone: string): number {
+  let format = zoneFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zoneFormats.set(timeZone, format);
+  }
+
+  const parts = Object.fromEntries(format.formatToParts(instant).map((part) => [part.type, Number(part.value)]));
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return local - (instant - (((instant % 1000) + 1000) % 1000));
+}
+
+/**
+ * Epoch milliseconds of a wall-clock time in a time zone
+ * @param local - The wall-clock time as if it were UTC
+ */
+function fromZonedTime(local: number, timeZone: string): number {
+  // The offset at the guess differs from the one at the result only next to a DST change
+  const guess = local - zoneOffset(local, timeZone);
+  return local - zoneOffset(guess, timeZone);
+}
+
+/**
+ * Number in a cell, which may have a decimal comma if the file uses them
+ * @returns The number, or null if the cell holds none
+ */
+function parseNumber(cell: string, decimalComma: boolean): number | null {
+  const text = decimalComma && !cell.includes('.') ? cell.replace(',', '.') : cell;
+  return NUMBER_PATTERN.test(text) ? Number(text) : null;
+}
+
+/**
+ * Epoch milliseconds of a timestamp cell: an ISO date, a date and time
+ * (in the import's time zone unless one is given) or epoch seconds/milliseconds
+ */
+function parseTimestamp(value: string, format: CellFormat): number | null {
+  const trimmed = value.trim();
+  const number = parseNumber(trimmed, format.decimalComma);
+  if (number !== null) {
+    // Epoch seconds until the year 5138
+    return number < 1e11 ? number * 1000 : number;
+  }
+
+  const spaced = trimmed.match(SPACED_DATE_PATTERN);
+  if (spaced && !spaced[3] && format.timeZone) {
+    const local = Date.parse(`${spaced[1]}T${spaced[2]}Z`);
+    return Number.isNaN(local) ? null : fromZonedTime(local, format.timeZone);
+  }
+  const iso = spaced
+    ? `${spaced[1]}T${spaced[2]}${spaced[3]?.toUpperCase() === 'UTC' ? 'Z' : (spaced[3] ?? '')}`
+    : trimmed;
+  const parsed = Date.parse(iso);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Split a CSV line into cells. Quoted cells may contain the delimiter and
+ * doubled quotes.
+ */
+export function parseCsvLine(line: string, delimiter = ','): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+}
+
+/**
+ * Whether a line ends inside a quoted cell, i.e. continues on the next line
+ */
+function hasOpenQuote(line: string): boolean {
+  return (line.match(/"/g)?.length ?? 0) % 2 === 1;
+}
+
+/**
+ * Delimiter of a CSV file from its header: semicolon if it has more of them than commas
+ */
+function detectDelimiter(header: string): string {
+  return (header.match(/;/g)?.length ?? 0) > (header.match(/,/g)?.length ?? 0) ? ';' : ',';
+}
+
+/**
+ * Split lines into CSV records. The delimiter (comma or semicolon) is taken
+ * from the header; quoted cells may span lines. Lines the reader dropped for
+ * their length are reported as null.
+ * @param dialect - Receives the delimiter once the header is read
+ */
+export async function* readCsvRecords(
+  lines: AsyncIterable<string | null>,
+  dialect: { delimiter: string | null } = { delimiter: null },
+): AsyncGenerator<string[] | null> {
+  let pending = '';
+
+  for await (const line of lines) {
+    if (line === null) {
+      pending = '';
+      yield null;
+      continue;
+    }
+
+    pending = pending ? `${pending}\n${line}` : line.replace(/^\uFEFF/, '');
+    if (hasOpenQuote(pending)) continue;
+
+    dialect.delimiter ??= detectDelimiter(pending);
+    yield parseCsvLine(pending, dialect.delimiter);
+    pending = '';
+  }
+
+  if (pending) yield parseCsvLine(pending, dialect.delimiter ?? ',');
+}
+
+/**
+ * First column of the header matching one of the candidates, ignoring case and units
+ */
+function findColumn(header: string[], candidates: string[]): string | undefined {
+  for (const candidate of candidates) {
+    const match =
+      header.find((column) => normalizeHeader(column) === normalizeHeader(candidate)) ??
+      header.find((column) => stripUnit(column) === stripUnit(candidate));
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Preset matching the most columns of a header, ties go to the earlier preset
+ */
+export function detectPreset(header: string[]): string {
+  let best = 'generic';
+  let bestMatches = 0;
+
+  for (const [id, preset] of Object.entries(CSV_PRESETS)) {
+    const candidates = [preset.timestamp, ...Object.values(preset.fields).map((field) => field.headers)];
+    const matches = candidates.filter((headers) => findColumn(header, headers)).length;
+    if (matches > bestMatches) {
+      best = id;
+      bestMatches = matches;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Mapping of a header by a preset. Units come from the unit row, then the
+ * header (e.g. "temperature (°F)"), then the preset.
+ * @param units - Unit row below the header, if the file has one
+ */
+export function resolvePreset(presetId: string, header: string[], units?: string[]): CsvMapping {
+  const preset = CSV_PRESETS[presetId] ?? CSV_PRESETS.generic;
+  const mapping: CsvMapping = {
+    timestamp: findColumn(header, preset.timestamp) ?? '',
+    device_id: preset.device_id ? findColumn(header, preset.device_id) : undefined,
+    room: preset.room ? findColumn(header, preset.room) : undefined,
+    fields: {},
+  };
+
+  for (const [field, spec] of Object.entries(preset.fields)) {
+    const column = findColumn(header, spec.headers);
+    if (!column) continue;
+
+    const unitRowUnit = units?.[header.indexOf(column)] || undefined;
+    mapping.fields[field as SensorType] = { column, unit: unitRowUnit ?? unitFromHeader(column) ?? spec.unit };
+  }
+
+  return mapping;
+}
+
+/**
+ * Check a mapping against a header
+ * @returns Why the mapping cannot be used, or null
+ */
+export function validateMapping(mapping: CsvMapping, header: string[]): string | null {
+  if (!mapping.timestamp) {
+    return 'No timestamp column';
+  }
+
+  const columns = [
+    mapping.timestamp,
+    mapping.device_id,
+    mapping.room,
+    ...Object.values(mapping.fields).map((f) => f?.column),
+  ];
+  const missing = columns.find((column) => column && !header.includes(column));
+  if (missing) {
+    return `Column not found: ${missing}`;
+  }
+
+  if (Object.keys(mapping.fields).length === 0) {
+    return 'No columns mapped to sensor values';
+  }
+
+  for (const [field, column] of Object.entries(mapping.fields)) {
+    if (!(field in METRIC_UNITS)) {
+      return `Unknown sensor type: ${field}`;
+    }
+    if (convertUnit(1, column?.unit, field as SensorType) === null) {
+      return `Cannot convert ${column?.unit} to ${METRIC_UNITS[field]} for ${field}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a mapping from a request (JSON)
+ * @returns The mapping, or an error message
+ */
+export function parseMapping(value: unknown): { mapping: CsvMapping } | { error: string } {
+  let input = value;
+  if (typeof input === 'string') {
+    try {
+      input = JSON.parse(input);
+    } catch {
+      return { error: 'mapping is not valid JSON' };
+    }
+  }
+
+  const mapping = input as Partial<CsvMapping> | null;
+  if (!mapping || typeof mapping !== 'object' || typeof mapping.timestamp !== 'string') {
+    return { error: 'mapping must be an object with a timestamp column' };
+  }
+  if (!mapping.fields || typeof mapping.fields !== 'object') {
+    return { error: 'mapping.fields must map sensor types to columns' };
+  }
+  for (const column of Object.values(mapping.fields)) {
+    if (
+      !column ||
+      typeof column.column !== 'string' ||
+      (column.unit !== undefined && typeof column.unit !== 'string')
+    ) {
+      return { error: 'Each mapped field needs a column and an optional unit' };
+    }
+  }
+
+  return {
+    mapping: {
+      timestamp: mapping.timestamp,
+      device_id: typeof mapping.device_id === 'string' ? mapping.device_id : undefined,
+      room: typeof mapping.room === 'string' ? mapping.room : undefined,
+      fields: mapping.fields,
+    },
+  };
+}
+
+/**
+ * Reading of a CSV record, in the shape of an exported reading
+ */
+function toImportRow(
+  record: string[],
+  header: string[],
+  mapping: CsvMapping,
+  defaults: CsvDefaults,
+  format: CellFormat,
+): ImportRow {
+  const cell = (column: string | undefined) => (column ? (record[header.indexOf(column)] ?? '') : '');
+
+  const timestamp = parseTimestamp(cell(mapping.timestamp), format);
+  if (timestamp === null) {
+    return { error: `Invalid timestamp: ${JSON.stringify(cell(mapping.timestamp))}` };
+  }
+
+  const data: Record<string, string> = {};
+  for (const [field, column] of Object.entries(mapping.fields)) {
+    const raw = cell(column?.column);
+    if (EMPTY_VALUES.includes(raw.toLowerCase())) continue;
+    const number = parseNumber(raw, format.decimalComma);
+    if (number === null) {
+      return { error: `Invalid value for ${field}: ${JSON.stringify(raw)}` };
+    }
+
+    const value = convertUnit(number, column?.unit, field as SensorType) as number;
+    data[field] = String(Math.round(value * 100) / 100);
+  }
+
+  if (Object.keys(data).length === 0) {
+    return { error: 'No sensor values' };
+  }
+
+  return {
+    value: {
+      device_id: cell(mapping.device_id) || defaults.device_id || null,
+      room: cell(mapping.room) || defaults.room || '',
+      timestamp,
+      data,
+    },
+  };
+}
+
+/**
+ * Read the header of a CSV import and map its records to import rows
+ * @param lines - Lines of the file, as from readLines
+ * @param options - A preset (detected from the header if neither is given) or an explicit mapping,
+ *   and the IANA time zone of times without an offset (the server's if not given)
+ * @returns The rows to import and the mapping used, or why the file cannot be imported
+ */
+export async function openCsvImport(
+  lines: AsyncIterable<string | null>,
+  options: { preset?: string; mapping?: CsvMapping; defaults: CsvDefaults; time_zone?: string },
+): Promise<{ rows: AsyncIterable<ImportRow>; mapping: CsvMapping; preset: string | null } | { error: string }> {
+  const dialect: { delimiter: string | null } = { delimiter: null };
+  const iterator = readCsvRecords(lines, dialect)[Symbol.asyncIterator]();
+
+  const first = await iterator.next();
+  const header = first.done ? null : first.value;
+  if (!header) {
+    return { error: 'Missing CSV header' };
+  }
+
+  // A unit row (like the one of this dashboard's CSV export) has no timestamp
+  let second = await iterator.next();
+  const preset = options.mapping ? null : options.preset || detectPreset(header);
+  const timestampColumn = options.mapping?.timestamp ?? resolvePreset(preset ?? 'generic', header).timestamp;
+  const timestampIndex = header.indexOf(timestampColumn);
+  let units: string[] | undefined;
+  if (timestampIndex !== -1 && !second.done && second.value && !second.value[timestampIndex]) {
+    units = second.value;
+    second = await iterator.next();
+  }
+
+  const mapping = options.mapping ?? resolvePreset(preset ?? 'generic', header, units);
+  const error = validateMapping(mapping, header);
+  if (error) {
+    return { error };
+  }
+
+  const format: CellFormat = { decimalComma: dialect.delimiter === ';', timeZone: options.time_zone };
+
+  async function* rows(): AsyncGenerator<ImportRow> {
+    let next = second;
+    while (!next.done) {
+      yield next.value
+        ? toImportRow(next.value, header as string[], mapping, options.defaults, format)
+        : { error: 'Line longer than 1 MB' };
+      next = await iterator.next();
+    }
+  }
+
+  return { rows: rows(), mapping, preset };
+}
+
+/**
+ * Mapping of a CSV file by a preset, from the first lines of the file
+ * @param sample - Header line, optionally followed by a unit row and more rows
+ */
+export function mapCsvSample(
+  sample: string,
+  presetId?: string,
+): { preset: string; header: string[]; mapping: CsvMapping } {
+  const lines = sample
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim());
+  const delimiter = detectDelimiter(lines[0] ?? '');
+  const header = lines[0] ? parseCsvLine(lines[0], delimiter) : [];
+  const preset = presetId && presetId in CSV_PRESETS ? presetId : detectPreset(header);
+
+  const second = lines[1] ? parseCsvLine(lines[1], delimiter) : undefined;
+  const timestampIndex = header.indexOf(resolvePreset(preset, header).timestamp);
+  const units = second && timestampIndex !== -1 && !second[timestampIndex] ? second : undefined;
+
+  return { preset, header, mapping: resolvePreset(preset, header, units) };
+}
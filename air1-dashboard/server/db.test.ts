@@ -0,0 +1,105 @@
+/**
+ * Database compaction tests
+ *
+ * Roll up and prune readings of an in-memory database at fixed times.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { AirQualityDatabase, type RetentionPolicy } from './db';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Noon, so the hours below fall into completed days
+const NOW = Date.UTC(2025, 0, 15, 12);
+// An hour of a day five days back, before the raw retention
+const OLD_HOUR = Date.UTC(2025, 0, 10, 8);
+
+const POLICY: RetentionPolicy = { raw_days: 1, hourly_days: 30, daily_days: 365 };
+
+let nextId = 0;
+
+function importCo2(db: AirQualityDatabase, hour: number, values: number[]): void {
+  db.importReadings(
+    values.map((co2, i) => ({
+      id: `reading-${nextId++}`,
+      device_id: '2c77c8',
+      room: 'Bedroom',
+      timestamp: hour + i * 5 * 60 * 1000,
+      data: { co2 },
+    })),
+    'keep_both',
+  );
+}
+
+function rollup(db: AirQualityDatabase, resolution: 'hourly' | 'daily', bucket: number) {
+  return db.getRollups({ resolution, metrics: ['co2'], device_id: '2c77c8' }).find((row) => row.bucket === bucket);
+}
+
+describe('compact', () => {
+  let db: AirQualityDatabase;
+
+  beforeEach(() => {
+    db = new AirQualityDatabase(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('rebuilds hours that still have their raw rows', () => {
+    const hour = NOW - 3 * HOUR_MS;
+    importCo2(db, hour, [400, 600]);
+    db.compact(POLICY, NOW);
+    importCo2(db, hour + 30 * 60 * 1000, [800]);
+    db.compact(POLICY, NOW + HOUR_MS);
+
+    expect(rollup(db, 'hourly', hour)).toMatchObject({ count: 3, avg: 600, min: 400, max: 800 });
+  });
+
+  test('counts pruned readings, not their measurements', () => {
+    db.importReadings(
+      [0, 1, 2, 3, 4].map((i) => ({
+        id: `reading-${nextId++}`,
+        device_id: '2c77c8',
+        room: 'Bedroom',
+        timestamp: OLD_HOUR + i * 60 * 1000,
+        data: { co2: 600, pm25: 4, humidity: 45 },
+      })),
+      'keep_both',
+    );
+
+    expect(db.compact(POLICY, NOW).raw_pruned).toBe(5);
+  });
+
+  test('merges readings imported into a pruned hour into its rollup', () => {
+    importCo2(db, OLD_HOUR, [1000, 1000, 1000, 1000, 1000, 1000]);
+    db.compact(POLICY, NOW);
+    expect(db.getStats().total_readings).toBe(0);
+
+    importCo2(db, OLD_HOUR, [400, 400, 400, 400, 400, 400]);
+    db.compact(POLICY, NOW + HOUR_MS);
+
+    expect(rollup(db, 'hourly', OLD_HOUR)).toMatchObject({ count: 12, avg: 700, min: 400, max: 1000 });
+    expect(rollup(db, 'daily', OLD_HOUR - (OLD_HOUR % DAY_MS))).toMatchObject({ count: 12, avg: 700 });
+    // The merged readings are pruned, a further run does not count them again
+    expect(db.getStats().total_readings).toBe(0);
+
+    db.compact(POLICY, NOW + 2 * HOUR_MS);
+    expect(rollup(db, 'hourly', OLD_HOUR)).toMatchObject({ count: 12, avg: 700 });
+  });
+
+  test('merges readings imported into a day without hourly rows into its daily rollup', () => {
+    const policy = { ...POLICY, hourly_days: 2 };
+    const day = OLD_HOUR - (OLD_HOUR % DAY_MS);
+    importCo2(db, OLD_HOUR, [1000, 1000]);
+    db.compact(policy, NOW);
+    expect(rollup(db, 'hourly', OLD_HOUR)).toBeUndefined();
+
+    importCo2(db, OLD_HOUR + HOUR_MS, [400, 400]);
+    db.compact(policy, NOW + HOUR_MS);
+    db.compact(policy, NOW + 2 * HOUR_MS);
+
+    expect(rollup(db, 'daily', day)).toMatchObject({ count: 4, avg: 700, min: 400, max: 1000 });
+  });
+});
@@ -1,22 +1,27 @@
 import { Database } from 'bun:sqlite';
-import { mkdirSync } from 'node:fs';
+import { mkdirSync, rmSync } from 'node:fs';
 import { dirname } from 'node:path';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS } from './migrations';
 
-interface StoredReading {
+/**
+ * A stored reading. data combines the reading's measurements (as strings, like
+ * the dashboard's SensorData) with its non-numeric fields.
+ */
+export interface StoredReading {
   id: string;
   device_id: string | null;
   room: string;
   timestamp: number;
   created_at: string;
-  sensor_data: string;
+  data: Record<string, string>;
 }
 
-interface ReadingInsert {
+export interface ReadingInsert {
   id: string;
   device_id: string | null;
   room: string;
   timestamp: number;
-  sensor_data: string;
+  data: Record<string, unknown>;
 }
 
 interface ReadingQuery {
@@ -25,10 +30,410 @@ interface ReadingQuery {
   device_id?: string;
   room?: string;
   since?: number;
+  // Only readings where this metric is above and/or below the given values
+  metric?: string;
+  above?: number;
+  below?: number;
+}
+
+// How an imported reading that collides with a stored one is handled
+export type ConflictStrategy = 'skip' | 'overwrite' | 'keep_both';
+
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = ['skip', 'overwrite', 'keep_both'];
+
+export type ImportOutcome = 'imported' | 'overwritten' | 'skipped' | 'kept_both';
+
+interface ExportQuery {
+  device_id?: string;
+  room?: string;
+  since?: number;
+  until?: number;
+}
+
+interface ReadingRow {
+  id: string;
+  device_id: string | null;
+  room: string;
+  timestamp: number;
+  created_at: string;
+  sensor_data: string;
+  measurements: string | null;
+}
+
+export type AggregateBucket = '5m' | '1h' | '1d';
+
+export const AGGREGATE_BUCKETS: Record<AggregateBucket, number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+// Numeric metrics stored in the measurements table, with the unit they are stored in
+export const METRIC_UNITS: Record<string, string | null> = {
+  co2: 'ppm',
+  pm25: 'µg/m³',
+  pm10: 'µg/m³',
+  pm_1um: 'µg/m³',
+  pm_4um: 'µg/m³',
+  humidity: '%',
+  temperature: '°C',
+  voc: null,
+  nox: null,
+  pressure: 'hPa',
+  rssi: 'dBm',
+};
+
+export const AGGREGATE_METRICS = Object.keys(METRIC_UNITS);
+
+const NUMBER_PATTERN = /^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/;
+
+/**
+ * Numeric value of a sensor_data field, or null if it does not hold a number
+ */
+function toMeasurementValue(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && NUMBER_PATTERN.test(value)) return Number(value);
+  return null;
+}
+
+/**
+ * Split reading data into measurements and the remaining (non-numeric) fields
+ */
+function splitReadingData(data: Record<string, unknown>): {
+  measurements: { metric: string; value: number; unit: string | null }[];
+  extra: Record<string, unknown>;
+} {
+  const measurements: { metric: string; value: number; unit: string | null }[] = [];
+  const extra: Record<string, unknown> = {};
+
+  for (const [key, raw] of Object.entries(data)) {
+    const value = key in METRIC_UNITS ? toMeasurementValue(raw) : null;
+    if (value === null) {
+      extra[key] = raw;
+    } else {
+      measurements.push({ metric: key, value, unit: METRIC_UNITS[key] });
+    }
+  }
+
+  return { measurements, extra };
+}
+
+/**
+ * Rebuild the data of a reading from its measurements and remaining fields
+ */
+function toStoredReading(row: ReadingRow): StoredReading {
+  const data: Record<string, string> = JSON.parse(row.sensor_data);
+  const measurements: Record<string, number> = row.measurements ? JSON.parse(row.measurements) : {};
+  for (const [metric, value] of Object.entries(measurements)) {
+    data[metric] = String(value);
+  }
+
+  return {
+    id: row.id,
+    device_id: row.device_id,
+    room: row.room,
+    timestamp: row.timestamp,
+    created_at: row.created_at,
+    data,
+  };
+}
+
+// Selects readings with their measurements as a JSON object (r = readings)
+const READING_SELECT = `
+  SELECT
+    r.*,
+    (SELECT json_group_object(m.metric, m.value) FROM measurements m WHERE m.reading_id = r.id) AS measurements
+  FROM readings r
+`;
+
+const HOUR_MS = AGGREGATE_BUCKETS['1h'];
+const DAY_MS = AGGREGATE_BUCKETS['1d'];
+
+export type RollupResolution = 'hourly' | 'daily';
+
+const ROLLUP_TABLES: Record<RollupResolution, string> = {
+  hourly: 'readings_hourly',
+  daily: 'readings_daily',
+};
+
+export interface RetentionPolicy {
+  raw_days: number;
+  hourly_days: number;
+  daily_days: number;
+}
+
+export interface CompactionResult {
+  ran_at: number;
+  duration_ms: number;
+  hourly_rolled_up: number;
+  daily_rolled_up: number;
+  raw_pruned: number;
+  hourly_pruned: number;
+  daily_pruned: number;
+}
+
+interface RollupQuery {
+  resolution: RollupResolution;
+  metrics?: string[];
+  device_id?: string;
+  room?: string;
+  since?: number;
+  until?: number;
+}
+
+export interface RollupRow {
+  bucket: number;
+  device_id: string | null;
+  room: string | null;
+  metric: string;
+  min: number;
+  max: number;
+  avg: number;
+  p95: number;
+  count: number;
+}
+
+interface AggregateQuery {
+  bucket: AggregateBucket;
+  metrics?: string[];
+  device_id?: string;
+  room?: string;
+  since?: number;
+  until?: number;
+}
+
+export interface MetricAggregate {
+  min: number;
+  max: number;
+  avg: number;
+  p95: number;
+  count: number;
+}
+
+export interface AggregateRow {
+  start: number;
+  metrics: Record<string, MetricAggregate>;
+}
+
+export interface ThresholdTier {
+  max: number;
+  label: string;
+  color: string;
+  advice?: string;
+}
+
+/**
+ * Named set of tiers per metric. Metrics without tiers keep the dashboard's defaults.
+ */
+export interface ThresholdProfile {
+  id: string;
+  name: string;
+  thresholds: Record<string, ThresholdTier[]>;
+  created_at: number;
+  updated_at: number;
+}
+
+interface ThresholdProfileRow {
+  id: string;
+  name: string;
+  thresholds: string;
+  created_at: number;
+  updated_at: number;
+}
+
+function toThresholdProfile(row: ThresholdProfileRow): ThresholdProfile {
+  return { ...row, thresholds: JSON.parse(row.thresholds) };
+}
+
+export type AlertOperator = '>' | '<';
+
+/**
+ * Fires when metric stays above (>) or below (<) threshold for duration_seconds,
+ * resolves once it crosses clear_threshold (defaults to threshold) back.
+ */
+export interface AlertRule {
+  id: string;
+  name: string;
+  metric: string;
+  operator: AlertOperator;
+  threshold: number;
+  clear_threshold: number | null;
+  duration_seconds: number;
+  // null applies the rule to every device
+  device_id: string | null;
+  enabled: boolean;
+  snoozed_until: number | null;
+  // HA notify services alerts are delivered to, e.g. mobile_app_pixel_8
+  notify_targets: string[];
+  // null uses the default message
+  message_template: string | null;
+  // Local time "HH:MM", no notifications between start and end
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  // Minimum time between notifications of a rule on a device
+  notify_interval_minutes: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'created_at' | 'updated_at'>;
+
+export type AlertStateName = 'pending' | 'firing' | 'resolved';
+
+export interface AlertState {
+  rule_id: string;
+  device_id: string;
+  state: AlertStateName;
+  // When the current state was entered
+  since: number;
+  value: number;
+  acknowledged_at: number | null;
+}
+
+export type AlertEventName = 'firing' | 'resolved' | 'acknowledged';
+
+export interface AlertEvent {
+  id: number;
+  rule_id: string;
+  device_id: string;
+  event: AlertEventName;
+  value: number | null;
+  at: number;
+}
+
+interface AlertHistoryQuery {
+  limit?: number;
+  rule_id?: string;
+  device_id?: string;
+  since?: number;
+}
+
+// Alert events kept in the history
+const ALERT_HISTORY_LIMIT = 5000;
+
+type AlertRuleRow = Omit<AlertRule, 'enabled' | 'notify_targets'> & { enabled: number; notify_targets: string };
+
+function toAlertRule(row: AlertRuleRow): AlertRule {
+  return { ...row, enabled: row.enabled === 1, notify_targets: JSON.parse(row.notify_targets) };
+}
+
+export type NotificationStatus = 'sent' | 'failed' | 'suppressed';
+
+export interface NotificationLogEntry {
+  id: number;
+  rule_id: string;
+  device_id: string;
+  event: AlertEventName;
+  target: string;
+  status: NotificationStatus;
+  // Why a notification was suppressed or failed
+  reason: string | null;
+  message: string;
+  at: number;
+}
+
+// Notification log entries kept
+const NOTIFICATION_LOG_LIMIT = 1000;
+
+export type WebhookEvent = 'reading' | 'alert' | 'daily_summary';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['reading', 'alert', 'daily_summary'];
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  // Key of the HMAC-SHA256 request signature, null to send unsigned requests
+  secret: string | null;
+  events: WebhookEvent[];
+  enabled: boolean;
+  created_at: number;
+  updated_at: number;
+}
+
+export type WebhookInput = Omit<Webhook, 'created_at' | 'updated_at'>;
+
+type WebhookRow = Omit<Webhook, 'enabled' | 'events'> & { enabled: number; events: string };
+
+function toWebhook(row: WebhookRow): Webhook {
+  return { ...row, enabled: row.enabled === 1, events: JSON.parse(row.events) };
+}
+
+export interface WebhookDeadLetter {
+  id: number;
+  webhook_id: string;
+  event: string;
+  // Request body as it was sent
+  payload: string;
+  attempts: number;
+  last_error: string;
+  created_at: number;
+}
+
+// Dead letters kept
+const DEAD_LETTER_LIMIT = 1000;
+
+// Where a backfill reads history from: recorded states, long-term statistics,
+// or states where HA still has them and statistics before that
+export type BackfillSource = 'auto' | 'history' | 'statistics';
+
+export const BACKFILL_SOURCES: BackfillSource[] = ['auto', 'history', 'statistics'];
+
+// A running job is resumed when the server restarts
+export type BackfillStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BackfillJob {
+  id: string;
+  start: number;
+  end: number;
+  source: BackfillSource;
+  // Spacing of the reconstructed readings, milliseconds
+  interval: number;
+  // Devices to backfill, null for every device
+  device_ids: string[] | null;
+  status: BackfillStatus;
+  // Everything before this time has been backfilled
+  cursor: number;
+  imported: number;
+  // Readings already stored, e.g. by the recorder
+  skipped: number;
+  error: string | null;
+  created_at: number;
+  updated_at: number;
+  finished_at: number | null;
+}
+
+/**
+ * Conflict clause of a rollup insert. A rebuilt bucket replaces the stored row;
+ * merged rows are added to it, with the higher p95 as in the daily rollup.
+ */
+function rollupConflict(merge: boolean): string {
+  if (!merge) {
+    return `ON CONFLICT(bucket, device_id, room, metric) DO UPDATE SET
+      min = excluded.min,
+      max = excluded.max,
+      avg = excluded.avg,
+      p95 = excluded.p95,
+      count = excluded.count`;
+  }
+  return `ON CONFLICT(bucket, device_id, room, metric) DO UPDATE SET
+      min = MIN(min, excluded.min),
+      max = MAX(max, excluded.max),
+      avg = (avg * count + excluded.avg * excluded.count) / (count + excluded.count),
+      p95 = MAX(p95, excluded.p95),
+      count = count + excluded.count`;
+}
+
+type BackfillJobRow = Omit<BackfillJob, 'device_ids'> & { device_ids: string | null };
+
+function toBackfillJob(row: BackfillJobRow): BackfillJob {
+  return { ...row, device_ids: row.device_ids === null ? null : JSON.parse(row.device_ids) };
 }
 
 export class AirQualityDatabase {
   private db: Database;
+  // Rows per table as of the last count, counting on every metrics scrape would scan every table
+  private tableRowCounts: Record<string, number> | null = null;
 
   constructor(dbPath = '/data/air_quality.db') {
     // Ensure data directory exists (synchronously)
@@ -45,27 +450,67 @@ export class AirQualityDatabase {
     this.db = new Database(dbPath);
     // Enable WAL mode for better concurrency
     this.db.exec('PRAGMA journal_mode = WAL');
-    this.initSchema();
-  }
-
-  private initSchema(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS readings (
-        id TEXT PRIMARY KEY,
-        device_id TEXT,
-        room TEXT,
-        timestamp INTEGER NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        sensor_data TEXT NOT NULL,
-        UNIQUE(timestamp, device_id)
+    // Measurements are deleted together with their reading
+    this.db.exec('PRAGMA foreign_keys = ON');
+    this.migrate(dbPath);
+  }
+
+  /**
+   * Apply pending schema migrations. The database file is backed up first,
+   * so a failed migration can be recovered from.
+   */
+  private migrate(dbPath: string): void {
+    const current = this.getSchemaVersion();
+
+    if (current > LATEST_SCHEMA_VERSION) {
+      throw new Error(
+        `Database schema version ${current} is newer than this version supports (${LATEST_SCHEMA_VERSION})`,
       );
+    }
 
-      CREATE INDEX IF NOT EXISTS idx_timestamp ON readings(timestamp DESC);
-      CREATE INDEX IF NOT EXISTS idx_device_id ON readings(device_id);
-      CREATE INDEX IF NOT EXISTS idx_room ON readings(room);
-    `);
+    const pending = MIGRATIONS.filter((migration) => migration.version > current);
+    if (pending.length === 0) return;
+
+    this.backup(dbPath, current);
+
+    for (const migration of pending) {
+      console.log(`[Database] Migrating schema to version ${migration.version}: ${migration.description}`);
+      this.db.transaction(() => {
+        migration.up(this.db);
+        this.db.exec(`PRAGMA user_version = ${migration.version}`);
+      })();
+    }
+  }
+
+  /**
+   * Copy the database to <dbPath>.v<version>.bak before migrating it.
+   * Skipped for new (empty) and in-memory databases.
+   */
+  private backup(dbPath: string, version: number): void {
+    if (dbPath === ':memory:') return;
+
+    const tables = this.db.prepare("SELECT COUNT(*) as count FROM sqlite_master WHERE type = 'table'").get() as {
+      count: number;
+    };
+    if (tables.count === 0) return;
+
+    const backupPath = `${dbPath}.v${version}.bak`;
+    rmSync(backupPath, { force: true });
+    // VACUUM INTO writes a consistent copy, including changes still in the WAL
+    this.db.prepare('VACUUM INTO ?').run(backupPath);
+    console.log(`[Database] Backed up schema version ${version} to ${backupPath}`);
+  }
+
+  /**
+   * Current schema version (PRAGMA user_version)
+   */
+  getSchemaVersion(): number {
+    return (this.db.prepare('PRAGMA user_version').get() as { user_version: number }).user_version;
   }
 
+  /**
+   * Insert a reading, replacing the data of an existing reading with the same timestamp and device
+   */
   insertReading(reading: ReadingInsert): void {
     const stmt = this.db.prepare(`
       INSERT INTO readings (id, device_id, room, timestamp, sensor_data)
@@ -73,17 +518,435 @@ export class AirQualityDatabase {
       ON CONFLICT(timestamp, device_id) DO UPDATE SET
         sensor_data = excluded.sensor_data,
         room = excluded.room
+      RETURNING id
     `);
 
-    stmt.run(reading.id, reading.device_id, reading.room, reading.timestamp, reading.sensor_data);
+    const { measurements, extra } = splitReadingData(reading.data);
+
+    this.db.transaction(() => {
+      // On conflict the existing row keeps its id
+      const { id } = stmt.get(
+        reading.id,
+        reading.device_id,
+        reading.room,
+        reading.timestamp,
+        JSON.stringify(extra),
+      ) as { id: string };
+
+      this.db.prepare('DELETE FROM measurements WHERE reading_id = ?').run(id);
+      this.insertMeasurements(id, measurements);
+      this.markForRollup(reading.timestamp);
+    })();
+  }
+
+  /**
+   * ID of the stored reading an imported reading collides with: one with the
+   * same id, or with the same timestamp and device
+   */
+  findConflictingReading(reading: ReadingInsert): string | null {
+    const row = this.db
+      .prepare('SELECT id FROM readings WHERE id = ? OR (timestamp = ? AND device_id IS ?) LIMIT 1')
+      .get(reading.id, reading.timestamp, reading.device_id) as { id: string } | null;
+    return row?.id ?? null;
+  }
+
+  /**
+   * Start collecting the keys of an import's readings in a temporary table.
+   * SQLite keeps temporary tables in a file, so an import of any size reports
+   * its duplicates without holding its keys in memory.
+   */
+  beginImportKeys(): void {
+    this.db.exec('CREATE TEMP TABLE IF NOT EXISTS import_keys (key TEXT PRIMARY KEY) WITHOUT ROWID');
+    this.db.exec('DELETE FROM temp.import_keys');
+  }
+
+  /**
+   * Add the keys of a batch of imported readings
+   * @returns For each reading, whether an earlier reading of the import had one of its keys
+   */
+  addImportKeys(keys: string[][]): boolean[] {
+    const insert = this.db.prepare('INSERT OR IGNORE INTO temp.import_keys (key) VALUES (?)');
+    return this.db.transaction(() =>
+      keys.map((readingKeys) => readingKeys.map((key) => insert.run(key).changes === 0).includes(true)),
+    )();
+  }
+
+  endImportKeys(): void {
+    this.db.exec('DROP TABLE IF EXISTS temp.import_keys');
+  }
+
+  /**
+   * Import a reading, resolving a collision with a stored reading by the strategy:
+   * skip keeps the stored reading, overwrite replaces its room and data, and
+   * keep_both stores the imported reading under a new id, moved to the next
+   * free millisecond if the timestamp is taken.
+   */
+  importReading(reading: ReadingInsert, strategy: ConflictStrategy): ImportOutcome {
+    const insert = this.db.prepare(
+      'INSERT INTO readings (id, device_id, room, timestamp, sensor_data) VALUES (?, ?, ?, ?, ?)',
+    );
+    const timestampTaken = this.db.prepare('SELECT 1 FROM readings WHERE timestamp = ? AND device_id IS ?');
+    const { measurements, extra } = splitReadingData(reading.data);
+
+    return this.db.transaction((): ImportOutcome => {
+      const conflictId = this.findConflictingReading(reading);
+      if (conflictId === null || strategy !== 'skip') {
+        this.markForRollup(reading.timestamp);
+      }
+
+      if (conflictId === null) {
+        insert.run(reading.id, reading.device_id, reading.room, reading.timestamp, JSON.stringify(extra));
+        this.insertMeasurements(reading.id, measurements);
+        return 'imported';
+      }
+
+      if (strategy === 'skip') return 'skipped';
+
+      if (strategy === 'overwrite') {
+        this.db
+          .prepare('UPDATE readings SET room = ?, sensor_data = ? WHERE id = ?')
+          .run(reading.room, JSON.stringify(extra), conflictId);
+        this.db.prepare('DELETE FROM measurements WHERE reading_id = ?').run(conflictId);
+        this.insertMeasurements(conflictId, measurements);
+        return 'overwritten';
+      }
+
+      const id = crypto.randomUUID().replace(/-/g, '');
+      let timestamp = reading.timestamp;
+      while (timestampTaken.get(timestamp, reading.device_id)) {
+        timestamp++;
+      }
+      insert.run(id, reading.device_id, reading.room, timestamp, JSON.stringify(extra));
+      this.insertMeasurements(id, measurements);
+      return 'kept_both';
+    })();
+  }
+
+  /**
+   * Import readings in one transaction, see importReading
+   */
+  importReadings(readings: ReadingInsert[], strategy: ConflictStrategy): ImportOutcome[] {
+    return this.db.transaction(() => readings.map((reading) => this.importReading(reading, strategy)))();
+  }
+
+  /**
+   * Insert a reading unless one already exists for the same timestamp and device
+   * @returns true if the reading was inserted, false if it was a duplicate
+   */
+  insertReadingIfAbsent(reading: ReadingInsert): boolean {
+    const stmt = this.db.prepare(`
+      INSERT INTO readings (id, device_id, room, timestamp, sensor_data)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(timestamp, device_id) DO NOTHING
+      RETURNING id
+    `);
+
+    const { measurements, extra } = splitReadingData(reading.data);
+
+    return this.db.transaction(() => {
+      const row = stmt.get(reading.id, reading.device_id, reading.room, reading.timestamp, JSON.stringify(extra)) as {
+        id: string;
+      } | null;
+      if (!row) return false;
+
+      this.insertMeasurements(row.id, measurements);
+      this.markForRollup(reading.timestamp);
+      return true;
+    })();
+  }
+
+  /**
+   * Have the next compaction roll up the hour of a reading again, needed when
+   * a reading older than the rollup watermark is written or deleted
+   */
+  private markForRollup(timestamp: number): void {
+    const hour = Math.floor(timestamp / HOUR_MS) * HOUR_MS;
+    this.db.prepare('UPDATE compaction_state SET rolled_up_until = ? WHERE rolled_up_until > ?').run(hour, hour);
+  }
+
+  private insertMeasurements(
+    readingId: string,
+    measurements: { metric: string; value: number; unit: string | null }[],
+  ) {
+    const stmt = this.db.prepare('INSERT INTO measurements (reading_id, metric, value, unit) VALUES (?, ?, ?, ?)');
+    for (const measurement of measurements) {
+      stmt.run(readingId, measurement.metric, measurement.value, measurement.unit);
+    }
   }
 
   getReadings(query: ReadingQuery = {}): StoredReading[] {
-    const { limit = 50, offset = 0, device_id, room, since } = query;
+    const { limit = 50, offset = 0, device_id, room, since, metric, above, below } = query;
 
-    let sql = 'SELECT * FROM readings WHERE 1=1';
+    let sql = `${READING_SELECT} WHERE 1=1`;
     const params: (string | number)[] = [];
 
+    if (device_id) {
+      sql += ' AND r.device_id = ?';
+      params.push(device_id);
+    }
+
+    if (room) {
+      sql += ' AND r.room = ?';
+      params.push(room);
+    }
+
+    if (since) {
+      sql += ' AND r.timestamp >= ?';
+      params.push(since);
+    }
+
+    if (metric && (above !== undefined || below !== undefined)) {
+      sql += ' AND EXISTS (SELECT 1 FROM measurements m WHERE m.reading_id = r.id AND m.metric = ?';
+      params.push(metric);
+
+      if (above !== undefined) {
+        sql += ' AND m.value > ?';
+        params.push(above);
+      }
+
+      if (below !== undefined) {
+        sql += ' AND m.value < ?';
+        params.push(below);
+      }
+
+      sql += ')';
+    }
+
+    sql += ' ORDER BY r.timestamp DESC LIMIT ? OFFSET ?';
+    params.push(limit, offset);
+
+    const stmt = this.db.prepare(sql);
+    return (stmt.all(...params) as ReadingRow[]).map(toStoredReading);
+  }
+
+  /**
+   * Aggregate stored readings per time bucket and metric.
+   * p95 uses the nearest-rank method; empty and non-numeric values are skipped.
+   */
+  getAggregates(query: AggregateQuery): AggregateRow[] {
+    const { bucket, metrics = AGGREGATE_METRICS, device_id, room, since, until } = query;
+    const bucketMs = AGGREGATE_BUCKETS[bucket];
+
+    let where = `m.metric IN (${metrics.map(() => '?').join(', ')})`;
+    const params: (string | number)[] = [...metrics];
+
+    if (device_id) {
+      where += ' AND r.device_id = ?';
+      params.push(device_id);
+    }
+
+    if (room) {
+      where += ' AND r.room = ?';
+      params.push(room);
+    }
+
+    if (since) {
+      where += ' AND r.timestamp >= ?';
+      params.push(since);
+    }
+
+    if (until) {
+      where += ' AND r.timestamp < ?';
+      params.push(until);
+    }
+
+    const stmt = this.db.prepare(`
+      WITH samples AS (
+        SELECT
+          (r.timestamp / ${bucketMs}) * ${bucketMs} AS bucket,
+          m.metric,
+          m.value
+        FROM readings r
+        JOIN measurements m ON m.reading_id = r.id
+        WHERE ${where}
+      ),
+      ranked AS (
+        SELECT
+          bucket,
+          metric,
+          value,
+          ROW_NUMBER() OVER (PARTITION BY bucket, metric ORDER BY value) AS rank,
+          COUNT(*) OVER (PARTITION BY bucket, metric) AS total
+        FROM samples
+      )
+      SELECT
+        bucket,
+        metric,
+        MIN(value) AS min,
+        MAX(value) AS max,
+        ROUND(AVG(value), 2) AS avg,
+        MIN(CASE WHEN rank >= 0.95 * total THEN value END) AS p95,
+        COUNT(*) AS count
+      FROM ranked
+      GROUP BY bucket, metric
+      ORDER BY bucket ASC, metric ASC
+    `);
+
+    const rows = stmt.all(...params) as ({ bucket: number; metric: string } & MetricAggregate)[];
+
+    const buckets = new Map<number, AggregateRow>();
+    for (const { bucket: start, metric, ...aggregate } of rows) {
+      let row = buckets.get(start);
+      if (!row) {
+        row = { start, metrics: {} };
+        buckets.set(start, row);
+      }
+      row.metrics[metric] = aggregate;
+    }
+
+    return [...buckets.values()];
+  }
+
+  /**
+   * Roll up completed hours and days, then prune rows older than the retention policy.
+   *
+   * Only hours from the rollup watermark on are rolled up, so a run costs the same
+   * however much raw data is retained. Raw rows are pruned at hour boundaries and
+   * hourly rows at day boundaries. A bucket whose source rows were never pruned is
+   * complete and rebuilt from them; in a bucket pruned before, the source rows are
+   * ones written since (e.g. imported), so they are merged into the stored rollup
+   * and pruned right away.
+   */
+  compact(policy: RetentionPolicy, now = Date.now()): CompactionResult {
+    const currentHour = Math.floor(now / HOUR_MS) * HOUR_MS;
+    const currentDay = Math.floor(now / DAY_MS) * DAY_MS;
+    const rawBefore = Math.floor((now - policy.raw_days * DAY_MS) / HOUR_MS) * HOUR_MS;
+    const hourlyBefore = Math.floor((now - policy.hourly_days * DAY_MS) / DAY_MS) * DAY_MS;
+    const dailyBefore = Math.floor((now - policy.daily_days * DAY_MS) / DAY_MS) * DAY_MS;
+
+    const rollupHourly = (merge: boolean) =>
+      this.db.prepare(`
+      WITH samples AS (
+        SELECT
+          (r.timestamp / ${HOUR_MS}) * ${HOUR_MS} AS bucket,
+          COALESCE(r.device_id, '') AS device_id,
+          COALESCE(r.room, '') AS room,
+          m.metric,
+          m.value
+        FROM readings r
+        JOIN measurements m ON m.reading_id = r.id
+        WHERE r.timestamp >= ? AND r.timestamp < ?
+      ),
+      ranked AS (
+        SELECT
+          *,
+          ROW_NUMBER() OVER (PARTITION BY bucket, device_id, room, metric ORDER BY value) AS rank,
+          COUNT(*) OVER (PARTITION BY bucket, device_id, room, metric) AS total
+        FROM samples
+      )
+      INSERT INTO readings_hourly (bucket, device_id, room, metric, min, max, avg, p95, count)
+      SELECT
+        bucket,
+        device_id,
+        room,
+        metric,
+        MIN(value),
+        MAX(value),
+        AVG(value),
+        MIN(CASE WHEN rank >= 0.95 * total THEN value END),
+        COUNT(*)
+      FROM ranked
+      WHERE true
+      GROUP BY bucket, device_id, room, metric
+      ${rollupConflict(merge)}
+    `);
+
+    // Daily p95 is the highest hourly p95 of the day, exact percentiles need the raw rows
+    const rollupDaily = (merge: boolean) =>
+      this.db.prepare(`
+      INSERT INTO readings_daily (bucket, device_id, room, metric, min, max, avg, p95, count)
+      SELECT
+        (bucket / ${DAY_MS}) * ${DAY_MS} AS day,
+        device_id,
+        room,
+        metric,
+        MIN(min),
+        MAX(max),
+        SUM(avg * count) / SUM(count),
+        MAX(p95),
+        SUM(count)
+      FROM readings_hourly
+      WHERE bucket >= ? AND bucket < ?
+      GROUP BY day, device_id, room, metric
+      ${rollupConflict(merge)}
+    `);
+
+    const startedAt = Date.now();
+    const result = this.db.transaction(() => {
+      const state = this.db
+        .prepare('SELECT rolled_up_until, raw_pruned_before, hourly_pruned_before FROM compaction_state WHERE id = 1')
+        .get() as { rolled_up_until: number; raw_pruned_before: number; hourly_pruned_before: number };
+      const watermark = state.rolled_up_until;
+      // Days whose hourly rows may have changed since the last run
+      const watermarkDay = Math.floor(watermark / DAY_MS) * DAY_MS;
+      // Buckets pruned once stay pruned, even if the retention was raised since
+      const rawPruneBefore = Math.max(rawBefore, state.raw_pruned_before);
+      const hourlyPruneBefore = Math.max(hourlyBefore, state.hourly_pruned_before);
+
+      const hourlyRolledUp =
+        rollupHourly(false).run(Math.max(watermark, state.raw_pruned_before), currentHour).changes +
+        rollupHourly(true).run(watermark, Math.min(state.raw_pruned_before, currentHour)).changes;
+      const dailyRolledUp =
+        rollupDaily(false).run(Math.max(watermarkDay, state.hourly_pruned_before), currentDay).changes +
+        rollupDaily(true).run(watermarkDay, Math.min(state.hourly_pruned_before, currentDay)).changes;
+
+      // Counted first, the changes of the delete include the measurements removed by the cascade
+      const { count: rawPruned } = this.db
+        .prepare('SELECT COUNT(*) AS count FROM readings WHERE timestamp < ?')
+        .get(rawPruneBefore) as { count: number };
+      this.db.prepare('DELETE FROM readings WHERE timestamp < ?').run(rawPruneBefore);
+
+      const counts = {
+        hourly_rolled_up: hourlyRolledUp,
+        daily_rolled_up: dailyRolledUp,
+        raw_pruned: rawPruned,
+        hourly_pruned: this.db.prepare('DELETE FROM readings_hourly WHERE bucket < ?').run(hourlyPruneBefore).changes,
+        daily_pruned: this.db.prepare('DELETE FROM readings_daily WHERE bucket < ?').run(dailyBefore).changes,
+      };
+      this.db
+        .prepare(`
+          UPDATE compaction_state
+          SET rolled_up_until = MAX(rolled_up_until, ?), raw_pruned_before = ?, hourly_pruned_before = ?
+        `)
+        .run(currentHour, rawPruneBefore, hourlyPruneBefore);
+      return counts;
+    })();
+
+    const compaction: CompactionResult = { ran_at: now, duration_ms: Date.now() - startedAt, ...result };
+
+    this.db
+      .prepare(`
+        INSERT INTO compaction_log
+          (ran_at, duration_ms, hourly_rolled_up, daily_rolled_up, raw_pruned, hourly_pruned, daily_pruned)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        compaction.ran_at,
+        compaction.duration_ms,
+        compaction.hourly_rolled_up,
+        compaction.daily_rolled_up,
+        compaction.raw_pruned,
+        compaction.hourly_pruned,
+        compaction.daily_pruned,
+      );
+
+    // Keep the log short, only the latest runs are of interest
+    this.db.exec(
+      'DELETE FROM compaction_log WHERE id NOT IN (SELECT id FROM compaction_log ORDER BY id DESC LIMIT 100)',
+    );
+
+    return compaction;
+  }
+
+  /**
+   * Read hourly or daily rollups
+   */
+  getRollups(query: RollupQuery): RollupRow[] {
+    const { resolution, metrics = AGGREGATE_METRICS, device_id, room, since, until } = query;
+
+    let sql = `SELECT * FROM ${ROLLUP_TABLES[resolution]} WHERE metric IN (${metrics.map(() => '?').join(', ')})`;
+    const params: (string | number)[] = [...metrics];
+
     if (device_id) {
       sql += ' AND device_id = ?';
       params.push(device_id);
@@ -95,29 +958,109 @@ export class AirQualityDatabase {
     }
 
     if (since) {
-      sql += ' AND timestamp >= ?';
+      sql += ' AND bucket >= ?';
       params.push(since);
     }
 
-    sql += ' ORDER BY timestamp DESC LIMIT ? OFFSET ?';
-    params.push(limit, offset);
+    if (until) {
+      sql += ' AND bucket < ?';
+      params.push(until);
+    }
+
+    sql += ' ORDER BY bucket ASC, device_id ASC, room ASC, metric ASC';
 
     const stmt = this.db.prepare(sql);
-    return stmt.all(...params) as StoredReading[];
+    return (stmt.all(...params) as RollupRow[]).map((row) => ({
+      ...row,
+      device_id: row.device_id || null,
+      room: row.room || null,
+    }));
+  }
+
+  /**
+   * Move a device's stored history to one room label. Readings are
+   * relabelled and rollups kept under earlier labels are merged into the rows of
+   * the new one, so room filters and aggregates see one series per device.
+   * @returns Readings relabelled
+   */
+  relabelDeviceHistory(deviceId: string, room: string): number {
+    return this.db.transaction(() => {
+      const relabelled = this.db
+        .prepare('UPDATE readings SET room = ? WHERE device_id = ? AND room IS NOT ?')
+        .run(room, deviceId, room).changes;
+
+      for (const table of ['readings_hourly', 'readings_daily']) {
+        // p95 of merged rows is the higher one, as in the daily rollup
+        this.db
+          .prepare(`
+            INSERT INTO ${table} (bucket, device_id, room, metric, min, max, avg, p95, count)
+            SELECT bucket, device_id, ?, metric, MIN(min), MAX(max), SUM(avg * count) / SUM(count), MAX(p95), SUM(count)
+            FROM ${table}
+            WHERE device_id = ? AND room != ?
+            GROUP BY bucket, device_id, metric
+            ON CONFLICT(bucket, device_id, room, metric) DO UPDATE SET
+              min = MIN(min, excluded.min),
+              max = MAX(max, excluded.max),
+              avg = (avg * count + excluded.avg * excluded.count) / (count + excluded.count),
+              p95 = MAX(p95, excluded.p95),
+              count = count + excluded.count
+          `)
+          .run(room, deviceId, room);
+        this.db.prepare(`DELETE FROM ${table} WHERE device_id = ? AND room != ?`).run(deviceId, room);
+      }
+
+      return relabelled;
+    })();
   }
 
   deleteReading(id: string): void {
-    const stmt = this.db.prepare('DELETE FROM readings WHERE id = ?');
-    stmt.run(id);
+    const stmt = this.db.prepare('DELETE FROM readings WHERE id = ? RETURNING timestamp');
+    const row = stmt.get(id) as { timestamp: number } | null;
+    if (row) this.markForRollup(row.timestamp);
   }
 
   deleteAllReadings(): void {
     this.db.exec('DELETE FROM readings');
   }
 
-  getAllReadingsForExport(): StoredReading[] {
-    const stmt = this.db.prepare('SELECT * FROM readings ORDER BY timestamp ASC');
-    return stmt.all() as StoredReading[];
+  /**
+   * Readings matching the query, oldest first, read one row at a time so large
+   * exports are not held in memory
+   */
+  *iterateReadingsForExport(query: ExportQuery = {}): Generator<StoredReading> {
+    const { device_id, room, since, until } = query;
+
+    let sql = `${READING_SELECT} WHERE 1=1`;
+    const params: (string | number)[] = [];
+
+    if (device_id) {
+      sql += ' AND r.device_id = ?';
+      params.push(device_id);
+    }
+
+    if (room) {
+      sql += ' AND r.room = ?';
+      params.push(room);
+    }
+
+    if (since) {
+      sql += ' AND r.timestamp >= ?';
+      params.push(since);
+    }
+
+    if (until) {
+      sql += ' AND r.timestamp < ?';
+      params.push(until);
+    }
+
+    const stmt = this.db.prepare(`${sql} ORDER BY r.timestamp ASC`);
+    try {
+      for (const row of stmt.iterate(...params) as IterableIterator<ReadingRow>) {
+        yield toStoredReading(row);
+      }
+    } finally {
+      stmt.finalize();
+    }
   }
 
   getStats(): {
@@ -126,6 +1069,9 @@ export class AirQualityDatabase {
     newest_timestamp: number | null;
     devices: string[];
     rooms: string[];
+    rollups: Record<RollupResolution, number>;
+    last_compaction: CompactionResult | null;
+    schema_version: number;
   } {
     const totalStmt = this.db.prepare('SELECT COUNT(*) as count FROM readings');
     const total = (totalStmt.get() as { count: number }).count;
@@ -141,13 +1087,478 @@ export class AirQualityDatabase {
     const roomsStmt = this.db.prepare('SELECT DISTINCT room FROM readings ORDER BY room');
     const rooms = (roomsStmt.all() as { room: string }[]).map((row) => row.room);
 
+    const hourlyStmt = this.db.prepare('SELECT COUNT(*) as count FROM readings_hourly');
+    const dailyStmt = this.db.prepare('SELECT COUNT(*) as count FROM readings_daily');
+
+    const compactionStmt = this.db.prepare(`
+      SELECT ran_at, duration_ms, hourly_rolled_up, daily_rolled_up, raw_pruned, hourly_pruned, daily_pruned
+      FROM compaction_log ORDER BY id DESC LIMIT 1
+    `);
+    const lastCompaction = compactionStmt.get() as CompactionResult | null;
+
     return {
       total_readings: total,
       oldest_timestamp: timestamps.oldest,
       newest_timestamp: timestamps.newest,
       devices,
       rooms,
+      rollups: {
+        hourly: (hourlyStmt.get() as { count: number }).count,
+        daily: (dailyStmt.get() as { count: number }).count,
+      },
+      last_compaction: lastCompaction ?? null,
+      schema_version: this.getSchemaVersion(),
+    };
+  }
+
+  /**
+   * Row count of every table as of the last refreshTableRowCounts(), for monitoring
+   */
+  getTableRowCounts(): Record<string, number> {
+    return this.tableRowCounts ?? this.refreshTableRowCounts();
+  }
+
+  /**
+   * Count the rows of every table again, after the recorder or compaction changed them
+   */
+  refreshTableRowCounts(): Record<string, number> {
+    const tables = this.db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name")
+      .all() as { name: string }[];
+
+    const counts: Record<string, number> = {};
+    for (const { name } of tables) {
+      counts[name] = (this.db.prepare(`SELECT COUNT(*) AS count FROM "${name}"`).get() as { count: number }).count;
+    }
+    this.tableRowCounts = counts;
+    return counts;
+  }
+
+  getThresholdProfiles(): ThresholdProfile[] {
+    const stmt = this.db.prepare('SELECT * FROM threshold_profiles ORDER BY name COLLATE NOCASE');
+    return (stmt.all() as ThresholdProfileRow[]).map(toThresholdProfile);
+  }
+
+  getThresholdProfile(id: string): ThresholdProfile | null {
+    const row = this.db.prepare('SELECT * FROM threshold_profiles WHERE id = ?').get(id) as ThresholdProfileRow | null;
+    return row ? toThresholdProfile(row) : null;
+  }
+
+  createThresholdProfile(
+    profile: Pick<ThresholdProfile, 'id' | 'name' | 'thresholds'>,
+    now = Date.now(),
+  ): ThresholdProfile {
+    this.db
+      .prepare('INSERT INTO threshold_profiles (id, name, thresholds, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+      .run(profile.id, profile.name, JSON.stringify(profile.thresholds), now, now);
+    return { ...profile, created_at: now, updated_at: now };
+  }
+
+  /**
+   * Update the name and/or tiers of a profile
+   * @returns The updated profile, or null if it does not exist
+   */
+  updateThresholdProfile(
+    id: string,
+    changes: Partial<Pick<ThresholdProfile, 'name' | 'thresholds'>>,
+    now = Date.now(),
+  ): ThresholdProfile | null {
+    const existing = this.getThresholdProfile(id);
+    if (!existing) return null;
+
+    const updated = { ...existing, ...changes, updated_at: now };
+    this.db
+      .prepare('UPDATE threshold_profiles SET name = ?, thresholds = ?, updated_at = ? WHERE id = ?')
+      .run(updated.name, JSON.stringify(updated.thresholds), now, id);
+    return updated;
+  }
+
+  /**
+   * Delete a profile. Devices it was assigned to fall back to the defaults.
+   * @returns false if the profile does not exist
+   */
+  deleteThresholdProfile(id: string): boolean {
+    return this.db.prepare('DELETE FROM threshold_profiles WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * Profile assigned to each device, by device ID
+   */
+  getThresholdAssignments(): Record<string, string> {
+    const rows = this.db.prepare('SELECT device_id, profile_id FROM device_threshold_profiles').all() as {
+      device_id: string;
+      profile_id: string;
+    }[];
+    return Object.fromEntries(rows.map((row) => [row.device_id, row.profile_id]));
+  }
+
+  /**
+   * Assign a profile to a device, or remove its assignment with null
+   */
+  assignThresholdProfile(deviceId: string, profileId: string | null): void {
+    if (profileId === null) {
+      this.db.prepare('DELETE FROM device_threshold_profiles WHERE device_id = ?').run(deviceId);
+      return;
+    }
+
+    this.db
+      .prepare(`
+        INSERT INTO device_threshold_profiles (device_id, profile_id) VALUES (?, ?)
+        ON CONFLICT(device_id) DO UPDATE SET profile_id = excluded.profile_id
+      `)
+      .run(deviceId, profileId);
+  }
+
+  getAlertRules(): AlertRule[] {
+    const stmt = this.db.prepare('SELECT * FROM alert_rules ORDER BY created_at ASC');
+    return (stmt.all() as AlertRuleRow[]).map(toAlertRule);
+  }
+
+  getAlertRule(id: string): AlertRule | null {
+    const row = this.db.prepare('SELECT * FROM alert_rules WHERE id = ?').get(id) as AlertRuleRow | null;
+    return row ? toAlertRule(row) : null;
+  }
+
+  /**
+   * Insert or replace a rule. Replacing a rule resets its alert states.
+   */
+  saveAlertRule(rule: AlertRuleInput, now = Date.now()): AlertRule {
+    const existing = this.getAlertRule(rule.id);
+    const createdAt = existing?.created_at ?? now;
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(`
+          INSERT INTO alert_rules (
+            id, name, metric, operator, threshold, clear_threshold, duration_seconds,
+            device_id, enabled, snoozed_until, notify_targets, message_template,
+            quiet_hours_start, quiet_hours_end, notify_interval_minutes, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET
+            name = excluded.name,
+            metric = excluded.metric,
+            operator = excluded.operator,
+            threshold = excluded.threshold,
+            clear_threshold = excluded.clear_threshold,
+            duration_seconds = excluded.duration_seconds,
+            device_id = excluded.device_id,
+            enabled = excluded.enabled,
+            snoozed_until = excluded.snoozed_until,
+            notify_targets = excluded.notify_targets,
+            message_template = excluded.message_template,
+            quiet_hours_start = excluded.quiet_hours_start,
+            quiet_hours_end = excluded.quiet_hours_end,
+            notify_interval_minutes = excluded.notify_interval_minutes,
+            updated_at = excluded.updated_at
+        `)
+        .run(
+          rule.id,
+          rule.name,
+          rule.metric,
+          rule.operator,
+          rule.threshold,
+          rule.clear_threshold,
+          rule.duration_seconds,
+          rule.device_id,
+          rule.enabled ? 1 : 0,
+          rule.snoozed_until,
+          JSON.stringify(rule.notify_targets),
+          rule.message_template,
+          rule.quiet_hours_start,
+          rule.quiet_hours_end,
+          rule.notify_interval_minutes,
+          createdAt,
+          now,
+        );
+      this.db.prepare('DELETE FROM alert_states WHERE rule_id = ?').run(rule.id);
+    })();
+
+    return { ...rule, created_at: createdAt, updated_at: now };
+  }
+
+  /**
+   * Delete a rule with its states and history
+   * @returns false if the rule does not exist
+   */
+  deleteAlertRule(id: string): boolean {
+    return this.db.prepare('DELETE FROM alert_rules WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * Mute notifications of a rule until the given time, null to unmute
+   */
+  snoozeAlertRule(id: string, until: number | null): boolean {
+    return this.db.prepare('UPDATE alert_rules SET snoozed_until = ? WHERE id = ?').run(until, id).changes > 0;
+  }
+
+  getAlertStates(): AlertState[] {
+    return this.db.prepare('SELECT * FROM alert_states ORDER BY since DESC').all() as AlertState[];
+  }
+
+  saveAlertState(state: AlertState): void {
+    this.db
+      .prepare(`
+        INSERT INTO alert_states (rule_id, device_id, state, since, value, acknowledged_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(rule_id, device_id) DO UPDATE SET
+          state = excluded.state,
+          since = excluded.since,
+          value = excluded.value,
+          acknowledged_at = excluded.acknowledged_at
+      `)
+      .run(state.rule_id, state.device_id, state.state, state.since, state.value, state.acknowledged_at);
+  }
+
+  deleteAlertState(ruleId: string, deviceId: string): void {
+    this.db.prepare('DELETE FROM alert_states WHERE rule_id = ? AND device_id = ?').run(ruleId, deviceId);
+  }
+
+  /**
+   * Append to the alert history, keeping the most recent events
+   */
+  insertAlertEvent(event: Omit<AlertEvent, 'id'>): AlertEvent {
+    const { id } = this.db
+      .prepare('INSERT INTO alert_events (rule_id, device_id, event, value, at) VALUES (?, ?, ?, ?, ?) RETURNING id')
+      .get(event.rule_id, event.device_id, event.event, event.value, event.at) as { id: number };
+    this.db.prepare('DELETE FROM alert_events WHERE id <= ?').run(id - ALERT_HISTORY_LIMIT);
+    return { id, ...event };
+  }
+
+  getAlertHistory(query: AlertHistoryQuery = {}): AlertEvent[] {
+    const { limit = 100, rule_id, device_id, since } = query;
+
+    let sql = 'SELECT * FROM alert_events WHERE 1=1';
+    const params: (string | number)[] = [];
+
+    if (rule_id) {
+      sql += ' AND rule_id = ?';
+      params.push(rule_id);
+    }
+
+    if (device_id) {
+      sql += ' AND device_id = ?';
+      params.push(device_id);
+    }
+
+    if (since) {
+      sql += ' AND at >= ?';
+      params.push(since);
+    }
+
+    sql += ' ORDER BY id DESC LIMIT ?';
+    params.push(limit);
+
+    return this.db.prepare(sql).all(...params) as AlertEvent[];
+  }
+
+  /**
+   * Append to the notification log, keeping the most recent entries
+   */
+  insertNotification(entry: Omit<NotificationLogEntry, 'id'>): NotificationLogEntry {
+    const { id } = this.db
+      .prepare(`
+        INSERT INTO notification_log (rule_id, device_id, event, target, status, reason, message, at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING id
+      `)
+      .get(
+        entry.rule_id,
+        entry.device_id,
+        entry.event,
+        entry.target,
+        entry.status,
+        entry.reason,
+        entry.message,
+        entry.at,
+      ) as { id: number };
+    this.db.prepare('DELETE FROM notification_log WHERE id <= ?').run(id - NOTIFICATION_LOG_LIMIT);
+    return { id, ...entry };
+  }
+
+  getNotifications(query: { limit?: number; rule_id?: string; device_id?: string } = {}): NotificationLogEntry[] {
+    const { limit = 100, rule_id, device_id } = query;
+
+    let sql = 'SELECT * FROM notification_log WHERE 1=1';
+    const params: (string | number)[] = [];
+
+    if (rule_id) {
+      sql += ' AND rule_id = ?';
+      params.push(rule_id);
+    }
+
+    if (device_id) {
+      sql += ' AND device_id = ?';
+      params.push(device_id);
+    }
+
+    sql += ' ORDER BY id DESC LIMIT ?';
+    params.push(limit);
+
+    return this.db.prepare(sql).all(...params) as NotificationLogEntry[];
+  }
+
+  /**
+   * Most recent notification of a rule on a device that was sent to any target
+   */
+  getLastSentNotification(ruleId: string, deviceId: string): NotificationLogEntry | null {
+    return this.db
+      .prepare(`
+        SELECT * FROM notification_log
+        WHERE rule_id = ? AND device_id = ? AND status = 'sent'
+        ORDER BY id DESC LIMIT 1
+      `)
+      .get(ruleId, deviceId) as NotificationLogEntry | null;
+  }
+
+  /**
+   * Latest attempt to deliver a firing alert to a target, whatever its status
+   */
+  getLastFiringNotification(ruleId: string, deviceId: string, target: string): NotificationLogEntry | null {
+    return this.db
+      .prepare(`
+        SELECT * FROM notification_log
+        WHERE rule_id = ? AND device_id = ? AND target = ? AND event = 'firing'
+        ORDER BY id DESC LIMIT 1
+      `)
+      .get(ruleId, deviceId, target) as NotificationLogEntry | null;
+  }
+
+  getWebhooks(): Webhook[] {
+    const stmt = this.db.prepare('SELECT * FROM webhooks ORDER BY created_at ASC');
+    return (stmt.all() as WebhookRow[]).map(toWebhook);
+  }
+
+  getWebhook(id: string): Webhook | null {
+    const row = this.db.prepare('SELECT * FROM webhooks WHERE id = ?').get(id) as WebhookRow | null;
+    return row ? toWebhook(row) : null;
+  }
+
+  /**
+   * Insert or replace a webhook
+   */
+  saveWebhook(webhook: WebhookInput, now = Date.now()): Webhook {
+    const createdAt = this.getWebhook(webhook.id)?.created_at ?? now;
+
+    this.db
+      .prepare(`
+        INSERT INTO webhooks (id, name, url, secret, events, enabled, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          name = excluded.name,
+          url = excluded.url,
+          secret = excluded.secret,
+          events = excluded.events,
+          enabled = excluded.enabled,
+          updated_at = excluded.updated_at
+      `)
+      .run(
+        webhook.id,
+        webhook.name,
+        webhook.url,
+        webhook.secret,
+        JSON.stringify(webhook.events),
+        webhook.enabled ? 1 : 0,
+        createdAt,
+        now,
+      );
+
+    return { ...webhook, created_at: createdAt, updated_at: now };
+  }
+
+  /**
+   * Delete a webhook with its dead letters
+   * @returns false if the webhook does not exist
+   */
+  deleteWebhook(id: string): boolean {
+    return this.db.prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * Store a delivery that failed after every retry, keeping the most recent ones
+   */
+  insertDeadLetter(letter: Omit<WebhookDeadLetter, 'id'>): WebhookDeadLetter {
+    const { id } = this.db
+      .prepare(`
+        INSERT INTO webhook_dead_letters (webhook_id, event, payload, attempts, last_error, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        RETURNING id
+      `)
+      .get(letter.webhook_id, letter.event, letter.payload, letter.attempts, letter.last_error, letter.created_at) as {
+      id: number;
     };
+    this.db.prepare('DELETE FROM webhook_dead_letters WHERE id <= ?').run(id - DEAD_LETTER_LIMIT);
+    return { id, ...letter };
+  }
+
+  getDeadLetters(query: { limit?: number; webhook_id?: string } = {}): WebhookDeadLetter[] {
+    const { limit = 100, webhook_id } = query;
+
+    let sql = 'SELECT * FROM webhook_dead_letters';
+    const params: (string | number)[] = [];
+
+    if (webhook_id) {
+      sql += ' WHERE webhook_id = ?';
+      params.push(webhook_id);
+    }
+
+    sql += ' ORDER BY id DESC LIMIT ?';
+    params.push(limit);
+
+    return this.db.prepare(sql).all(...params) as WebhookDeadLetter[];
+  }
+
+  getDeadLetter(id: number): WebhookDeadLetter | null {
+    return this.db.prepare('SELECT * FROM webhook_dead_letters WHERE id = ?').get(id) as WebhookDeadLetter | null;
+  }
+
+  deleteDeadLetter(id: number): boolean {
+    return this.db.prepare('DELETE FROM webhook_dead_letters WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * Most recently created backfill job
+   */
+  getLatestBackfillJob(): BackfillJob | null {
+    const row = this.db
+      .prepare('SELECT * FROM backfill_jobs ORDER BY created_at DESC LIMIT 1')
+      .get() as BackfillJobRow | null;
+    return row ? toBackfillJob(row) : null;
+  }
+
+  /**
+   * Insert or update a backfill job
+   */
+  saveBackfillJob(job: BackfillJob): void {
+    this.db
+      .prepare(`
+        INSERT INTO backfill_jobs
+          (id, start, end, source, interval, device_ids, status, cursor, imported, skipped, error, created_at, updated_at, finished_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          status = excluded.status,
+          cursor = excluded.cursor,
+          imported = excluded.imported,
+          skipped = excluded.skipped,
+          error = excluded.error,
+          updated_at = excluded.updated_at,
+          finished_at = excluded.finished_at
+      `)
+      .run(
+        job.id,
+        job.start,
+        job.end,
+        job.source,
+        job.interval,
+        job.device_ids === null ? null : JSON.stringify(job.device_ids),
+        job.status,
+        job.cursor,
+        job.imported,
+        job.skipped,
+        job.error,
+        job.created_at,
+        job.updated_at,
+        job.finished_at,
+      );
   }
 
   close(): void {
@@ -0,0 +1,267 @@
+/**
+ * Derived Entities
+ *
+ * Publishes values the dashboard computes back into Home Assistant as
+ * sensor.air1_dashboard_<device>_<metric> entities, so automations and
+ * Lovelace cards can use them: AQI, dominant pollutant, overall status,
+ * particle source, dew point and mold risk. Entities are updated whenever a
+ * device changes and removed again on shutdown.
+ */
+
+import { DERIVED_ENTITY_PREFIX } from './config';
+import type { AirQualityDatabase } from './db';
+import { removeState, setState } from './ha-client';
+import { classify } from './tiers';
+import type { Device } from './types';
+
+export interface DerivedMetrics {
+  aqi?: number;
+  aqi_category?: string;
+  dominant_pollutant?: string;
+  status?: string;
+  // Worst tier of PM2.5, CO2, VOC and humidity, 0 = best
+  severity?: number;
+  particle_source?: string;
+  dew_point?: number;
+  mold_risk?: string;
+}
+
+export interface DerivedEntity {
+  entity_id: string;
+  state: string;
+  attributes: Record<string, unknown>;
+}
+
+// Overall status labels by worst severity, as on the dashboard's status panel
+export const STATUS_LABELS = ['All Clear', 'Fair', 'Caution', 'Poor', 'Hazardous'];
+
+export const PARTICLE_SOURCES = [
+  'Mixed sources',
+  'Combustion dominant (smoke, fire, candles)',
+  'Dust / mechanical (pets, HVAC, construction)',
+  'Cooking / mixed combustion',
+];
+
+export const MOLD_RISKS = ['Low', 'Moderate', 'High'];
+
+const POLLUTANT_LABELS: Record<string, string> = { pm25: 'PM2.5', pm10: 'PM10' };
+
+/**
+ * Safely extract error message from unknown error type
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+/**
+ * Dew point (Magnus formula)
+ * @param temperature - Air temperature in °C
+ * @param humidity - Relative humidity in %
+ * @returns Dew point in °C
+ */
+export function dewPoint(temperature: number, humidity: number): number {
+  const a = 17.62;
+  const b = 243.12;
+  const gamma = Math.log(Math.max(humidity, 1) / 100) + (a * temperature) / (b + temperature);
+  return (b * gamma) / (a - gamma);
+}
+
+/**
+ * Mold risk from relative humidity. Mold needs sustained humidity above 60-70%
+ * and hardly grows below 5 °C.
+ */
+export function moldRisk(humidity: number, temperature?: number): string {
+  if (temperature !== undefined && temperature < 5) return 'Low';
+  if (humidity >= 70) return 'High';
+  if (humidity >= 60) return 'Moderate';
+  return 'Low';
+}
+
+/**
+ * Likely particle source from the size distribution, as on the dashboard's particle breakdown
+ * @returns The source, or null without PM10
+ */
+export function particleSource(device: Device): string | null {
+  const pm1 = device.pm_1um ?? 0;
+  const pm25 = device.pm25 ?? 0;
+  const pm10 = device.pm10 ?? 0;
+  if (pm10 === 0) return null;
+
+  const ultrafinePct = Math.round((pm1 / pm10) * 100);
+  const finePct = Math.round((Math.max(pm25 - pm1, 0) / pm10) * 100);
+  const coarsePct = Math.round((Math.max(pm10 - pm25, 0) / pm10) * 100);
+
+  if (ultrafinePct > 65) return PARTICLE_SOURCES[1];
+  if (coarsePct > 40) return PARTICLE_SOURCES[2];
+  if (finePct > 35) return PARTICLE_SOURCES[3];
+  return PARTICLE_SOURCES[0];
+}
+
+/**
+ * Values computed from a device's readings. Metrics whose inputs the device does not report are left out.
+ */
+export function deriveMetrics(db: AirQualityDatabase, device: Device): DerivedMetrics {
+  const metrics: DerivedMetrics = {};
+
+  if (device.aqi !== undefined) {
+    metrics.aqi = device.aqi;
+    metrics.aqi_category = classify(db, device.device_id, 'aqi', device.aqi)?.label;
+  }
+  if (device.aqi_pollutant) {
+    metrics.dominant_pollutant = POLLUTANT_LABELS[device.aqi_pollutant];
+  }
+
+  const severities = (['pm25', 'co2', 'voc', 'humidity'] as const)
+    .filter((metric) => device[metric] !== undefined)
+    .map((metric) => classify(db, device.device_id, metric, device[metric] as number)?.severity ?? 0);
+  if (severities.length > 0) {
+    metrics.severity = Math.min(Math.max(...severities), STATUS_LABELS.length - 1);
+    metrics.status = STATUS_LABELS[metrics.severity];
+  }
+
+  const source = particleSource(device);
+  if (source) metrics.particle_source = source;
+
+  if (device.temperature !== undefined && device.humidity !== undefined) {
+    metrics.dew_point = Math.round(dewPoint(device.temperature, device.humidity) * 10) / 10;
+  }
+  if (device.humidity !== undefined) {
+    metrics.mold_risk = moldRisk(device.humidity, device.temperature);
+  }
+
+  return metrics;
+}
+
+/**
+ * Entity ID of a derived metric of a device
+ */
+export function derivedEntityId(deviceId: string, metric: string): string {
+  const slug = deviceId.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+  return `${DERIVED_ENTITY_PREFIX}${slug}_${metric}`;
+}
+
+export class DerivedEntityPublisher {
+  // Last published state per entity, unchanged entities are not posted again
+  private published = new Map<string, string>();
+
+  /**
+   * @param db - Threshold profiles the status is classified with
+   */
+  constructor(private readonly db: AirQualityDatabase) {}
+
+  /**
+   * Derived metrics of a device as HA entities
+   */
+  derive(device: Device): DerivedEntity[] {
+    const name = device.device_name || device.device_id;
+    const metrics = deriveMetrics(this.db, device);
+    const entities: DerivedEntity[] = [];
+    const add = (metric: string, state: string | number, attributes: Record<string, unknown>) => {
+      entities.push({
+        entity_id: derivedEntityId(device.device_id, metric),
+        state: String(state),
+        attributes: { ...attributes, device_id: device.device_id },
+      });
+    };
+
+    if (metrics.aqi !== undefined) {
+      add('aqi', metrics.aqi, {
+        friendly_name: `${name} AQI`,
+        device_class: 'aqi',
+        state_class: 'measurement',
+        category: metrics.aqi_category,
+        dominant_pollutant: device.aqi_pollutant,
+      });
+    }
+
+    if (metrics.dominant_pollutant) {
+      add('dominant_pollutant', metrics.dominant_pollutant, {
+        friendly_name: `${name} Dominant Pollutant`,
+        device_class: 'enum',
+        options: Object.values(POLLUTANT_LABELS),
+        icon: 'mdi:molecule',
+      });
+    }
+
+    if (metrics.status) {
+      add('status', metrics.status, {
+        friendly_name: `${name} Air Quality Status`,
+        device_class: 'enum',
+        options: STATUS_LABELS,
+        severity: metrics.severity,
+        icon: 'mdi:air-filter',
+      });
+    }
+
+    if (metrics.particle_source) {
+      add('particle_source', metrics.particle_source, {
+        friendly_name: `${name} Particle Source`,
+        device_class: 'enum',
+        options: PARTICLE_SOURCES,
+        icon: 'mdi:grain',
+      });
+    }
+
+    if (metrics.dew_point !== undefined) {
+      add('dew_point', metrics.dew_point, {
+        friendly_name: `${name} Dew Point`,
+        unit_of_measurement: '°C',
+        device_class: 'temperature',
+        state_class: 'measurement',
+      });
+    }
+
+    if (metrics.mold_risk) {
+      add('mold_risk', metrics.mold_risk, {
+        friendly_name: `${name} Mold Risk`,
+        device_class: 'enum',
+        options: MOLD_RISKS,
+        icon: 'mdi:water-percent-alert',
+      });
+    }
+
+    return entities;
+  }
+
+  /**
+   * Publish the derived entities of devices whose values changed
+   */
+  async publish(devices: Device[]): Promise<void> {
+    let failed = 0;
+    let lastError = '';
+
+    for (const entity of devices.flatMap((device) => this.derive(device))) {
+      const serialized = JSON.stringify([entity.state, entity.attributes]);
+      if (this.published.get(entity.entity_id) === serialized) continue;
+
+      try {
+        await setState(entity.entity_id, entity.state, entity.attributes);
+        this.published.set(entity.entity_id, serialized);
+      } catch (error: unknown) {
+        failed++;
+        lastError = getErrorMessage(error);
+      }
+    }
+
+    if (failed > 0) {
+      console.error(`[Entities] Failed to publish ${failed} entities:`, lastError);
+    }
+  }
+
+  /**
+   * Remove every published entity from Home Assistant
+   */
+  async removeAll(): Promise<void> {
+    const entityIds = [...this.published.keys()];
+    this.published.clear();
+
+    const results = await Promise.allSettled(entityIds.map((entityId) => removeState(entityId)));
+    const removed = results.filter((result) => result.status === 'fulfilled').length;
+    if (entityIds.length > 0) {
+      console.log(`[Entities] Removed ${removed}/${entityIds.length} published entities`);
+    }
+  }
+}
+
+export default DerivedEntityPublisher;
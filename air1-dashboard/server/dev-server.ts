@@ -12,6 +12,12 @@
 
 import compression from 'compression';
 import express, { type Request, type Response, type NextFunction } from 'express';
+import { calculateAqi } from './aqi';
+import { CSV_PRESETS, mapCsvSample, openCsvImport, parseMapping, validateMapping } from './csv-import';
+import { EXPORT_FORMATS, type ExportFormat, serializeReadings, streamToResponse } from './export-formats';
+import { computeRegionalIndices } from './index-standards';
+import { type ImportProgress, type ImportRow, parseNdjson, readLines } from './reading-import';
+import { toSensorData } from './recorder';
 import type { Device, MockReading, MockSensor } from './types';
 
 // Use Bun's built-in directory reference
@@ -48,21 +54,30 @@ app.use((req: Request, _res: Response, next: NextFunction) => {
 const MOCK_SENSORS: Record<string, MockSensor> = {
   '2c77c8': {
     entity_id: '2c77c8',
-    friendly_name: 'Apollo AIR-1 Apollo AIR-1 2c77c8 ESP Temperature',
-    room: null,
-    device_name: 'Apollo AIR-1 2c77c8 ESP Temperature',
+    friendly_name: 'Apollo AIR-1 2c77c8',
+    room: 'Living Room',
+    device_name: 'Apollo AIR-1 2c77c8',
+    manufacturer: 'ApolloAutomation',
+    model: 'AIR-1',
+    sw_version: '25.5.1.1 (ESPHome 2025.5.0)',
   },
   '3d88d9': {
     entity_id: '3d88d9',
-    friendly_name: 'Apollo AIR-1 Apollo AIR-1 3d88d9 ESP Temperature',
-    room: null,
-    device_name: 'Apollo AIR-1 3d88d9 ESP Temperature',
+    friendly_name: 'Apollo AIR-1 3d88d9',
+    room: 'Bedroom',
+    device_name: 'Apollo AIR-1 3d88d9',
+    manufacturer: 'ApolloAutomation',
+    model: 'AIR-1',
+    sw_version: '25.5.1.1 (ESPHome 2025.5.0)',
   },
   '4e99ea': {
     entity_id: '4e99ea',
-    friendly_name: 'Apollo AIR-1 Apollo AIR-1 4e99ea ESP Temperature',
+    friendly_name: 'Apollo AIR-1 4e99ea',
     room: null,
-    device_name: 'Apollo AIR-1 4e99ea ESP Temperature',
+    device_name: 'Apollo AIR-1 4e99ea',
+    manufacturer: 'ApolloAutomation',
+    model: 'AIR-1',
+    sw_version: '25.5.1.1 (ESPHome 2025.5.0)',
   },
 };
 
@@ -107,33 +122,69 @@ app.get('/api/config', (_req: Request, res: Response) => {
       sensor_prefix: 'apollo_air_1',
       update_interval: 10,
       history_days: 30,
+      recorder_enabled: true,
+      recorder_interval: 60,
+      raw_retention_days: 30,
+      hourly_retention_days: 365,
+      daily_retention_days: 1825,
+      ha_purge_keep_days: 10,
+      index_standard: 'us_epa',
+      publish_entities: true,
+      mqtt_enabled: false,
+      mqtt_broker: 'mqtt://core-mosquitto:1883',
+      mqtt_username: '',
+      mqtt_topic_prefix: 'air1_dashboard',
+      mqtt_discovery: false,
     },
   });
 });
 
+// Build a mock Device object for a sensor
+function generateMockDevice(sensor: MockSensor): Device {
+  const reading = generateMockReading(sensor.entity_id);
+  // Instantaneous values stand in for the NowCast the real server computes
+  const pm25Aqi = calculateAqi('pm25', reading.pm25) ?? 0;
+  const pm10Aqi = calculateAqi('pm10', reading.pm10) ?? 0;
+  // As if the current values had been measured all day
+  const regional = computeRegionalIndices({
+    pm25: new Array(24).fill(reading.pm25),
+    pm10: new Array(24).fill(reading.pm10),
+  });
+  return {
+    entity_id: sensor.entity_id,
+    device_id: sensor.entity_id,
+    device_name: sensor.device_name,
+    friendly_name: sensor.friendly_name,
+    room: sensor.room,
+    manufacturer: sensor.manufacturer,
+    model: sensor.model,
+    sw_version: sensor.sw_version,
+    temperature: typeof reading.temperature === 'string' ? Number.parseFloat(reading.temperature) : reading.temperature,
+    rssi: reading.rssi,
+    co2: reading.co2,
+    pressure: typeof reading.pressure === 'string' ? Number.parseFloat(reading.pressure) : reading.pressure,
+    pm_1um: reading.pm_1um,
+    pm25: reading.pm25,
+    pm10: reading.pm10,
+    voc: reading.voc,
+    nox: reading.nox,
+    humidity: reading.humidity,
+    aqi: Math.max(pm25Aqi, pm10Aqi),
+    aqi_pollutant: pm25Aqi >= pm10Aqi ? 'pm25' : 'pm10',
+    indices: {
+      us_epa: {
+        value: Math.max(pm25Aqi, pm10Aqi),
+        pollutant: pm25Aqi >= pm10Aqi ? 'pm25' : 'pm10',
+        concentrations: { pm25: reading.pm25, pm10: reading.pm10 },
+      },
+      ...regional,
+    },
+  };
+}
+
 // GET /api/sensors - Discover available sensors
 app.get('/api/sensors', (_req: Request, res: Response) => {
-  const devices: Device[] = Object.values(MOCK_SENSORS).map((sensor) => {
-    const reading = generateMockReading(sensor.entity_id);
-    return {
-      entity_id: sensor.entity_id,
-      device_id: sensor.entity_id,
-      device_name: sensor.device_name,
-      friendly_name: sensor.friendly_name,
-      room: sensor.room,
-      temperature:
-        typeof reading.temperature === 'string' ? Number.parseFloat(reading.temperature) : reading.temperature,
-      rssi: reading.rssi,
-      co2: reading.co2,
-      pressure: typeof reading.pressure === 'string' ? Number.parseFloat(reading.pressure) : reading.pressure,
-      pm_1um: reading.pm_1um,
-      pm25: reading.pm25,
-      pm10: reading.pm10,
-      voc: reading.voc,
-      nox: reading.nox,
-      humidity: reading.humidity,
-    };
-  });
+  const devices: Device[] = Object.values(MOCK_SENSORS).map(generateMockDevice);
 
   res.json({
     success: true,
@@ -142,6 +193,43 @@ app.get('/api/sensors', (_req: Request, res: Response) => {
   });
 });
 
+// GET /api/stream - Mock Server-Sent Events stream
+// Sends a snapshot on connect, then a partial update for a random device every few seconds
+let mockEventSeq = 0;
+app.get('/api/stream', (req: Request, res: Response) => {
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  const devices = Object.values(MOCK_SENSORS).map(generateMockDevice);
+  res.write('retry: 5000\n\n');
+  res.write(`id: mock:${mockEventSeq}\nevent: snapshot\ndata: ${JSON.stringify(devices)}\n\n`);
+
+  const updates = setInterval(() => {
+    const sensors = Object.values(MOCK_SENSORS);
+    const sensor = sensors[Math.floor(Math.random() * sensors.length)];
+    const device = generateMockDevice(sensor);
+    const delta = {
+      device_id: device.device_id,
+      co2: device.co2,
+      pm25: device.pm25,
+      pm10: device.pm10,
+      temperature: device.temperature,
+      humidity: device.humidity,
+    };
+    mockEventSeq++;
+    res.write(`id: mock:${mockEventSeq}\nevent: device\ndata: ${JSON.stringify(delta)}\n\n`);
+  }, 3000);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+
+  req.on('close', () => {
+    clearInterval(updates);
+    clearInterval(heartbeat);
+  });
+});
+
 // GET /api/history/:entity_id - Get historical data
 app.get('/api/history/:entity_id', (req: Request, res: Response) => {
   const entityId = req.params.entity_id;
@@ -190,6 +278,59 @@ app.get('/api/history/:entity_id', (req: Request, res: Response) => {
       end: endTime,
       count: history.length,
       history,
+      source: days > 10 ? 'statistics' : 'history',
+    },
+  });
+});
+
+// GET /api/history/device/:device_id - Get historical data for every metric of a device
+app.get('/api/history/device/:device_id', (req: Request, res: Response) => {
+  const deviceId = req.params.device_id;
+  const days = Number.parseInt(req.query.days as string) || 30;
+
+  if (!MOCK_SENSORS[deviceId]) {
+    return res.status(404).json({
+      success: false,
+      error: 'Device not found',
+      message: `No sensors found for device "${deviceId}"`,
+    });
+  }
+
+  const now = Date.now();
+  const totalReadings = Math.min(days * 24, 200); // One reading per hour, capped at 200
+  const startTime = new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+  const endTime = new Date(now).toISOString();
+
+  const readings = Array.from({ length: totalReadings }, (_, i) => ({
+    timestamp: new Date(now - (totalReadings - 1 - i) * 3600000).toISOString(),
+    reading: generateMockReading(deviceId),
+  }));
+
+  const metrics: Record<string, unknown> = {};
+  for (const metric of ['co2', 'pm25', 'pm10', 'humidity', 'voc'] as const) {
+    const history = readings.map(({ timestamp, reading }) => ({
+      timestamp,
+      value: reading[metric],
+      state: String(reading[metric]),
+      attributes: {},
+    }));
+    metrics[metric] = {
+      entity_id: `sensor.apollo_air_1_${deviceId}_${metric}`,
+      start: startTime,
+      end: endTime,
+      count: history.length,
+      history,
+      source: days > 10 ? 'statistics' : 'history',
+    };
+  }
+
+  res.json({
+    success: true,
+    data: {
+      device_id: deviceId,
+      start: startTime,
+      end: endTime,
+      metrics,
     },
   });
 });
@@ -312,42 +453,147 @@ app.delete('/api/storage/readings', (_req: Request, res: Response) => {
   });
 });
 
-// GET /api/storage/export - Export all readings
-app.get('/api/storage/export', (_req: Request, res: Response) => {
-  res.setHeader('Content-Type', 'application/json');
-  res.setHeader('Content-Disposition', 'attachment; filename="air_quality_export.json"');
+// GET /api/storage/export - Export readings in the requested format
+app.get('/api/storage/export', (req: Request, res: Response) => {
+  const format = ((req.query.format as string | undefined) || 'json') as ExportFormat;
+  if (!(format in EXPORT_FORMATS)) {
+    res.status(400).json({ error: `Invalid format, expected one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+    return;
+  }
 
-  res.json({
-    export_date: new Date().toISOString(),
-    version: '1.0',
-    readings: mockStorageReadings,
-  });
+  const readings = mockStorageReadings
+    .filter((r) => !req.query.device_id || r.device_id === req.query.device_id)
+    .filter((r) => !req.query.room || r.room === req.query.room)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  res.setHeader('Content-Type', EXPORT_FORMATS[format].content_type);
+  res.setHeader('Content-Disposition', `attachment; filename="air_quality_export.${EXPORT_FORMATS[format].extension}"`);
+
+  streamToResponse(res, serializeReadings(format, readings, req.query.units === 'true'));
 });
 
-// POST /api/storage/import - Import readings
-app.post('/api/storage/import', (req: Request, res: Response) => {
-  const { readings } = req.body;
+let mockImportProgress: ImportProgress = {
+  running: false,
+  dry_run: false,
+  started_at: null,
+  finished_at: null,
+  processed: 0,
+  imported: 0,
+  errors: 0,
+};
 
-  if (!Array.isArray(readings)) {
+// POST /api/storage/import - Import readings streamed as NDJSON or in a JSON export document
+app.post('/api/storage/import', async (req: Request, res: Response) => {
+  const conflict = (req.query.conflict as string | undefined) || 'overwrite';
+  const dryRun = req.query.dry_run === 'true';
+
+  const rows: ImportRow[] = [];
+  if (req.is('text/csv')) {
+    const parsed = req.query.mapping ? parseMapping(req.query.mapping) : null;
+    if (parsed && 'error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const csv = await openCsvImport(readLines(req), {
+      preset: req.query.preset as string | undefined,
+      mapping: parsed?.mapping,
+      time_zone: (req.query.time_zone as string | undefined) || Intl.DateTimeFormat().resolvedOptions().timeZone,
+      defaults: { room: req.query.room as string | undefined, device_id: req.query.device_id as string | undefined },
+    });
+    if ('error' in csv) {
+      return res.status(400).json({ error: csv.error });
+    }
+    for await (const row of csv.rows) rows.push(row);
+  } else if (req.is('application/x-ndjson')) {
+    for await (const row of parseNdjson(readLines(req))) rows.push(row);
+  } else if (Array.isArray(req.body.readings)) {
+    rows.push(...req.body.readings.map((value: unknown) => ({ value })));
+  } else {
     return res.status(400).json({ error: 'Invalid import format: readings must be an array' });
   }
 
-  let imported = 0;
-  for (const reading of readings) {
-    if (reading.id && reading.data && reading.room) {
-      mockStorageReadings.push(reading);
-      imported++;
+  const result = { imported: 0, overwritten: 0, skipped: 0, conflicts: 0, duplicates: 0, errors: 0 };
+  const rejected: { row: number; reason: string }[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, i) => {
+    const reading = ('value' in row ? row.value : null) as (typeof mockStorageReadings)[number] | null;
+    if (!reading?.data || !reading.room || !reading.timestamp) {
+      result.errors++;
+      rejected.push({ row: i + 1, reason: 'error' in row ? row.error : 'Missing room, timestamp or data' });
+      return;
     }
-  }
+
+    const key = `${reading.device_id ?? null}:${reading.timestamp}`;
+    const duplicate = seen.has(key);
+    seen.add(key);
+    if (duplicate) result.duplicates++;
+
+    const existing = mockStorageReadings.findIndex(
+      (r) => r.id === reading.id || (r.timestamp === reading.timestamp && r.device_id === (reading.device_id ?? null)),
+    );
+    // A dry run stores nothing, so earlier readings of the file are not found among the stored ones
+    const conflicting = existing !== -1 || (dryRun && duplicate);
+    if (conflicting) result.conflicts++;
+
+    if (conflicting && conflict === 'skip') {
+      result.skipped++;
+    } else if (conflicting && conflict === 'overwrite') {
+      result.overwritten++;
+      if (!dryRun) mockStorageReadings[existing] = { ...reading, id: mockStorageReadings[existing].id };
+    } else {
+      result.imported++;
+      if (!dryRun) {
+        mockStorageReadings.push({
+          ...reading,
+          id: existing === -1 && reading.id ? reading.id : `mock-reading-${Date.now()}-${i}`,
+          device_id: reading.device_id ?? null,
+          created_at: new Date().toISOString(),
+        });
+      }
+    }
+  });
+
+  mockImportProgress = {
+    running: false,
+    dry_run: dryRun,
+    started_at: Date.now(),
+    finished_at: Date.now(),
+    processed: rows.length,
+    imported: result.imported + result.overwritten,
+    errors: result.errors,
+  };
 
   res.json({
     success: true,
-    imported,
-    errors: 0,
-    total: readings.length,
+    dry_run: dryRun,
+    conflict,
+    total: rows.length,
+    ...result,
+    rejected,
   });
 });
 
+// GET /api/storage/import/csv-presets - Presets for mapping CSV exports of other monitors
+app.get('/api/storage/import/csv-presets', (_req: Request, res: Response) => {
+  res.json({ presets: Object.entries(CSV_PRESETS).map(([id, preset]) => ({ id, name: preset.name })) });
+});
+
+// POST /api/storage/import/csv-mapping - Map the first lines of a CSV file by a preset
+app.post('/api/storage/import/csv-mapping', (req: Request, res: Response) => {
+  const { sample, preset } = req.body ?? {};
+  if (typeof sample !== 'string' || !sample.trim()) {
+    return res.status(400).json({ error: 'Missing required field: sample' });
+  }
+  const result = mapCsvSample(sample, typeof preset === 'string' ? preset : undefined);
+  const time_zone = req.body.time_zone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  res.json({ ...result, time_zone, mapping_error: validateMapping(result.mapping, result.header) });
+});
+
+// GET /api/storage/import/progress - Progress of the last mock import
+app.get('/api/storage/import/progress', (_req: Request, res: Response) => {
+  res.json(mockImportProgress);
+});
+
 // GET /api/storage/stats - Get storage statistics
 app.get('/api/storage/stats', (_req: Request, res: Response) => {
   const timestamps = mockStorageReadings.map((r) => r.timestamp);
@@ -360,10 +606,207 @@ app.get('/api/storage/stats', (_req: Request, res: Response) => {
     newest_timestamp: timestamps.length ? Math.max(...timestamps) : null,
     devices,
     rooms,
+    rollups: { hourly: 0, daily: 0 },
+    last_compaction: null,
+    schema_version: 10,
     database_path: ':memory:',
   });
 });
 
+// GET /api/storage/aggregate - Aggregate mock storage per time bucket
+app.get('/api/storage/aggregate', (req: Request, res: Response) => {
+  const bucket = (req.query.bucket as string) || '1h';
+  const bucketMs = { '5m': 300000, '1h': 3600000, '1d': 86400000 }[bucket];
+  if (!bucketMs) {
+    return res.status(400).json({ error: 'Invalid bucket, expected one of: 5m, 1h, 1d' });
+  }
+
+  const device_id = req.query.device_id as string | undefined;
+  const samples = new Map<number, Map<string, number[]>>();
+  for (const reading of mockStorageReadings) {
+    if (device_id && reading.device_id !== device_id) continue;
+    const start = Math.floor(reading.timestamp / bucketMs) * bucketMs;
+    const metrics = samples.get(start) ?? new Map<string, number[]>();
+    samples.set(start, metrics);
+    for (const [metric, raw] of Object.entries(reading.data)) {
+      const value = Number(raw);
+      if (raw === '' || Number.isNaN(value)) continue;
+      metrics.set(metric, [...(metrics.get(metric) ?? []), value]);
+    }
+  }
+
+  const buckets = [...samples.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([start, metrics]) => ({
+      start,
+      metrics: Object.fromEntries(
+        [...metrics.entries()].map(([metric, values]) => {
+          const sorted = [...values].sort((a, b) => a - b);
+          const avg = values.reduce((sum, v) => sum + v, 0) / values.length;
+          return [
+            metric,
+            {
+              min: sorted[0],
+              max: sorted[sorted.length - 1],
+              avg: Math.round(avg * 100) / 100,
+              p95: sorted[Math.ceil(0.95 * sorted.length) - 1],
+              count: values.length,
+            },
+          ];
+        }),
+      ),
+    }));
+
+  res.json({ bucket, since: null, until: null, buckets, count: buckets.length });
+});
+
+// Mock recorder - samples the mock sensors into mock storage every minute
+const MOCK_RECORDER_INTERVAL_MS = 60000;
+let mockRecorderTimer: ReturnType<typeof setInterval> | null = null;
+let mockRecorderLastSample: number | null = null;
+let mockRecorderSamples = 0;
+
+function startMockRecorder(): void {
+  if (mockRecorderTimer) return;
+  mockRecorderTimer = setInterval(() => {
+    const timestamp = Math.floor(Date.now() / MOCK_RECORDER_INTERVAL_MS) * MOCK_RECORDER_INTERVAL_MS;
+    for (const sensor of Object.values(MOCK_SENSORS)) {
+      const device = generateMockDevice(sensor);
+      mockStorageReadings.unshift({
+        id: `mock-${timestamp}-${device.device_id}`,
+        device_id: device.device_id,
+        room: device.room || device.device_name,
+        timestamp,
+        created_at: new Date().toISOString(),
+        data: toSensorData(device),
+      });
+      mockRecorderSamples++;
+    }
+    mockRecorderLastSample = timestamp;
+  }, MOCK_RECORDER_INTERVAL_MS);
+}
+
+function mockRecorderStatus() {
+  return {
+    running: mockRecorderTimer !== null,
+    interval: MOCK_RECORDER_INTERVAL_MS / 1000,
+    last_sample_at: mockRecorderLastSample,
+    last_error: null,
+    samples_written: mockRecorderSamples,
+    duplicates_skipped: 0,
+  };
+}
+
+startMockRecorder();
+
+// GET /api/recorder - Recorder state
+app.get('/api/recorder', (_req: Request, res: Response) => {
+  res.json({ success: true, data: mockRecorderStatus() });
+});
+
+// POST /api/recorder/start - Start the mock recorder
+app.post('/api/recorder/start', (_req: Request, res: Response) => {
+  startMockRecorder();
+  res.json({ success: true, data: mockRecorderStatus(), message: 'Recorder started' });
+});
+
+// POST /api/recorder/stop - Stop the mock recorder
+app.post('/api/recorder/stop', (_req: Request, res: Response) => {
+  if (mockRecorderTimer) {
+    clearInterval(mockRecorderTimer);
+    mockRecorderTimer = null;
+  }
+  res.json({ success: true, data: mockRecorderStatus(), message: 'Recorder stopped' });
+});
+
+// Mock threshold profiles, kept in memory
+interface MockThresholdProfile {
+  id: string;
+  name: string;
+  thresholds: Record<string, unknown[]>;
+  created_at: number;
+  updated_at: number;
+}
+
+const mockProfiles: MockThresholdProfile[] = [
+  {
+    id: 'mock-asthma',
+    name: 'Asthma-sensitive',
+    thresholds: {
+      pm25: [
+        { max: 5, label: 'Good', color: '#22c55e', advice: 'Air quality is great.' },
+        { max: 12, label: 'Moderate', color: '#eab308', advice: 'Consider running the purifier.' },
+        { max: 25, label: 'Elevated', color: '#f97316', advice: 'Run HEPA filter.' },
+        { max: 9999, label: 'Unhealthy', color: '#ef4444', advice: 'Purifier on max, keep windows closed.' },
+      ],
+    },
+    created_at: Date.now(),
+    updated_at: Date.now(),
+  },
+];
+const mockAssignments: Record<string, string> = {};
+
+// GET /api/thresholds - Profiles and device assignments
+app.get('/api/thresholds', (_req: Request, res: Response) => {
+  res.json({ profiles: mockProfiles, assignments: mockAssignments });
+});
+
+// POST /api/thresholds - Create a profile
+app.post('/api/thresholds', (req: Request, res: Response) => {
+  const { name, thresholds } = req.body;
+  if (!name) {
+    return res.status(400).json({ error: 'Missing required field: name' });
+  }
+
+  const profile = {
+    id: `mock-${Date.now()}`,
+    name,
+    thresholds: thresholds || {},
+    created_at: Date.now(),
+    updated_at: Date.now(),
+  };
+  mockProfiles.push(profile);
+  res.status(201).json(profile);
+});
+
+// PUT /api/thresholds/devices/:device_id - Assign a profile to a device
+app.put('/api/thresholds/devices/:device_id', (req: Request, res: Response) => {
+  const { profile_id } = req.body;
+  if (profile_id) {
+    mockAssignments[req.params.device_id] = profile_id;
+  } else {
+    delete mockAssignments[req.params.device_id];
+  }
+  res.json({ device_id: req.params.device_id, profile_id: profile_id || null });
+});
+
+// PUT /api/thresholds/:id - Update a profile
+app.put('/api/thresholds/:id', (req: Request, res: Response) => {
+  const profile = mockProfiles.find((p) => p.id === req.params.id);
+  if (!profile) {
+    return res.status(404).json({ error: 'Threshold profile not found' });
+  }
+
+  if (req.body.name) profile.name = req.body.name;
+  if (req.body.thresholds) profile.thresholds = req.body.thresholds;
+  profile.updated_at = Date.now();
+  res.json(profile);
+});
+
+// DELETE /api/thresholds/:id - Delete a profile
+app.delete('/api/thresholds/:id', (req: Request, res: Response) => {
+  const index = mockProfiles.findIndex((p) => p.id === req.params.id);
+  if (index === -1) {
+    return res.status(404).json({ error: 'Threshold profile not found' });
+  }
+
+  mockProfiles.splice(index, 1);
+  for (const [deviceId, profileId] of Object.entries(mockAssignments)) {
+    if (profileId === req.params.id) delete mockAssignments[deviceId];
+  }
+  res.json({ success: true });
+});
+
 // Health check
 app.get('/health', (_req: Request, res: Response) => {
   res.json({
@@ -398,14 +841,23 @@ app.listen(PORT, () => {
   console.log('\n  📊 API Endpoints:');
   console.log(`    • GET    http://localhost:${PORT}/api/config`);
   console.log(`    • GET    http://localhost:${PORT}/api/sensors`);
+  console.log(`    • GET    http://localhost:${PORT}/api/stream`);
   console.log(`    • GET    http://localhost:${PORT}/api/history/:entity_id`);
+  console.log(`    • GET    http://localhost:${PORT}/api/history/device/:device_id`);
+  console.log(`    • GET    http://localhost:${PORT}/api/recorder`);
+  console.log(`    • POST   http://localhost:${PORT}/api/recorder/start`);
+  console.log(`    • POST   http://localhost:${PORT}/api/recorder/stop`);
   console.log('\n  💾 Storage Endpoints (in-memory):');
   console.log(`    • GET    http://localhost:${PORT}/api/storage/readings`);
   console.log(`    • POST   http://localhost:${PORT}/api/storage/readings`);
   console.log(`    • DELETE http://localhost:${PORT}/api/storage/readings/:id`);
   console.log(`    • GET    http://localhost:${PORT}/api/storage/export`);
   console.log(`    • POST   http://localhost:${PORT}/api/storage/import`);
+  console.log(`    • GET    http://localhost:${PORT}/api/storage/import/progress`);
+  console.log(`    • GET    http://localhost:${PORT}/api/storage/import/csv-presets`);
+  console.log(`    • POST   http://localhost:${PORT}/api/storage/import/csv-mapping`);
   console.log(`    • GET    http://localhost:${PORT}/api/storage/stats`);
+  console.log(`    • GET    http://localhost:${PORT}/api/storage/aggregate`);
   console.log(`\n  📦 Mock storage: ${mockStorageReadings.length} initial readings`);
   console.log('\n  Press Ctrl+C to stop\n');
 });
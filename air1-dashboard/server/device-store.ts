@@ -0,0 +1,135 @@
+/**
+ * In-memory Device Model
+ *
+ * Keeps the latest state of every AIR-1 entity (sensors and their calibration
+ * offsets) and derives Device objects from it. Fed by a full state snapshot
+ * on (re)connect and by state_changed events in between.
+ */
+
+import { isDerivedEntity, parseEntityId } from './config';
+import { buildDevices, selectSensorEntities } from './ha-client';
+import type { Device, DeviceRegistryInfo, HAEntity } from './types';
+
+type DeviceChangeListener = (changed: Device[]) => void;
+
+export class DeviceStore {
+  private entities = new Map<string, HAEntity>();
+  private devices = new Map<string, Device>();
+  private registry: ReadonlyMap<string, DeviceRegistryInfo> = new Map();
+  private listeners = new Set<DeviceChangeListener>();
+  private loaded = false;
+  private readonly trackedPattern: RegExp;
+
+  constructor(private readonly prefix = 'air1') {
+    this.trackedPattern = new RegExp(`^(sensor\\.${prefix}_|number\\.${prefix}_.*_offset$)`, 'i');
+  }
+
+  /**
+   * True once a full state snapshot has been loaded
+   */
+  isReady(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Replace the whole model with a fresh state snapshot
+   * @param states - All entity states (untracked entities are ignored)
+   */
+  load(states: HAEntity[]): void {
+    this.entities.clear();
+    for (const state of states) {
+      if (this.isTracked(state.entity_id)) {
+        this.entities.set(state.entity_id, state);
+      }
+    }
+    this.loaded = true;
+    this.rebuild();
+  }
+
+  /**
+   * Apply a single state_changed event
+   * @param entityId - Entity that changed
+   * @param newState - New state, or null when the entity was removed
+   */
+  applyStateChange(entityId: string, newState: HAEntity | null): void {
+    if (!this.loaded || !this.isTracked(entityId)) return;
+
+    if (newState) {
+      this.entities.set(entityId, newState);
+    } else {
+      this.entities.delete(entityId);
+    }
+    this.rebuild();
+  }
+
+  /**
+   * Replace the name, area and hardware info of the devices from the HA registries
+   */
+  setRegistry(registry: ReadonlyMap<string, DeviceRegistryInfo>): void {
+    this.registry = registry;
+    if (this.loaded) this.rebuild();
+  }
+
+  /**
+   * Current devices with their latest readings
+   */
+  getDevices(): Device[] {
+    return [...this.devices.values()];
+  }
+
+  /**
+   * Get a single device by ID
+   */
+  getDevice(deviceId: string): Device | undefined {
+    return this.devices.get(deviceId);
+  }
+
+  /**
+   * Sensor entities of a device, with calibration offsets attached
+   */
+  getEntities(deviceId: string): HAEntity[] {
+    return selectSensorEntities([...this.entities.values()], this.prefix).filter(
+      (entity) => parseEntityId(entity.entity_id, this.prefix).device === deviceId,
+    );
+  }
+
+  /**
+   * Register a listener called with every device whose readings changed
+   * @returns Function that removes the listener
+   */
+  onChange(listener: DeviceChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private isTracked(entityId: string): boolean {
+    return this.trackedPattern.test(entityId) && !isDerivedEntity(entityId);
+  }
+
+  private rebuild(): void {
+    const sensors = selectSensorEntities([...this.entities.values()], this.prefix);
+    const next = new Map(buildDevices(sensors, this.prefix, this.registry).map((device) => [device.device_id, device]));
+
+    // Only devices whose derived values changed are reported,
+    // attribute-only and timestamp-only updates are dropped here
+    const changed: Device[] = [];
+    for (const [deviceId, device] of next) {
+      const previous = this.devices.get(deviceId);
+      if (!previous || JSON.stringify(previous) !== JSON.stringify(device)) {
+        changed.push(device);
+      }
+    }
+    this.devices = next;
+
+    if (changed.length === 0) return;
+    for (const listener of this.listeners) {
+      try {
+        listener(changed);
+      } catch (error: unknown) {
+        console.error('[Device Store] Error in change listener:', error);
+      }
+    }
+  }
+}
+
+export default DeviceStore;
@@ -0,0 +1,197 @@
+/**
+ * Server-Sent Events stream of device updates
+ *
+ * Every client receives a full `snapshot` event on connect, followed by
+ * `device` events carrying only the fields that changed. Recent events are
+ * kept in a ring buffer so a reconnecting client that sends Last-Event-ID
+ * gets exactly what it missed; if that is no longer possible it gets a
+ * fresh snapshot instead.
+ */
+
+import type { Request, Response } from 'express';
+import type { Device } from './types';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const REPLAY_BUFFER_SIZE = 500;
+const CLIENT_RETRY_MS = 5000;
+
+/**
+ * Changed fields of a device. Fields that disappeared are sent as null.
+ */
+export type DeviceDelta = { device_id: string } & { [K in keyof Device]?: Device[K] | null };
+
+interface BufferedEvent {
+  seq: number;
+  delta: DeviceDelta;
+}
+
+/**
+ * Compute the fields that differ between two versions of a device
+ * @returns Delta, or null if nothing changed
+ */
+export function diffDevice(previous: Device | undefined, next: Device): DeviceDelta | null {
+  if (!previous) return { ...next };
+
+  const delta: Record<string, unknown> = { device_id: next.device_id };
+  let changed = false;
+
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  for (const key of keys) {
+    const before = (previous as unknown as Record<string, unknown>)[key];
+    const after = (next as unknown as Record<string, unknown>)[key];
+    if (before !== after) {
+      delta[key] = after === undefined ? null : after;
+      changed = true;
+    }
+  }
+
+  return changed ? (delta as DeviceDelta) : null;
+}
+
+export class DeviceStream {
+  // Unique per process so ids from before a restart are never replayed
+  private readonly epoch = Date.now().toString(36);
+  private nextSeq = 1;
+  private buffer: BufferedEvent[] = [];
+  private lastSent = new Map<string, Device>();
+  private clients = new Set<Response>();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly getSnapshot: () => Device[] | Promise<Device[]>) {}
+
+  /**
+   * Number of connected clients
+   */
+  clientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Send the changed fields of the given devices to all clients
+   */
+  publish(devices: Device[]): void {
+    for (const device of devices) {
+      const delta = diffDevice(this.lastSent.get(device.device_id), device);
+      this.lastSent.set(device.device_id, device);
+      if (!delta) continue;
+
+      const event: BufferedEvent = { seq: this.nextSeq++, delta };
+      this.buffer.push(event);
+      if (this.buffer.length > REPLAY_BUFFER_SIZE) {
+        this.buffer.shift();
+      }
+
+      const frame = this.formatDeltaEvent(event);
+      for (const client of this.clients) {
+        client.write(frame);
+      }
+    }
+  }
+
+  /**
+   * Express handler for GET /api/stream
+   */
+  handler = async (req: Request, res: Response): Promise<void> => {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    // no-transform keeps the compression middleware and proxies from buffering the stream
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Disable buffering in nginx-style proxies in front of the HA ingress
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+    let closed = false;
+    req.on('close', () => {
+      closed = true;
+      this.clients.delete(res);
+      if (this.clients.size === 0) {
+        this.stopHeartbeat();
+      }
+    });
+
+    const lastEventId = req.get('Last-Event-ID') || (req.query.lastEventId as string | undefined);
+    const replay = this.eventsAfter(lastEventId);
+
+    if (replay) {
+      for (const event of replay) {
+        res.write(this.formatDeltaEvent(event));
+      }
+    } else {
+      // Deltas published while the snapshot is built are replayed after it
+      const snapshotSeq = this.nextSeq - 1;
+      try {
+        const devices = await this.getSnapshot();
+        res.write(this.formatSnapshotEvent(devices, snapshotSeq));
+        for (const event of this.buffer) {
+          if (event.seq > snapshotSeq) res.write(this.formatDeltaEvent(event));
+        }
+      } catch (error: unknown) {
+        console.error('[Stream] Failed to build snapshot:', error);
+        res.write(`event: error\ndata: ${JSON.stringify({ error: 'Failed to fetch sensors' })}\n\n`);
+      }
+    }
+
+    if (closed) return;
+    this.clients.add(res);
+    this.startHeartbeat();
+  };
+
+  /**
+   * End all client connections
+   */
+  close(): void {
+    this.stopHeartbeat();
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+  }
+
+  /**
+   * Buffered events after the given event id, or null if the client
+   * cannot be caught up from the buffer and needs a snapshot
+   */
+  private eventsAfter(lastEventId: string | undefined): BufferedEvent[] | null {
+    if (!lastEventId) return null;
+
+    const [epoch, seqStr] = lastEventId.split(':');
+    const seq = Number.parseInt(seqStr ?? '', 10);
+    if (epoch !== this.epoch || Number.isNaN(seq) || seq >= this.nextSeq) return null;
+
+    const oldest = this.buffer[0];
+    if (seq + 1 < this.nextSeq && (!oldest || oldest.seq > seq + 1)) return null;
+
+    return this.buffer.filter((event) => event.seq > seq);
+  }
+
+  private formatDeltaEvent(event: BufferedEvent): string {
+    return `id: ${this.epoch}:${event.seq}\nevent: device\ndata: ${JSON.stringify(event.delta)}\n\n`;
+  }
+
+  private formatSnapshotEvent(devices: Device[], seq: number): string {
+    // The snapshot carries the latest id so a later reconnect can resume from here
+    const id = `${this.epoch}:${seq}`;
+    return `id: ${id}\nevent: snapshot\ndata: ${JSON.stringify(devices)}\n\n`;
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+    this.heartbeatTimer = setInterval(() => {
+      for (const client of this.clients) {
+        client.write(': heartbeat\n\n');
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+}
+
+export default DeviceStream;
@@ -0,0 +1,169 @@
+/**
+ * Export Formats
+ *
+ * Serializes stored readings for GET /api/storage/export: the JSON export
+ * document, CSV with one column per metric, newline-delimited JSON, and
+ * InfluxDB line protocol. Readings are serialized one at a time as they are
+ * read from the database and streamed to the response, so an export never
+ * holds the whole database in memory.
+ */
+
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { Response } from 'express';
+import { AGGREGATE_METRICS, METRIC_UNITS, type StoredReading } from './db';
+
+export type ExportFormat = 'json' | 'csv' | 'ndjson' | 'influx';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { content_type: string; extension: string }> = {
+  json: { content_type: 'application/json', extension: 'json' },
+  csv: { content_type: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { content_type: 'application/x-ndjson', extension: 'ndjson' },
+  influx: { content_type: 'text/plain; charset=utf-8', extension: 'lp' },
+};
+
+// Measurement every reading is written to in line protocol
+const INFLUX_MEASUREMENT = 'air_quality';
+
+// Serialized readings are collected up to this size before being written to the response
+const WRITE_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Numeric value of a metric in a reading, or null if it has none
+ */
+function metricValue(reading: StoredReading, metric: string): number | null {
+  const raw = reading.data[metric];
+  if (raw === undefined || raw === '') return null;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Escape a tag value, where commas, equals signs and spaces are special and newlines are not allowed
+ */
+function escapeTag(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').replace(/([,= ])/g, '\\$1');
+}
+
+/**
+ * Readings as CSV: timestamp (ISO 8601), device_id, room and one column per metric.
+ * Metrics a reading did not record are left empty.
+ * @param units - Add a row with the unit of each metric below the header
+ */
+export function* toCsv(readings: Iterable<StoredReading>, units = false): Generator<string> {
+  const toLine = (row: string[]) => `${row.map(escapeCsv).join(',')}\r\n`;
+
+  yield toLine(['timestamp', 'device_id', 'room', ...AGGREGATE_METRICS]);
+  if (units) {
+    yield toLine(['', '', '', ...AGGREGATE_METRICS.map((metric) => METRIC_UNITS[metric] ?? '')]);
+  }
+
+  for (const reading of readings) {
+    yield toLine([
+      new Date(reading.timestamp).toISOString(),
+      reading.device_id ?? '',
+      reading.room,
+      ...AGGREGATE_METRICS.map((metric) => String(metricValue(reading, metric) ?? '')),
+    ]);
+  }
+}
+
+/**
+ * Readings as newline-delimited JSON, one stored reading per line
+ */
+export function* toNdjson(readings: Iterable<StoredReading>): Generator<string> {
+  for (const reading of readings) {
+    yield `${JSON.stringify(reading)}\n`;
+  }
+}
+
+/**
+ * Readings as InfluxDB line protocol: one air_quality point per reading, tagged
+ * with device_id and room, with a float field per metric and a nanosecond
+ * timestamp (the default write precision). Readings without metrics are skipped.
+ */
+export function* toLineProtocol(readings: Iterable<StoredReading>): Generator<string> {
+  for (const reading of readings) {
+    const fields = AGGREGATE_METRICS.flatMap((metric) => {
+      const value = metricValue(reading, metric);
+      return value === null ? [] : [`${metric}=${value}`];
+    });
+    if (fields.length === 0) continue;
+
+    let series = INFLUX_MEASUREMENT;
+    // Empty tag values are not allowed in line protocol
+    if (reading.device_id) series += `,device_id=${escapeTag(reading.device_id)}`;
+    if (reading.room) series += `,room=${escapeTag(reading.room)}`;
+
+    yield `${series} ${fields.join(',')} ${Math.round(reading.timestamp)}000000\n`;
+  }
+}
+
+/**
+ * Readings as the JSON export document accepted by POST /api/storage/import
+ */
+export function* toJsonDocument(readings: Iterable<StoredReading>): Generator<string> {
+  yield `{"export_date":${JSON.stringify(new Date().toISOString())},"version":"1.0","readings":[`;
+
+  let first = true;
+  for (const reading of readings) {
+    yield `${first ? '' : ','}${JSON.stringify(reading)}`;
+    first = false;
+  }
+
+  yield ']}';
+}
+
+/**
+ * Serialize readings in an export format
+ * @param units - Add a unit row to CSV exports
+ */
+export function serializeReadings(
+  format: ExportFormat,
+  readings: Iterable<StoredReading>,
+  units = false,
+): Generator<string> {
+  switch (format) {
+    case 'csv':
+      return toCsv(readings, units);
+    case 'ndjson':
+      return toNdjson(readings);
+    case 'influx':
+      return toLineProtocol(readings);
+    default:
+      return toJsonDocument(readings);
+  }
+}
+
+/**
+ * Join serialized readings into chunks of about WRITE_CHUNK_SIZE
+ */
+function* toWriteChunks(chunks: Iterable<string>): Generator<string> {
+  let buffer = '';
+  for (const chunk of chunks) {
+    buffer += chunk;
+    if (buffer.length >= WRITE_CHUNK_SIZE) {
+      yield buffer;
+      buffer = '';
+    }
+  }
+  if (buffer) yield buffer;
+}
+
+/**
+ * Stream serialized readings to a response, reading more only as the client
+ * keeps up. Stops reading (and releases the database cursor) if the client disconnects.
+ */
+export async function streamToResponse(res: Response, chunks: Iterable<string>): Promise<void> {
+  try {
+    await pipeline(Readable.from(toWriteChunks(chunks)), res);
+  } catch (error: unknown) {
+    // The client went away before the export finished
+    if ((error as NodeJS.ErrnoException).code === 'ERR_STREAM_PREMATURE_CLOSE') return;
+    throw error;
+  }
+}
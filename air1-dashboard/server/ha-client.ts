@@ -4,8 +4,22 @@
  * Handles all API interactions with Home Assistant Supervisor using native fetch
  */
 
-import { extractSensorType, getDeviceName, parseEntityId } from './config';
-import type { HAEntity, HAHistoryRecord, SensorData, SensorType, TimeSeriesDataPoint } from './types';
+import { extractSensorType, getDeviceName, groupEntitiesByDevice, isDerivedEntity, parseEntityId } from './config';
+import { observeHaRequest } from './metrics';
+import { normalizeValue, offsetAt, offsetEntityId } from './normalize';
+import type {
+  Device,
+  DeviceRegistryInfo,
+  HAEntity,
+  HAHistoryRecord,
+  HAMinimalHistoryRecord,
+  HistoryCorrection,
+  HistoryQueryOptions,
+  SensorData,
+  SensorHistory,
+  SensorType,
+  TimeSeriesDataPoint,
+} from './types';
 
 const HA_API_BASE = process.env.HA_API_BASE || 'http://supervisor/core/api';
 const SUPERVISOR_TOKEN = process.env.SUPERVISOR_TOKEN;
@@ -23,16 +37,24 @@ function getErrorMessage(error: unknown): string {
  */
 async function haFetch<T>(path: string, options: RequestInit = {}): Promise<T> {
   const url = `${HA_API_BASE}${path}`;
+  const startedAt = performance.now();
 
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      Authorization: `Bearer ${SUPERVISOR_TOKEN}`,
-      'Content-Type': 'application/json',
-      ...options.headers,
-    },
-    signal: AbortSignal.timeout(30000), // 30 second timeout
-  });
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...options,
+      headers: {
+        Authorization: `Bearer ${SUPERVISOR_TOKEN}`,
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      signal: AbortSignal.timeout(30000), // 30 second timeout
+    });
+  } catch (error: unknown) {
+    observeHaRequest((performance.now() - startedAt) / 1000, true);
+    throw error;
+  }
+  observeHaRequest((performance.now() - startedAt) / 1000, !response.ok);
 
   if (!response.ok) {
     throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -49,40 +71,16 @@ async function haFetch<T>(path: string, options: RequestInit = {}): Promise<T> {
 export async function fetchSensors(prefix = 'air1'): Promise<HAEntity[]> {
   try {
     const states = await haFetch<HAEntity[]>('/states');
+    const matchingSensors = selectSensorEntities(states, prefix);
 
-    // Filter for sensors matching the prefix
-    const pattern = new RegExp(`^sensor\\.${prefix}_`, 'i');
-    const matchingSensors = states.filter((entity) => pattern.test(entity.entity_id));
-
-    // Also find number.* offset entities for calibration
-    const offsetPattern = new RegExp(`^number\\.${prefix}_.*_offset$`, 'i');
-    const offsets = states.filter((entity) => offsetPattern.test(entity.entity_id));
-    if (offsets.length > 0) {
+    const withOffsets = matchingSensors.filter((sensor) => sensor._offset_entity);
+    if (withOffsets.length > 0) {
       console.log(
-        `[HA Client] Found ${offsets.length} offset entities:`,
-        offsets.map((o) => `${o.entity_id}=${o.state}`),
+        `[HA Client] Matched ${withOffsets.length} offset entities:`,
+        withOffsets.map((s) => `${s._offset_entity}=${s._offset}`),
       );
     }
 
-    // Attach offsets to matching sensors so transformEntity can use them
-    // e.g. sensor.apollo_air_1_2c77c8_sen55_temperature
-    //   -> number.apollo_air_1_2c77c8_sen55_temperature_offset
-    for (const sensor of matchingSensors) {
-      const sensorBase = sensor.entity_id.replace(/^sensor\./, '');
-      const matchingOffset = offsets.find((o) => {
-        const offsetBase = o.entity_id.replace(/^number\./, '').replace(/_offset$/, '');
-        return sensorBase === offsetBase;
-      });
-      if (matchingOffset) {
-        const offsetVal = Number.parseFloat(matchingOffset.state);
-        if (!Number.isNaN(offsetVal)) {
-          sensor._offset = offsetVal;
-          sensor._offset_entity = matchingOffset.entity_id;
-          console.log(`[HA Client] Matched offset ${matchingOffset.entity_id}=${offsetVal} to ${sensor.entity_id}`);
-        }
-      }
-    }
-
     return matchingSensors;
   } catch (error: unknown) {
     console.error('[HA Client] Error fetching sensors:', getErrorMessage(error));
@@ -90,6 +88,56 @@ export async function fetchSensors(prefix = 'air1'): Promise<HAEntity[]> {
   }
 }
 
+/**
+ * Fetch the state of every entity in Home Assistant
+ * @returns Array of all entity states
+ */
+export async function fetchStates(): Promise<HAEntity[]> {
+  try {
+    return await haFetch<HAEntity[]>('/states');
+  } catch (error: unknown) {
+    console.error('[HA Client] Error fetching states:', getErrorMessage(error));
+    throw new Error(`Failed to fetch states: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Select the sensors matching the prefix from a full list of HA states
+ * and attach their number.*_offset calibration values
+ * @param states - All entity states (from REST /states or WebSocket get_states)
+ * @param prefix - Sensor prefix (e.g., "air1")
+ * @returns Matching sensor entities (copies, the input is not modified)
+ */
+export function selectSensorEntities(states: HAEntity[], prefix = 'air1'): HAEntity[] {
+  // Filter for sensors matching the prefix
+  const pattern = new RegExp(`^sensor\\.${prefix}_`, 'i');
+  const matchingSensors = states.filter(
+    (entity) => pattern.test(entity.entity_id) && !isDerivedEntity(entity.entity_id),
+  );
+
+  // Also find number.* offset entities for calibration
+  const offsetPattern = new RegExp(`^number\\.${prefix}_.*_offset$`, 'i');
+  const offsets = states.filter((entity) => offsetPattern.test(entity.entity_id));
+
+  // Attach offsets to matching sensors so transformEntity can use them
+  // e.g. sensor.apollo_air_1_2c77c8_sen55_temperature
+  //   -> number.apollo_air_1_2c77c8_sen55_temperature_offset
+  return matchingSensors.map((sensor) => {
+    const sensorBase = sensor.entity_id.replace(/^sensor\./, '');
+    const matchingOffset = offsets.find((o) => {
+      const offsetBase = o.entity_id.replace(/^number\./, '').replace(/_offset$/, '');
+      return sensorBase === offsetBase;
+    });
+    if (matchingOffset) {
+      const offsetVal = Number.parseFloat(matchingOffset.state);
+      if (!Number.isNaN(offsetVal)) {
+        return { ...sensor, _offset: offsetVal, _offset_entity: matchingOffset.entity_id };
+      }
+    }
+    return sensor;
+  });
+}
+
 /**
  * Fetch current state for a specific entity
  * @param entityId - Entity ID (e.g., "sensor.air1_bedroom_pm25")
@@ -114,32 +162,158 @@ export async function fetchState(entityId: string): Promise<HAEntity> {
 }
 
 /**
- * Fetch historical data for an entity
- * @param entityId - Entity ID
- * @param start - ISO timestamp for start (optional)
+ * Fetch historical data for several entities in one request
+ * @param entityIds - Entity IDs to fetch
+ * @param start - ISO timestamp for start (optional, HA defaults to one day ago)
  * @param end - ISO timestamp for end (optional)
- * @returns Array of historical state records
+ * @param options - History query options
+ * @returns Historical state records keyed by entity ID (entities without history are omitted)
  */
-export async function fetchHistory(entityId: string, start?: string, end?: string): Promise<HAHistoryRecord[]> {
+export async function fetchHistoryBatch(
+  entityIds: string[],
+  start?: string,
+  end?: string,
+  options: HistoryQueryOptions = {},
+): Promise<Record<string, HAHistoryRecord[]>> {
+  if (entityIds.length === 0) return {};
+
   try {
     // Build query parameters
     const params = new URLSearchParams();
-    if (start) params.set('start_time', start);
+    params.set('filter_entity_id', entityIds.join(','));
     if (end) params.set('end_time', end);
+    if (options.minimalResponse) params.set('minimal_response', '');
+    if (options.noAttributes) params.set('no_attributes', '');
+    // HA only returns significant changes unless told otherwise
+    if (options.significantChangesOnly === false) params.set('significant_changes_only', '0');
+
+    // The start time is part of the path, not a query parameter
+    const path = `/history/period${start ? `/${encodeURIComponent(start)}` : ''}?${params.toString()}`;
+
+    const history = await haFetch<HAMinimalHistoryRecord[][]>(path);
+
+    // HA returns one array per entity, in no guaranteed order
+    const result: Record<string, HAHistoryRecord[]> = {};
+    for (const entityHistory of history) {
+      const entityId = entityHistory[0]?.entity_id;
+      if (!entityId) continue;
+      result[entityId] = expandHistoryRecords(entityId, entityHistory);
+    }
 
-    const query = params.toString();
-    const path = `/history/period${query ? `?${query}` : ''}`;
+    return result;
+  } catch (error: unknown) {
+    console.error(`[HA Client] Error fetching history for ${entityIds.join(', ')}:`, getErrorMessage(error));
+    throw new Error(`Failed to fetch history: ${getErrorMessage(error)}`);
+  }
+}
 
-    const history = await haFetch<HAHistoryRecord[][]>(path);
+/**
+ * Fetch historical data for an entity
+ * @param entityId - Entity ID
+ * @param start - ISO timestamp for start (optional)
+ * @param end - ISO timestamp for end (optional)
+ * @param options - History query options
+ * @returns Array of historical state records
+ */
+export async function fetchHistory(
+  entityId: string,
+  start?: string,
+  end?: string,
+  options: HistoryQueryOptions = {},
+): Promise<HAHistoryRecord[]> {
+  const history = await fetchHistoryBatch([entityId], start, end, options);
+  return history[entityId] || [];
+}
 
-    // HA returns nested array: [[entity_history]]
-    const entityHistory = history[0] || [];
+/**
+ * Fetch the history of a sensor together with its calibration offset history
+ * @param entityId - Sensor entity ID
+ * @param start - ISO timestamp for start (optional)
+ * @param end - ISO timestamp for end (optional)
+ * @param options - History query options
+ * @returns Sensor history and offset history (empty if the sensor has no offset entity)
+ */
+export async function fetchSensorHistory(
+  entityId: string,
+  start?: string,
+  end?: string,
+  options: HistoryQueryOptions = {},
+): Promise<SensorHistory> {
+  const offsetId = offsetEntityId(entityId);
+  const history = await fetchHistoryBatch([entityId, offsetId], start, end, options);
+
+  return {
+    entity_id: entityId,
+    records: history[entityId] || [],
+    offsets: history[offsetId] || [],
+  };
+}
 
-    return entityHistory;
-  } catch (error: unknown) {
-    console.error(`[HA Client] Error fetching history for ${entityId}:`, getErrorMessage(error));
-    throw new Error(`Failed to fetch history: ${getErrorMessage(error)}`);
+/**
+ * Fetch the history of every metric of a device in one request,
+ * including the history of their calibration offsets
+ * @param entities - The device's sensor entities
+ * @param start - ISO timestamp for start (optional)
+ * @param end - ISO timestamp for end (optional)
+ * @param options - History query options
+ * @param prefix - Sensor prefix
+ * @returns Sensor and offset history keyed by sensor type
+ */
+export async function fetchDeviceHistory(
+  entities: HAEntity[],
+  start?: string,
+  end?: string,
+  options: HistoryQueryOptions = {},
+  prefix = 'air1',
+): Promise<Partial<Record<SensorType, SensorHistory>>> {
+  const byType = mapEntitiesBySensorType(entities, prefix);
+  const entityIds = Object.values(byType).map((entity) => entity.entity_id);
+  const history = await fetchHistoryBatch([...entityIds, ...entityIds.map(offsetEntityId)], start, end, options);
+
+  const result: Partial<Record<SensorType, SensorHistory>> = {};
+  for (const [sensorType, entity] of Object.entries(byType) as [SensorType, HAEntity][]) {
+    result[sensorType] = {
+      entity_id: entity.entity_id,
+      records: history[entity.entity_id] || [],
+      offsets: history[offsetEntityId(entity.entity_id)] || [],
+    };
+  }
+  return result;
+}
+
+/**
+ * Pick one entity per sensor type. When several entities map to the same type
+ * the last one wins, matching how buildDevices combines readings.
+ * @param entities - A device's sensor entities
+ * @param prefix - Sensor prefix
+ * @returns Entities keyed by sensor type
+ */
+export function mapEntitiesBySensorType(entities: HAEntity[], prefix = 'air1'): Partial<Record<SensorType, HAEntity>> {
+  const result: Partial<Record<SensorType, HAEntity>> = {};
+  for (const entity of entities) {
+    const sensorType = extractSensorType(entity.entity_id, entity.attributes, prefix);
+    if (sensorType) {
+      result[sensorType] = entity;
+    }
   }
+  return result;
+}
+
+/**
+ * Fill in the fields minimal_response leaves out, so every record has the full shape
+ */
+function expandHistoryRecords(entityId: string, records: HAMinimalHistoryRecord[]): HAHistoryRecord[] {
+  let attributes: Record<string, unknown> = {};
+  return records.map((record) => {
+    if (record.attributes) attributes = record.attributes;
+    return {
+      entity_id: entityId,
+      state: record.state,
+      attributes,
+      last_changed: record.last_changed,
+      last_updated: record.last_updated || record.last_changed,
+    };
+  });
 }
 
 /**
@@ -153,13 +327,6 @@ export function transformEntityToSensorData(entities: HAEntity[], prefix = 'air1
     const { device, sensor } = parseEntityId(entity.entity_id, prefix);
     const sensorType = extractSensorType(entity.entity_id, entity.attributes, prefix);
 
-    // Parse numeric value from state
-    let value: number | null = null;
-    const numericValue = Number.parseFloat(entity.state);
-    if (!Number.isNaN(numericValue)) {
-      value = numericValue;
-    }
-
     // Get unit and device class
     let unit: string | null = null;
     if (entity.attributes.unit_of_measurement && typeof entity.attributes.unit_of_measurement === 'string') {
@@ -171,17 +338,14 @@ export function transformEntityToSensorData(entities: HAEntity[], prefix = 'air1
       deviceClass = entity.attributes.device_class;
     }
 
-    // CRITICAL: Temperature conversion logic
-    // F to C conversion BEFORE applying offset
-    if (sensorType === 'temperature' && value !== null && unit === '°F') {
-      value = Math.round((((value - 32) * 5) / 9) * 100) / 100;
-      unit = '°C';
-    }
-
-    // Apply calibration offset AFTER unit conversion
-    if (value !== null && entity._offset != null) {
-      value = Math.round((value + entity._offset) * 100) / 100;
-    }
+    // Unit conversion, calibration offset and rounding
+    const normalized = normalizeValue(
+      sensorType,
+      entity.state,
+      unit,
+      entity._offset ?? null,
+      entity._offset_entity ?? null,
+    );
 
     let friendlyName = 'Unknown';
     if (entity.attributes.friendly_name && typeof entity.attributes.friendly_name === 'string') {
@@ -194,8 +358,9 @@ export function transformEntityToSensorData(entities: HAEntity[], prefix = 'air1
       device_name: getDeviceName(device),
       sensor,
       sensor_type: sensorType,
-      value,
-      unit,
+      value: normalized.value,
+      unit: normalized.unit,
+      correction: normalized.correction,
       state: entity.state,
       friendly_name: friendlyName,
       device_class: deviceClass,
@@ -207,41 +372,180 @@ export function transformEntityToSensorData(entities: HAEntity[], prefix = 'air1
 }
 
 /**
- * Transform historical data to time-series format
+ * Combine sensor entities into one Device object per AIR-1 device
+ * @param entities - Sensor entities matching the prefix (offsets already attached)
+ * @param prefix - Sensor prefix
+ * @param registry - Name, area and hardware info from the HA registries, keyed by device ID
+ * @returns Devices with their latest sensor readings
+ */
+export function buildDevices(
+  entities: HAEntity[],
+  prefix = 'air1',
+  registry: ReadonlyMap<string, DeviceRegistryInfo> = new Map(),
+): Device[] {
+  // Group entities by device
+  const grouped = groupEntitiesByDevice(entities, prefix);
+
+  // Transform each device's entities into a device object
+  return Object.entries(grouped).map(([deviceId, deviceEntities]) => {
+    // Device metadata from the registries, the first entity's name until they are loaded
+    const info = registry.get(deviceId);
+    const firstEntity = deviceEntities[0];
+    const deviceName = info?.name || firstEntity.attributes?.friendly_name || deviceId;
+
+    // Transform entities to sensor data array
+    const sensorDataArray = transformEntityToSensorData(deviceEntities, prefix);
+
+    // Combine all sensor readings into a single device object
+    const combinedSensorData: Partial<Device> = {};
+    for (const sensor of sensorDataArray) {
+      if (sensor.sensor_type && sensor.value !== null) {
+        // Map sensor_type to the property name expected by the dashboard
+        (combinedSensorData as Record<string, unknown>)[sensor.sensor_type] = sensor.value;
+      }
+    }
+
+    return {
+      entity_id: deviceId,
+      device_id: deviceId,
+      device_name: deviceName,
+      friendly_name: deviceName,
+      room: info?.area ?? null,
+      manufacturer: info?.manufacturer ?? null,
+      model: info?.model ?? null,
+      sw_version: info?.sw_version ?? null,
+      ...combinedSensorData, // Merge all sensor readings (co2, pm25, temperature, etc.)
+    } as Device;
+  });
+}
+
+/**
+ * Run historical data through the same normalization as live values
  * @param history - Array of historical state records
  * @param prefix - Sensor prefix
- * @returns Transformed time-series data
+ * @param offsets - History of the sensor's calibration offset entity (optional)
+ * @returns Transformed time-series data and the corrections that were applied
  */
-export function transformHistoryData(history: HAHistoryRecord[], prefix = 'air1'): TimeSeriesDataPoint[] {
-  return history.map((record) => {
+export function normalizeHistory(
+  history: HAHistoryRecord[],
+  prefix = 'air1',
+  offsets: HAHistoryRecord[] = [],
+): { history: TimeSeriesDataPoint[]; correction: HistoryCorrection } {
+  const correction: HistoryCorrection = {
+    unit_conversion: null,
+    offset_entity: null,
+    offsets: [],
+    decimals: 2,
+  };
+
+  const points = history.map((record) => {
     const sensorType = extractSensorType(record.entity_id, record.attributes, prefix);
 
-    // Parse numeric value from state
-    let value: number | null = null;
-    const numericValue = Number.parseFloat(record.state);
-    if (!Number.isNaN(numericValue)) {
-      value = numericValue;
-    }
-
     // Get unit
     let unit: string | null = null;
     if (record.attributes.unit_of_measurement && typeof record.attributes.unit_of_measurement === 'string') {
       unit = record.attributes.unit_of_measurement;
     }
 
-    // Temperature conversion (same as above)
-    if (sensorType === 'temperature' && value !== null && unit === '°F') {
-      value = Math.round((((value - 32) * 5) / 9) * 100) / 100;
-      unit = '°C';
+    // Apply the offset that was in effect when this value was recorded
+    const offset = offsetAt(offsets, record.last_changed);
+    const offsetEntity = offsets[0]?.entity_id ?? null;
+    const normalized = normalizeValue(sensorType, record.state, unit, offset, offsetEntity);
+
+    if (normalized.correction.unit_conversion) {
+      correction.unit_conversion = normalized.correction.unit_conversion;
+    }
+    if (normalized.correction.offset !== null) {
+      correction.offset_entity = offsetEntity;
+      const lastOffset = correction.offsets[correction.offsets.length - 1];
+      if (!lastOffset || lastOffset.value !== normalized.correction.offset) {
+        correction.offsets.push({ since: record.last_changed, value: normalized.correction.offset });
+      }
     }
 
     return {
       timestamp: record.last_updated,
-      value,
+      value: normalized.value,
       state: record.state,
       attributes: record.attributes,
     };
   });
+
+  return { history: points, correction };
+}
+
+/**
+ * Transform historical data to time-series format
+ * @param history - Array of historical state records
+ * @param prefix - Sensor prefix
+ * @param offsets - History of the sensor's calibration offset entity (optional)
+ * @returns Transformed time-series data
+ */
+export function transformHistoryData(
+  history: HAHistoryRecord[],
+  prefix = 'air1',
+  offsets: HAHistoryRecord[] = [],
+): TimeSeriesDataPoint[] {
+  return normalizeHistory(history, prefix, offsets).history;
+}
+
+/**
+ * Call a Home Assistant service
+ * @param domain - Service domain (e.g., "notify")
+ * @param service - Service name (e.g., "mobile_app_pixel_8")
+ * @param data - Service data
+ * @returns States that changed while the service ran
+ */
+export async function callService(
+  domain: string,
+  service: string,
+  data: Record<string, unknown> = {},
+): Promise<HAEntity[]> {
+  try {
+    return await haFetch<HAEntity[]>(`/services/${domain}/${service}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  } catch (error: unknown) {
+    console.error(`[HA Client] Error calling ${domain}.${service}:`, getErrorMessage(error));
+    throw new Error(`Failed to call ${domain}.${service}: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Create or update the state of an entity (not backed by an integration)
+ * @param entityId - Entity ID (e.g., "sensor.air1_dashboard_2c77c8_aqi")
+ * @param state - New state
+ * @param attributes - State attributes (unit_of_measurement, device_class, friendly_name, ...)
+ * @returns The stored state
+ */
+export async function setState(
+  entityId: string,
+  state: string,
+  attributes: Record<string, unknown> = {},
+): Promise<HAEntity> {
+  try {
+    return await haFetch<HAEntity>(`/states/${entityId}`, {
+      method: 'POST',
+      body: JSON.stringify({ state, attributes }),
+    });
+  } catch (error: unknown) {
+    console.error(`[HA Client] Error setting state of ${entityId}:`, getErrorMessage(error));
+    throw new Error(`Failed to set state of ${entityId}: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Remove an entity state created with setState
+ * @param entityId - Entity ID
+ */
+export async function removeState(entityId: string): Promise<void> {
+  try {
+    await haFetch<unknown>(`/states/${entityId}`, { method: 'DELETE' });
+  } catch (error: unknown) {
+    console.error(`[HA Client] Error removing state of ${entityId}:`, getErrorMessage(error));
+    throw new Error(`Failed to remove state of ${entityId}: ${getErrorMessage(error)}`);
+  }
 }
 
 /**
@@ -281,10 +585,21 @@ export async function fetchConfig(): Promise<unknown> {
 
 export default {
   fetchSensors,
+  fetchStates,
+  selectSensorEntities,
   fetchState,
   fetchHistory,
+  fetchHistoryBatch,
+  fetchSensorHistory,
+  fetchDeviceHistory,
+  mapEntitiesBySensorType,
   transformEntityToSensorData,
+  buildDevices,
+  normalizeHistory,
   transformHistoryData,
+  callService,
+  setState,
+  removeState,
   testConnection,
   fetchConfig,
 };
@@ -0,0 +1,159 @@
+/**
+ * Home Assistant Device Registry
+ *
+ * Reads the entity, device and area registries over the WebSocket API and maps
+ * every AIR-1 device to what HA knows about it: the name it was given, the area
+ * it was placed in and its manufacturer, model and firmware version. Reloaded
+ * on every (re)connect and whenever one of the registries changes.
+ */
+
+import { parseEntityId } from './config';
+import type { HAWebSocketClient } from './ha-websocket';
+import type { DeviceRegistryInfo, HAAreaRegistryEntry, HADeviceRegistryEntry, HAEntityRegistryEntry } from './types';
+
+// Registry events come in bursts, e.g. when a device is added with all its entities
+const RELOAD_DELAY_MS = 1000;
+
+const REGISTRY_EVENTS = ['entity_registry_updated', 'device_registry_updated', 'area_registry_updated'];
+
+type RegistryChangeListener = (devices: ReadonlyMap<string, DeviceRegistryInfo>) => void;
+
+/**
+ * Safely extract error message from unknown error type
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+/**
+ * Map AIR-1 devices onto their registry entries
+ * @param prefix - Sensor prefix
+ * @returns Registry info keyed by AIR-1 device ID (devices unknown to the registry are omitted)
+ */
+export function resolveDevices(
+  entities: HAEntityRegistryEntry[],
+  devices: HADeviceRegistryEntry[],
+  areas: HAAreaRegistryEntry[],
+  prefix = 'air1',
+): Map<string, DeviceRegistryInfo> {
+  const devicesById = new Map(devices.map((device) => [device.id, device]));
+  const areaNames = new Map(areas.map((area) => [area.area_id, area.name]));
+  const sensorPattern = new RegExp(`^sensor\\.${prefix}_`, 'i');
+
+  const result = new Map<string, DeviceRegistryInfo>();
+  for (const entity of entities) {
+    if (!entity.device_id || !sensorPattern.test(entity.entity_id)) continue;
+
+    const deviceId = parseEntityId(entity.entity_id, prefix).device;
+    const device = devicesById.get(entity.device_id);
+    if (!deviceId || !device) continue;
+
+    const existing = result.get(deviceId);
+    if (existing) {
+      // Devices without an area take the area of their first entity that has one
+      if (!existing.area && entity.area_id) existing.area = areaNames.get(entity.area_id) ?? null;
+      continue;
+    }
+
+    const areaId = device.area_id ?? entity.area_id;
+    result.set(deviceId, {
+      ha_device_id: device.id,
+      name: device.name_by_user || device.name,
+      area: areaId ? (areaNames.get(areaId) ?? null) : null,
+      manufacturer: device.manufacturer,
+      model: device.model,
+      sw_version: device.sw_version,
+    });
+  }
+  return result;
+}
+
+export class DeviceRegistry {
+  private devices: ReadonlyMap<string, DeviceRegistryInfo> = new Map();
+  private listeners = new Set<RegistryChangeListener>();
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly socket: HAWebSocketClient,
+    private readonly prefix = 'air1',
+  ) {}
+
+  /**
+   * Load the registries on every (re)connect and reload them when they change
+   */
+  start(): void {
+    for (const eventType of REGISTRY_EVENTS) {
+      this.socket.subscribeEvents(eventType, () => this.scheduleReload());
+    }
+    this.socket.onReady(() => {
+      this.reload();
+    });
+  }
+
+  /**
+   * Cancel a pending reload
+   */
+  stop(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+  }
+
+  /**
+   * Registry info of the AIR-1 devices, keyed by device ID.
+   * Empty until the registries were loaded.
+   */
+  getDevices(): ReadonlyMap<string, DeviceRegistryInfo> {
+    return this.devices;
+  }
+
+  /**
+   * Register a listener called after the registries were (re)loaded
+   * @returns Function that removes the listener
+   */
+  onChange(listener: RegistryChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Read all three registries and notify listeners if an AIR-1 device changed
+   */
+  async reload(): Promise<void> {
+    try {
+      const [entities, devices, areas] = await Promise.all([
+        this.socket.sendCommand<HAEntityRegistryEntry[]>({ type: 'config/entity_registry/list' }),
+        this.socket.sendCommand<HADeviceRegistryEntry[]>({ type: 'config/device_registry/list' }),
+        this.socket.sendCommand<HAAreaRegistryEntry[]>({ type: 'config/area_registry/list' }),
+      ]);
+      const next = resolveDevices(entities, devices, areas, this.prefix);
+
+      if (JSON.stringify([...next]) === JSON.stringify([...this.devices])) return;
+      this.devices = next;
+      console.log(`[HA Registry] Loaded ${next.size} devices`);
+    } catch (error: unknown) {
+      console.error('[HA Registry] Failed to load registries:', getErrorMessage(error));
+      return;
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(this.devices);
+      } catch (error: unknown) {
+        console.error('[HA Registry] Error in change listener:', error);
+      }
+    }
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.reload();
+    }, RELOAD_DELAY_MS);
+  }
+}
+
+export default DeviceRegistry;
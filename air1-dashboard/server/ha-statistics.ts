@@ -0,0 +1,143 @@
+/**
+ * Home Assistant Long-Term Statistics
+ *
+ * Reads the recorder's long-term statistics over the WebSocket API. HA keeps
+ * hourly mean/min/max of every sensor with a state_class long after the state
+ * history itself has been purged (10 days by default), so history ranges
+ * beyond that are served from the statistics.
+ */
+
+import { extractSensorType } from './config';
+import type { HAWebSocketClient } from './ha-websocket';
+import { normalizeValue } from './normalize';
+import type {
+  HAEntity,
+  HAStatisticsPeriod,
+  HAStatisticsRow,
+  HistoryCorrection,
+  NormalizedValue,
+  TimeSeriesDataPoint,
+} from './types';
+
+// Statistics of long ranges can take a while to compute
+const STATISTICS_TIMEOUT_MS = 60000;
+
+/**
+ * Safely extract error message from unknown error type
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+/**
+ * Fetch the statistics of several entities
+ * @param socket - Connected HA WebSocket client
+ * @param statisticIds - Entity IDs of the statistics
+ * @param start - ISO timestamp for start
+ * @param end - ISO timestamp for end
+ * @param period - Length of each statistics row
+ * @returns Rows keyed by entity ID, oldest first (entities without statistics are omitted)
+ */
+export async function fetchStatistics(
+  socket: HAWebSocketClient,
+  statisticIds: string[],
+  start: string,
+  end: string,
+  period: HAStatisticsPeriod = 'hour',
+): Promise<Record<string, HAStatisticsRow[]>> {
+  if (statisticIds.length === 0) return {};
+
+  try {
+    return await socket.sendCommand<Record<string, HAStatisticsRow[]>>(
+      {
+        type: 'recorder/statistics_during_period',
+        start_time: start,
+        end_time: end,
+        statistic_ids: statisticIds,
+        period,
+        types: ['mean', 'min', 'max'],
+      },
+      STATISTICS_TIMEOUT_MS,
+    );
+  } catch (error: unknown) {
+    console.error(`[HA Statistics] Error fetching statistics for ${statisticIds.join(', ')}:`, getErrorMessage(error));
+    throw new Error(`Failed to fetch statistics: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Start of a statistics row as epoch milliseconds
+ */
+export function statisticsRowStart(row: HAStatisticsRow): number {
+  return typeof row.start === 'number' ? row.start : Date.parse(row.start);
+}
+
+/**
+ * Run statistics through the same normalization as live values. Each row
+ * becomes a point at the start of its period holding the mean, with the min
+ * and max in its attributes.
+ * @param rows - Statistics rows of the entity, oldest first
+ * @param entityId - Entity ID of the statistics
+ * @param entity - Current state of the entity, for its unit and calibration offset (if known)
+ * @param prefix - Sensor prefix
+ * @returns Time-series data and the corrections that were applied
+ */
+export function normalizeStatistics(
+  rows: HAStatisticsRow[],
+  entityId: string,
+  entity: HAEntity | null,
+  prefix = 'air1',
+): { history: TimeSeriesDataPoint[]; correction: HistoryCorrection } {
+  const attributes = entity?.attributes ?? {};
+  const sensorType = extractSensorType(entityId, attributes, prefix);
+  const unit = typeof attributes.unit_of_measurement === 'string' ? attributes.unit_of_measurement : null;
+  // The offset history is purged with the states, the offset set now is applied throughout
+  const offset = entity?._offset ?? null;
+  const offsetEntity = entity?._offset_entity ?? null;
+
+  const correction: HistoryCorrection = {
+    unit_conversion: null,
+    offset_entity: null,
+    offsets: [],
+    decimals: 2,
+  };
+
+  const normalize = (value: number | null | undefined): NormalizedValue | null =>
+    value === null || value === undefined
+      ? null
+      : normalizeValue(sensorType, String(value), unit, offset, offsetEntity);
+
+  const history = rows.map((row) => {
+    const mean = normalize(row.mean);
+    if (mean?.correction.unit_conversion) {
+      correction.unit_conversion = mean.correction.unit_conversion;
+    }
+
+    return {
+      timestamp: new Date(statisticsRowStart(row)).toISOString(),
+      value: mean?.value ?? null,
+      state: row.mean === null || row.mean === undefined ? 'unknown' : String(row.mean),
+      attributes: {
+        ...attributes,
+        statistic: 'mean',
+        min: normalize(row.min)?.value ?? null,
+        max: normalize(row.max)?.value ?? null,
+      },
+    };
+  });
+
+  const first = history[0];
+  if (offset !== null && first) {
+    correction.offset_entity = offsetEntity;
+    correction.offsets.push({ since: first.timestamp, value: offset });
+  }
+
+  return { history, correction };
+}
+
+export default {
+  fetchStatistics,
+  statisticsRowStart,
+  normalizeStatistics,
+};
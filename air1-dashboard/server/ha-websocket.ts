@@ -0,0 +1,335 @@
+/**
+ * Home Assistant WebSocket Client
+ *
+ * Maintains a single long-lived connection to the Home Assistant WebSocket API.
+ * Handles authentication with the supervisor token, request/response matching,
+ * event subscriptions and automatic reconnects with exponential backoff.
+ */
+
+import type { HAEventMessage, HAWebSocketMessage } from './types';
+
+const HA_WS_URL = process.env.HA_WS_URL || 'ws://supervisor/core/websocket';
+const SUPERVISOR_TOKEN = process.env.SUPERVISOR_TOKEN;
+
+const COMMAND_TIMEOUT_MS = 30000;
+const PING_INTERVAL_MS = 30000;
+const PONG_TIMEOUT_MS = 10000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 60000;
+
+type EventHandler<T = unknown> = (data: T, event: HAEventMessage<T>) => void;
+
+interface PendingCommand {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface EventSubscription {
+  eventType: string;
+  handler: EventHandler;
+  // Message id of the active subscribe_events call (changes on every reconnect)
+  haId: number | null;
+}
+
+/**
+ * Safely extract error message from unknown error type
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+export class HAWebSocketClient {
+  private socket: WebSocket | null = null;
+  private authenticated = false;
+  private stopped = true;
+  private nextId = 1;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending = new Map<number, PendingCommand>();
+  private subscriptions: EventSubscription[] = [];
+  private readyListeners = new Set<() => void>();
+
+  constructor(
+    private readonly url = HA_WS_URL,
+    private readonly token = SUPERVISOR_TOKEN,
+  ) {}
+
+  /**
+   * Open the connection. Reconnects automatically until stop() is called.
+   */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.connect();
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.teardown('Client stopped');
+  }
+
+  /**
+   * True once the connection is open and authenticated
+   */
+  isConnected(): boolean {
+    return this.authenticated;
+  }
+
+  /**
+   * Register a listener called after every successful (re)authentication,
+   * once all event subscriptions have been restored
+   * @returns Function that removes the listener
+   */
+  onReady(listener: () => void): () => void {
+    this.readyListeners.add(listener);
+    return () => this.readyListeners.delete(listener);
+  }
+
+  /**
+   * Send a command and wait for its result
+   * @param command - Command message without id (e.g. { type: 'get_states' })
+   * @returns The command's result payload
+   */
+  sendCommand<T>(command: Record<string, unknown>, timeoutMs = COMMAND_TIMEOUT_MS): Promise<T> {
+    if (!this.socket || !this.authenticated) {
+      return Promise.reject(new Error('Home Assistant WebSocket is not connected'));
+    }
+    return this.request<T>(command, timeoutMs);
+  }
+
+  /**
+   * Subscribe to a Home Assistant event type.
+   * Subscriptions survive reconnects and are re-established automatically.
+   */
+  subscribeEvents<T>(eventType: string, handler: EventHandler<T>): void {
+    const subscription: EventSubscription = {
+      eventType,
+      handler: handler as EventHandler,
+      haId: null,
+    };
+    this.subscriptions.push(subscription);
+
+    if (this.authenticated) {
+      this.subscribe(subscription).catch((error: unknown) => {
+        console.error(`[HA WebSocket] Failed to subscribe to ${eventType}:`, getErrorMessage(error));
+      });
+    }
+  }
+
+  private connect(): void {
+    console.log(`[HA WebSocket] Connecting to ${this.url}`);
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error: unknown) {
+      console.error('[HA WebSocket] Could not open connection:', getErrorMessage(error));
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.addEventListener('message', (event) => {
+      if (socket !== this.socket) return;
+      try {
+        this.handleMessage(JSON.parse(String(event.data)) as HAWebSocketMessage);
+      } catch (error: unknown) {
+        console.error('[HA WebSocket] Failed to handle message:', getErrorMessage(error));
+      }
+    });
+
+    socket.addEventListener('close', (event) => {
+      if (socket !== this.socket) return;
+      console.warn(`[HA WebSocket] Connection closed (code ${event.code})`);
+      this.teardown('Connection closed');
+      this.scheduleReconnect();
+    });
+
+    socket.addEventListener('error', () => {
+      // A close event always follows, reconnect is handled there
+      console.error('[HA WebSocket] Connection error');
+    });
+  }
+
+  private handleMessage(message: HAWebSocketMessage): void {
+    switch (message.type) {
+      case 'auth_required':
+        this.socket?.send(JSON.stringify({ type: 'auth', access_token: this.token }));
+        break;
+
+      case 'auth_ok':
+        console.log(`[HA WebSocket] Authenticated (Home Assistant ${message.ha_version ?? 'unknown'})`);
+        this.authenticated = true;
+        this.reconnectAttempts = 0;
+        this.startPing();
+        this.restoreSubscriptions();
+        break;
+
+      case 'auth_invalid':
+        console.error(`[HA WebSocket] Authentication failed: ${message.message ?? 'invalid token'}`);
+        this.socket?.close();
+        break;
+
+      case 'result':
+        this.settle(message);
+        break;
+
+      case 'pong':
+        if (this.pongTimer) {
+          clearTimeout(this.pongTimer);
+          this.pongTimer = null;
+        }
+        this.settle(message);
+        break;
+
+      case 'event':
+        this.dispatchEvent(message);
+        break;
+    }
+  }
+
+  private settle(message: HAWebSocketMessage): void {
+    if (message.id === undefined) return;
+    const command = this.pending.get(message.id);
+    if (!command) return;
+
+    this.pending.delete(message.id);
+    clearTimeout(command.timer);
+
+    if (message.type === 'result' && !message.success) {
+      command.reject(new Error(message.error?.message ?? 'Command failed'));
+    } else {
+      command.resolve(message.result);
+    }
+  }
+
+  private dispatchEvent(message: HAWebSocketMessage): void {
+    if (!message.event) return;
+    const subscription = this.subscriptions.find((s) => s.haId === message.id);
+    if (!subscription) return;
+
+    try {
+      subscription.handler(message.event.data, message.event);
+    } catch (error: unknown) {
+      console.error(`[HA WebSocket] Error in ${subscription.eventType} handler:`, getErrorMessage(error));
+    }
+  }
+
+  private request<T>(command: Record<string, unknown>, timeoutMs: number): Promise<T> {
+    const id = this.nextId++;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Command ${String(command.type)} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject, timer });
+      this.socket?.send(JSON.stringify({ ...command, id }));
+    });
+  }
+
+  private async subscribe(subscription: EventSubscription): Promise<void> {
+    // Reserve the id before sending so no event can arrive unmatched
+    const id = this.nextId;
+    subscription.haId = id;
+    await this.request({ type: 'subscribe_events', event_type: subscription.eventType }, COMMAND_TIMEOUT_MS);
+  }
+
+  private async restoreSubscriptions(): Promise<void> {
+    try {
+      await Promise.all(this.subscriptions.map((s) => this.subscribe(s)));
+      if (this.subscriptions.length > 0) {
+        console.log(`[HA WebSocket] Restored ${this.subscriptions.length} event subscription(s)`);
+      }
+    } catch (error: unknown) {
+      console.error('[HA WebSocket] Failed to restore subscriptions:', getErrorMessage(error));
+      this.socket?.close();
+      return;
+    }
+
+    for (const listener of this.readyListeners) {
+      try {
+        listener();
+      } catch (error: unknown) {
+        console.error('[HA WebSocket] Error in ready listener:', getErrorMessage(error));
+      }
+    }
+  }
+
+  private startPing(): void {
+    this.stopPing();
+    this.pingTimer = setInterval(() => {
+      if (!this.socket || !this.authenticated || this.pongTimer) return;
+
+      // Close the socket if HA does not answer, the close handler reconnects
+      this.pongTimer = setTimeout(() => {
+        console.warn('[HA WebSocket] Ping timed out, reconnecting');
+        this.pongTimer = null;
+        this.socket?.close();
+      }, PONG_TIMEOUT_MS);
+
+      this.request({ type: 'ping' }, PONG_TIMEOUT_MS).catch(() => {
+        // Handled by the pong timer
+      });
+    }, PING_INTERVAL_MS);
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+
+  private teardown(reason: string): void {
+    this.stopPing();
+    this.authenticated = false;
+
+    for (const subscription of this.subscriptions) {
+      subscription.haId = null;
+    }
+
+    for (const command of this.pending.values()) {
+      clearTimeout(command.timer);
+      command.reject(new Error(reason));
+    }
+    this.pending.clear();
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket && socket.readyState !== WebSocket.CLOSED) {
+      socket.close();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return;
+
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_MS);
+    this.reconnectAttempts++;
+    console.log(`[HA WebSocket] Reconnecting in ${Math.round(delay / 1000)}s`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+}
+
+export default HAWebSocketClient;
@@ -0,0 +1,136 @@
+/**
+ * Regional Air Quality Index Standards
+ *
+ * Index numbers of the regional standards the dashboard can rate particulate
+ * matter with, each from the averaging period the standard is defined for:
+ * EU CAQI (hourly grid, 1-hour mean), UK DAQI (bands 1-10, 24-hour mean),
+ * Canada AQHI+ (PM2.5 alone, 1-hour mean) and China HJ 633 (IAQI, 24-hour mean).
+ * The US EPA AQI is computed in aqi.ts from NowCast averages.
+ */
+
+import type { AqiPollutant, HourlyAverages } from './aqi';
+import type { IndexStandardId, IndexValue } from './types';
+
+export type RegionalStandardId = Exclude<IndexStandardId, 'us_epa'>;
+
+type Averaging = '1h' | '24h';
+
+interface RegionalStandard {
+  averaging: Averaging;
+  // Index of a concentration averaged over the standard's period, pollutants it does not rate are left out
+  index: Partial<Record<AqiPollutant, (concentration: number) => number>>;
+}
+
+// A 24-hour mean needs three quarters of the hours
+const MIN_HOURS_24H = 18;
+
+/**
+ * Linear interpolation between breakpoints, continued with the slope of the
+ * last segment above the highest one
+ * @param concentrations - Upper concentration of each segment, starting at 0
+ * @param indices - Index at each of those concentrations
+ */
+function interpolate(concentrations: number[], indices: number[], concentration: number): number {
+  let i = concentrations.findIndex((c) => concentration <= c);
+  if (i === -1) i = concentrations.length - 1;
+  if (i === 0) return indices[0];
+
+  const cLow = concentrations[i - 1];
+  const cHigh = concentrations[i];
+  const iLow = indices[i - 1];
+  const iHigh = indices[i];
+  return iLow + ((iHigh - iLow) / (cHigh - cLow)) * (concentration - cLow);
+}
+
+/**
+ * Band a concentration falls into, 1 for the first
+ * @param maxima - Highest (rounded) concentration of each band but the last
+ */
+function band(maxima: number[], concentration: number): number {
+  const i = maxima.findIndex((max) => Math.round(concentration) <= max);
+  return i === -1 ? maxima.length + 1 : i + 1;
+}
+
+// HJ 633 individual AQI, rounded up and 500 above the highest breakpoint
+function iaqi(concentrations: number[], concentration: number): number {
+  const IAQI = [0, 50, 100, 150, 200, 300, 400, 500];
+  if (concentration >= concentrations[concentrations.length - 1]) return 500;
+  return Math.ceil(interpolate(concentrations, IAQI, concentration));
+}
+
+export const REGIONAL_STANDARDS: Record<RegionalStandardId, RegionalStandard> = {
+  eu_caqi: {
+    averaging: '1h',
+    index: {
+      pm25: (c) => Math.round(interpolate([0, 15, 30, 55, 110], [0, 25, 50, 75, 100], c)),
+      pm10: (c) => Math.round(interpolate([0, 25, 50, 90, 180], [0, 25, 50, 75, 100], c)),
+    },
+  },
+  uk_daqi: {
+    averaging: '24h',
+    index: {
+      pm25: (c) => band([11, 23, 35, 41, 47, 53, 58, 64, 70], c),
+      pm10: (c) => band([16, 33, 50, 58, 66, 75, 83, 91, 100], c),
+    },
+  },
+  ca_aqhi: {
+    averaging: '1h',
+    // One index point per 10 µg/m³, 11 and above are reported as "10+"
+    index: {
+      pm25: (c) => Math.max(1, Math.ceil(c / 10)),
+    },
+  },
+  cn_aqi: {
+    averaging: '24h',
+    index: {
+      pm25: (c) => iaqi([0, 35, 75, 115, 150, 250, 350, 500], c),
+      pm10: (c) => iaqi([0, 50, 150, 250, 350, 420, 500, 600], c),
+    },
+  },
+};
+
+/**
+ * Mean over an averaging period
+ * @param hourly - Hourly averages, most recent (current) hour first
+ * @returns Mean, or null without enough hours of data
+ */
+export function averageOver(hourly: (number | null)[], averaging: Averaging): number | null {
+  if (averaging === '1h') {
+    // The current hour, or the previous one if nothing was measured yet this hour
+    return hourly[0] ?? hourly[1] ?? null;
+  }
+
+  const available = hourly.slice(0, 24).filter((c): c is number => c != null);
+  if (available.length < MIN_HOURS_24H) return null;
+  return available.reduce((sum, c) => sum + c, 0) / available.length;
+}
+
+/**
+ * Index of every regional standard: the highest index of the pollutants it rates
+ * @param hourly - Hourly averages of the last 24 hours, most recent first
+ * @returns Index per standard, standards without enough data are left out
+ */
+export function computeRegionalIndices(hourly: HourlyAverages): Partial<Record<RegionalStandardId, IndexValue>> {
+  const result: Partial<Record<RegionalStandardId, IndexValue>> = {};
+
+  for (const [id, standard] of Object.entries(REGIONAL_STANDARDS) as [RegionalStandardId, RegionalStandard][]) {
+    const concentrations: Partial<Record<AqiPollutant, number>> = {};
+    let best: IndexValue | null = null;
+
+    for (const [pollutant, index] of Object.entries(standard.index) as [AqiPollutant, (c: number) => number][]) {
+      const averages = hourly[pollutant];
+      const concentration = averages ? averageOver(averages, standard.averaging) : null;
+      if (concentration === null || concentration < 0) continue;
+
+      concentrations[pollutant] = Math.round(concentration * 10) / 10;
+      const value = index(concentration);
+      if (!best || value > best.value) {
+        best = { value, pollutant, concentrations };
+      }
+    }
+
+    if (best) result[id] = best;
+  }
+
+  return result;
+}
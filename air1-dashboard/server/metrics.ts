@@ -0,0 +1,153 @@
+/**
+ * Prometheus Metrics
+ *
+ * Renders device readings and server internals in the Prometheus text
+ * exposition format for GET /metrics. Readings are exported as one gauge per
+ * sensor type, labelled by device; HA request latency and errors are collected
+ * here as the HA client makes requests.
+ */
+
+import type { RecorderStatus } from './recorder';
+import type { Device, SensorType } from './types';
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels?: Labels;
+  value: number;
+  // Appended to the metric name, e.g. "_bucket"
+  suffix?: string;
+}
+
+export interface MetricsSnapshot {
+  devices: Device[];
+  // Row count per database table
+  table_rows: Record<string, number>;
+  recorder: RecorderStatus;
+  stream_clients: number;
+  websocket_connected: boolean;
+  now: number;
+}
+
+// Gauge per sensor type, named with the unit the value is stored in
+const DEVICE_GAUGES: Record<SensorType | 'aqi', { name: string; help: string }> = {
+  co2: { name: 'air1_co2_ppm', help: 'CO2 concentration in ppm' },
+  pm25: { name: 'air1_pm25_ugm3', help: 'PM2.5 concentration in µg/m³' },
+  pm10: { name: 'air1_pm10_ugm3', help: 'PM10 concentration in µg/m³' },
+  pm_1um: { name: 'air1_pm1_ugm3', help: 'PM1.0 concentration in µg/m³' },
+  pm_4um: { name: 'air1_pm4_ugm3', help: 'PM4.0 concentration in µg/m³' },
+  voc: { name: 'air1_voc_index', help: 'VOC index' },
+  nox: { name: 'air1_nox_index', help: 'NOx index' },
+  humidity: { name: 'air1_humidity_percent', help: 'Relative humidity in %' },
+  temperature: { name: 'air1_temperature_celsius', help: 'Temperature in °C' },
+  pressure: { name: 'air1_pressure_hpa', help: 'Air pressure in hPa' },
+  rssi: { name: 'air1_wifi_rssi_dbm', help: 'WiFi signal strength in dBm' },
+  aqi: { name: 'air1_aqi', help: 'US EPA AQI (NowCast)' },
+};
+
+// Upper bounds of the HA request latency histogram, in seconds
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const haRequests = {
+  bucketCounts: LATENCY_BUCKETS.map(() => 0),
+  count: 0,
+  sum: 0,
+  errors: 0,
+};
+
+/**
+ * Record a request to the HA REST API
+ * @param durationSeconds - Time until the response (or failure)
+ * @param failed - Whether the request failed or returned an error status
+ */
+export function observeHaRequest(durationSeconds: number, failed: boolean): void {
+  haRequests.count++;
+  haRequests.sum += durationSeconds;
+  if (failed) haRequests.errors++;
+  LATENCY_BUCKETS.forEach((bound, i) => {
+    if (durationSeconds <= bound) haRequests.bucketCounts[i]++;
+  });
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels = {}): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatMetric(name: string, type: string, help: string, samples: Sample[]): string {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+  for (const sample of samples) {
+    lines.push(`${name}${sample.suffix ?? ''}${formatLabels(sample.labels)} ${sample.value}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render all metrics in the Prometheus text exposition format
+ */
+export function renderMetrics(snapshot: MetricsSnapshot): string {
+  const blocks: string[] = [];
+
+  for (const [metric, { name, help }] of Object.entries(DEVICE_GAUGES)) {
+    const samples: Sample[] = [];
+    for (const device of snapshot.devices) {
+      const value = device[metric as keyof typeof DEVICE_GAUGES];
+      if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+      samples.push({
+        labels: { device: device.device_id, name: device.device_name, room: device.room ?? '' },
+        value,
+      });
+    }
+    // Types no device reports are left out
+    if (samples.length > 0) blocks.push(formatMetric(name, 'gauge', help, samples));
+  }
+
+  blocks.push(
+    formatMetric('air1_ha_request_duration_seconds', 'histogram', 'Latency of Home Assistant REST API requests', [
+      ...LATENCY_BUCKETS.map((bound, i) => ({
+        suffix: '_bucket',
+        labels: { le: String(bound) },
+        value: haRequests.bucketCounts[i],
+      })),
+      { suffix: '_bucket', labels: { le: '+Inf' }, value: haRequests.count },
+      { suffix: '_sum', value: Math.round(haRequests.sum * 1000) / 1000 },
+      { suffix: '_count', value: haRequests.count },
+    ]),
+    formatMetric('air1_ha_request_errors_total', 'counter', 'Failed Home Assistant REST API requests', [
+      { value: haRequests.errors },
+    ]),
+    formatMetric('air1_ha_websocket_connected', 'gauge', 'Whether the Home Assistant WebSocket is connected', [
+      { value: snapshot.websocket_connected ? 1 : 0 },
+    ]),
+    formatMetric(
+      'air1_db_rows',
+      'gauge',
+      'Rows per database table',
+      Object.entries(snapshot.table_rows).map(([table, value]) => ({ labels: { table }, value })),
+    ),
+    formatMetric('air1_recorder_running', 'gauge', 'Whether the background recorder is running', [
+      { value: snapshot.recorder.running ? 1 : 0 },
+    ]),
+    formatMetric('air1_recorder_samples_written_total', 'counter', 'Readings stored by the recorder', [
+      { value: snapshot.recorder.samples_written },
+    ]),
+    formatMetric('air1_stream_clients', 'gauge', 'Connected live device stream clients', [
+      { value: snapshot.stream_clients },
+    ]),
+  );
+
+  // Time since the last sample; absent until the recorder stored one
+  if (snapshot.recorder.last_sample_at !== null) {
+    blocks.push(
+      formatMetric('air1_recorder_lag_seconds', 'gauge', 'Seconds since the last recorder sample', [
+        { value: Math.max(0, Math.round((snapshot.now - snapshot.recorder.last_sample_at) / 1000)) },
+      ]),
+    );
+  }
+
+  return `${blocks.join('\n')}\n`;
+}
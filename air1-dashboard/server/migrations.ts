@@ -0,0 +1,314 @@
+/**
+ * Database Schema Migrations
+ *
+ * Each migration moves the schema one version up. The version of a database is
+ * stored in PRAGMA user_version; migrations above it are applied in order at
+ * startup, each in its own transaction. Never edit a released migration, add a
+ * new one instead.
+ */
+
+import type { Database } from 'bun:sqlite';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Readings table',
+    // IF NOT EXISTS: databases created before migrations existed already have it
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS readings (
+          id TEXT PRIMARY KEY,
+          device_id TEXT,
+          room TEXT,
+          timestamp INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          sensor_data TEXT NOT NULL,
+          UNIQUE(timestamp, device_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_timestamp ON readings(timestamp DESC);
+        CREATE INDEX IF NOT EXISTS idx_device_id ON readings(device_id);
+        CREATE INDEX IF NOT EXISTS idx_room ON readings(room);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Hourly and daily rollups, compaction log',
+    up: (db) => {
+      db.exec(`
+        -- Downsampled readings kept after raw rows are pruned.
+        -- device_id and room are '' instead of NULL so they can be part of the key.
+        CREATE TABLE IF NOT EXISTS readings_hourly (
+          bucket INTEGER NOT NULL,
+          device_id TEXT NOT NULL,
+          room TEXT NOT NULL,
+          metric TEXT NOT NULL,
+          min REAL NOT NULL,
+          max REAL NOT NULL,
+          avg REAL NOT NULL,
+          p95 REAL NOT NULL,
+          count INTEGER NOT NULL,
+          PRIMARY KEY (bucket, device_id, room, metric)
+        );
+
+        CREATE TABLE IF NOT EXISTS readings_daily (
+          bucket INTEGER NOT NULL,
+          device_id TEXT NOT NULL,
+          room TEXT NOT NULL,
+          metric TEXT NOT NULL,
+          min REAL NOT NULL,
+          max REAL NOT NULL,
+          avg REAL NOT NULL,
+          p95 REAL NOT NULL,
+          count INTEGER NOT NULL,
+          PRIMARY KEY (bucket, device_id, room, metric)
+        );
+
+        CREATE TABLE IF NOT EXISTS compaction_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          ran_at INTEGER NOT NULL,
+          duration_ms INTEGER NOT NULL,
+          hourly_rolled_up INTEGER NOT NULL,
+          daily_rolled_up INTEGER NOT NULL,
+          raw_pruned INTEGER NOT NULL,
+          hourly_pruned INTEGER NOT NULL,
+          daily_pruned INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: 'Typed measurements table, numeric values moved out of sensor_data',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE measurements (
+          reading_id TEXT NOT NULL REFERENCES readings(id) ON DELETE CASCADE,
+          metric TEXT NOT NULL,
+          value REAL NOT NULL,
+          unit TEXT,
+          PRIMARY KEY (reading_id, metric)
+        );
+
+        CREATE INDEX idx_measurements_metric_value ON measurements(metric, value);
+
+        CREATE TEMP TABLE metric_units (metric TEXT PRIMARY KEY, unit TEXT);
+        INSERT INTO metric_units VALUES
+          ('co2', 'ppm'), ('pm25', 'µg/m³'), ('pm10', 'µg/m³'), ('pm_1um', 'µg/m³'), ('pm_4um', 'µg/m³'),
+          ('humidity', '%'), ('temperature', '°C'), ('voc', NULL), ('nox', NULL), ('pressure', 'hPa'),
+          ('rssi', 'dBm');
+
+        INSERT INTO measurements (reading_id, metric, value, unit)
+        SELECT r.id, j.key, CAST(j.value AS REAL), u.unit
+        FROM readings r, json_each(r.sensor_data) j
+        JOIN metric_units u ON u.metric = j.key
+        WHERE json_valid(r.sensor_data)
+          AND trim(j.value) <> ''
+          AND NOT trim(j.value) GLOB '*[^0-9.eE+-]*';
+
+        -- sensor_data keeps only the fields that did not become a measurement
+        UPDATE readings SET sensor_data = (
+          SELECT json_group_object(j.key, j.value)
+          FROM json_each(readings.sensor_data) j
+          WHERE NOT EXISTS (SELECT 1 FROM measurements m WHERE m.reading_id = readings.id AND m.metric = j.key)
+        )
+        WHERE json_valid(sensor_data);
+
+        DROP TABLE metric_units;
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'Threshold profiles and their assignment to devices',
+    up: (db) => {
+      db.exec(`
+        -- thresholds is a JSON object of tier lists per metric
+        CREATE TABLE threshold_profiles (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          thresholds TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE device_threshold_profiles (
+          device_id TEXT PRIMARY KEY,
+          profile_id TEXT NOT NULL REFERENCES threshold_profiles(id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Alert rules, alert states and alert history',
+    up: (db) => {
+      db.exec(`
+        -- device_id NULL applies the rule to every device
+        CREATE TABLE alert_rules (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          metric TEXT NOT NULL,
+          operator TEXT NOT NULL CHECK (operator IN ('>', '<')),
+          threshold REAL NOT NULL,
+          clear_threshold REAL,
+          duration_seconds INTEGER NOT NULL DEFAULT 0,
+          device_id TEXT,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          snoozed_until INTEGER,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+
+        -- Current state of a rule on a device, kept across restarts
+        CREATE TABLE alert_states (
+          rule_id TEXT NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+          device_id TEXT NOT NULL,
+          state TEXT NOT NULL CHECK (state IN ('pending', 'firing', 'resolved')),
+          since INTEGER NOT NULL,
+          value REAL NOT NULL,
+          acknowledged_at INTEGER,
+          PRIMARY KEY (rule_id, device_id)
+        );
+
+        CREATE TABLE alert_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          rule_id TEXT NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+          device_id TEXT NOT NULL,
+          event TEXT NOT NULL CHECK (event IN ('firing', 'resolved', 'acknowledged')),
+          value REAL,
+          at INTEGER NOT NULL
+        );
+
+        CREATE INDEX idx_alert_events_at ON alert_events(at DESC);
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: 'Alert notification settings and delivery log',
+    up: (db) => {
+      db.exec(`
+        -- notify_targets is a JSON array of HA notify services, e.g. ["mobile_app_pixel_8"]
+        ALTER TABLE alert_rules ADD COLUMN notify_targets TEXT NOT NULL DEFAULT '[]';
+        ALTER TABLE alert_rules ADD COLUMN message_template TEXT;
+        ALTER TABLE alert_rules ADD COLUMN quiet_hours_start TEXT;
+        ALTER TABLE alert_rules ADD COLUMN quiet_hours_end TEXT;
+        ALTER TABLE alert_rules ADD COLUMN notify_interval_minutes INTEGER NOT NULL DEFAULT 15;
+
+        CREATE TABLE notification_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          rule_id TEXT NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+          device_id TEXT NOT NULL,
+          event TEXT NOT NULL,
+          target TEXT NOT NULL,
+          status TEXT NOT NULL CHECK (status IN ('sent', 'failed', 'suppressed')),
+          reason TEXT,
+          message TEXT NOT NULL,
+          at INTEGER NOT NULL
+        );
+
+        CREATE INDEX idx_notification_log_rule_device ON notification_log(rule_id, device_id, at DESC);
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: 'Outbound webhooks and their dead-letter queue',
+    up: (db) => {
+      db.exec(`
+        -- events is a JSON array of "reading", "alert" and "daily_summary"
+        CREATE TABLE webhooks (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          url TEXT NOT NULL,
+          secret TEXT,
+          events TEXT NOT NULL DEFAULT '[]',
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+
+        -- Deliveries that failed after every retry, kept for inspection and redelivery
+        CREATE TABLE webhook_dead_letters (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+          event TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          attempts INTEGER NOT NULL,
+          last_error TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX idx_webhook_dead_letters_webhook ON webhook_dead_letters(webhook_id, created_at DESC);
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: 'Backfill jobs importing Home Assistant history',
+    up: (db) => {
+      db.exec(`
+        -- device_ids is a JSON array, NULL for every device; cursor is where the job continues
+        CREATE TABLE backfill_jobs (
+          id TEXT PRIMARY KEY,
+          start INTEGER NOT NULL,
+          end INTEGER NOT NULL,
+          source TEXT NOT NULL,
+          interval INTEGER NOT NULL,
+          device_ids TEXT,
+          status TEXT NOT NULL,
+          cursor INTEGER NOT NULL,
+          imported INTEGER NOT NULL DEFAULT 0,
+          skipped INTEGER NOT NULL DEFAULT 0,
+          error TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          finished_at INTEGER
+        );
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: 'Rollup watermark for incremental compaction',
+    up: (db) => {
+      db.exec(`
+        -- Hours before rolled_up_until are rolled up; writes to older hours move it back
+        CREATE TABLE compaction_state (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          rolled_up_until INTEGER NOT NULL
+        );
+        INSERT INTO compaction_state (id, rolled_up_until) VALUES (1, 0);
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: 'Prune boundaries, rows written into pruned buckets are merged into their rollups',
+    up: (db) => {
+      db.exec(`
+        -- Raw rows before raw_pruned_before and hourly rows before hourly_pruned_before were pruned
+        ALTER TABLE compaction_state ADD COLUMN raw_pruned_before INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE compaction_state ADD COLUMN hourly_pruned_before INTEGER NOT NULL DEFAULT 0;
+
+        -- After earlier compactions, the oldest remaining rows mark where pruning stopped
+        UPDATE compaction_state SET
+          raw_pruned_before = COALESCE((SELECT MIN(timestamp) / 3600000 * 3600000 FROM readings), 0),
+          hourly_pruned_before = COALESCE((SELECT MIN(bucket) / 86400000 * 86400000 FROM readings_hourly), 0)
+        WHERE EXISTS (SELECT 1 FROM compaction_log);
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export default MIGRATIONS;
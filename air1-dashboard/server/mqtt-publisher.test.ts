@@ -0,0 +1,241 @@
+/**
+ * MQTT Publisher tests
+ *
+ * Run the publisher against an in-process aedes broker on an ephemeral port.
+ * Brokers are restarted on the same port to simulate outages.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { type AddressInfo, type Server, createServer } from 'node:net';
+import { Aedes, type Client } from 'aedes';
+import { connectAsync } from 'mqtt';
+import { AirQualityDatabase } from './db';
+import { MqttPublisher } from './mqtt-publisher';
+import type { Device } from './types';
+
+const TOPIC_PREFIX = 'air1_test';
+const STATUS_TOPIC = `${TOPIC_PREFIX}/status`;
+const HA_STATUS_TOPIC = 'homeassistant/status';
+
+interface PublishedMessage {
+  topic: string;
+  payload: string;
+  retain: boolean;
+}
+
+interface TestBroker {
+  port: number;
+  // Everything published through the broker, $SYS topics left out
+  published: PublishedMessage[];
+  // Connected clients, e.g. to drop a connection
+  clients: Client[];
+  // Topics subscribed to, in order
+  subscriptions: string[];
+  close(): Promise<void>;
+}
+
+async function startBroker(port = 0): Promise<TestBroker> {
+  const aedes = await Aedes.createBroker();
+  const server: Server = createServer(aedes.handle);
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+
+  const broker: TestBroker = {
+    port: (server.address() as AddressInfo).port,
+    published: [],
+    clients: [],
+    subscriptions: [],
+    close: () => new Promise<void>((resolve) => aedes.close(() => server.close(() => resolve()))),
+  };
+
+  aedes.on('publish', (packet) => {
+    if (packet.topic.startsWith('$SYS')) return;
+    broker.published.push({ topic: packet.topic, payload: packet.payload.toString(), retain: packet.retain });
+  });
+  aedes.on('client', (client) => broker.clients.push(client));
+  aedes.on('subscribe', (subscriptions) => {
+    broker.subscriptions.push(...subscriptions.map((subscription) => subscription.topic));
+  });
+
+  return broker;
+}
+
+/**
+ * Retained messages of a topic filter, as a new subscriber receives them
+ */
+async function readRetained(port: number, topicFilter: string): Promise<Map<string, string>> {
+  const client = await connectAsync(`mqtt://127.0.0.1:${port}`);
+  const retained = new Map<string, string>();
+  client.on('message', (topic, payload, packet) => {
+    if (packet.retain) retained.set(topic, payload.toString());
+  });
+
+  await client.subscribeAsync(topicFilter);
+  await Bun.sleep(100);
+  await client.endAsync();
+  return retained;
+}
+
+async function publishAs(port: number, topic: string, payload: string): Promise<void> {
+  const client = await connectAsync(`mqtt://127.0.0.1:${port}`);
+  await client.publishAsync(topic, payload, { qos: 1 });
+  await client.endAsync();
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await Bun.sleep(10);
+  }
+}
+
+function device(deviceId: string, values: Partial<Device> = {}): Device {
+  return {
+    entity_id: `sensor.apollo_air_1_${deviceId}_co2`,
+    device_id: deviceId,
+    device_name: 'Bedroom AIR-1',
+    friendly_name: 'Bedroom AIR-1',
+    room: 'Bedroom',
+    manufacturer: 'Apollo Automation',
+    model: 'AIR-1',
+    sw_version: '25.1.0',
+    co2: 612,
+    pm25: 3.2,
+    ...values,
+  };
+}
+
+function stateTopic(deviceId: string): string {
+  return `${TOPIC_PREFIX}/${deviceId}/state`;
+}
+
+function discoveryTopic(deviceId: string, key: string): string {
+  return `homeassistant/sensor/air1_dashboard_${deviceId}/${key}/config`;
+}
+
+describe('MqttPublisher', () => {
+  let db: AirQualityDatabase;
+  let broker: TestBroker;
+  let publisher: MqttPublisher;
+
+  function createPublisher(port: number): MqttPublisher {
+    return new MqttPublisher(
+      db,
+      { broker: `mqtt://127.0.0.1:${port}`, topic_prefix: TOPIC_PREFIX, discovery: true },
+      // Short backoff so reconnects happen within a test
+      50,
+    );
+  }
+
+  beforeEach(async () => {
+    db = new AirQualityDatabase(':memory:');
+    broker = await startBroker();
+    publisher = createPublisher(broker.port);
+  });
+
+  afterEach(async () => {
+    await publisher.stop();
+    await broker.close();
+    db.close();
+  });
+
+  test('publishes retained state, discovery configs and availability', async () => {
+    publisher.start();
+    await waitFor(() => publisher.isConnected());
+    publisher.publish([device('2c77c8')]);
+    await waitFor(() => broker.published.some((message) => message.topic === stateTopic('2c77c8')));
+
+    const retained = await readRetained(broker.port, '#');
+
+    const state = JSON.parse(retained.get(stateTopic('2c77c8')) ?? '{}');
+    expect(state.device_id).toBe('2c77c8');
+    expect(state.co2).toBe(612);
+    expect(state.status).toBeDefined();
+
+    const config = JSON.parse(retained.get(discoveryTopic('2c77c8', 'co2')) ?? '{}');
+    expect(config.state_topic).toBe(stateTopic('2c77c8'));
+    expect(config.availability_topic).toBe(STATUS_TOPIC);
+    expect(config.value_template).toBe('{{ value_json.co2 }}');
+    // Only sensors present in the state are announced
+    expect(retained.has(discoveryTopic('2c77c8', 'humidity'))).toBe(false);
+
+    expect(retained.get(STATUS_TOPIC)).toBe('online');
+  });
+
+  test('the last will marks the dashboard offline when the connection drops, reconnecting marks it online', async () => {
+    publisher.start();
+    await waitFor(() => publisher.isConnected());
+    publisher.publish([device('2c77c8')]);
+    await waitFor(() => broker.published.some((message) => message.topic === stateTopic('2c77c8')));
+    broker.published.length = 0;
+
+    // Drop the connection without a DISCONNECT, as a crash or network failure would
+    broker.clients[0].conn.destroy();
+
+    await waitFor(() => broker.published.some((message) => message.topic === STATUS_TOPIC));
+    expect(broker.published[0]).toEqual({ topic: STATUS_TOPIC, payload: 'offline', retain: true });
+
+    // After reconnecting the dashboard is online again and the state is republished
+    await waitFor(() => broker.published.some((message) => message.topic === stateTopic('2c77c8')));
+    expect(publisher.isConnected()).toBe(true);
+    expect((await readRetained(broker.port, STATUS_TOPIC)).get(STATUS_TOPIC)).toBe('online');
+  });
+
+  test('stop marks the dashboard offline before disconnecting', async () => {
+    publisher.start();
+    await waitFor(() => publisher.isConnected());
+
+    await publisher.stop();
+
+    expect(publisher.isConnected()).toBe(false);
+    expect((await readRetained(broker.port, STATUS_TOPIC)).get(STATUS_TOPIC)).toBe('offline');
+  });
+
+  test('resubscribes to the Home Assistant status after the broker restarts', async () => {
+    publisher.start();
+    await waitFor(() => broker.subscriptions.includes(HA_STATUS_TOPIC));
+    publisher.publish([device('2c77c8')]);
+    await waitFor(() => broker.published.some((message) => message.topic === discoveryTopic('2c77c8', 'co2')));
+
+    const port = broker.port;
+    await broker.close();
+    await waitFor(() => !publisher.isConnected());
+    broker = await startBroker(port);
+
+    await waitFor(() => broker.subscriptions.includes(HA_STATUS_TOPIC));
+    await waitFor(() => broker.published.some((message) => message.topic === stateTopic('2c77c8')));
+    broker.published.length = 0;
+
+    // A Home Assistant restart announces itself with its birth message
+    await publishAs(port, HA_STATUS_TOPIC, 'online');
+
+    await waitFor(() => broker.published.some((message) => message.topic === discoveryTopic('2c77c8', 'co2')));
+  });
+
+  test('keeps only the latest state of each device while offline and publishes it after connecting', async () => {
+    const port = broker.port;
+    await broker.close();
+
+    publisher.start();
+    publisher.publish([device('2c77c8', { co2: 500 })]);
+    publisher.publish([device('2c77c8', { co2: 700 }), device('a1b2c3', { co2: 450 })]);
+    publisher.publish([device('2c77c8', { co2: 900 })]);
+
+    broker = await startBroker(port);
+    await waitFor(() => publisher.isConnected());
+    await waitFor(() =>
+      [stateTopic('2c77c8'), stateTopic('a1b2c3')].every((topic) =>
+        broker.published.some((message) => message.topic === topic),
+      ),
+    );
+    // Give queued publishes, if there were any, time to arrive
+    await Bun.sleep(100);
+
+    const states = (deviceId: string) =>
+      broker.published
+        .filter((message) => message.topic === stateTopic(deviceId))
+        .map((message) => JSON.parse(message.payload).co2);
+    expect(states('2c77c8')).toEqual([900]);
+    expect(states('a1b2c3')).toEqual([450]);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * MQTT Publisher
+ *
+ * Publishes every device's readings together with its derived metrics (AQI,
+ * status, dew point, ...) as retained JSON to <topic_prefix>/<device>/state,
+ * optionally with Home Assistant MQTT discovery configs. The connection is
+ * re-established with exponential backoff; while offline only the latest state
+ * of each device is kept, and published once the broker is back.
+ */
+
+import { type MqttClient, connect } from 'mqtt';
+import type { AirQualityDatabase } from './db';
+import { deriveMetrics } from './derived-entities';
+import type { Device } from './types';
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 60000;
+
+const DISCOVERY_PREFIX = 'homeassistant';
+
+// Home Assistant's birth and last will messages
+const HA_STATUS_TOPIC = `${DISCOVERY_PREFIX}/status`;
+
+export interface MqttOptions {
+  // Broker URL, e.g. mqtt://core-mosquitto:1883
+  broker: string;
+  username?: string;
+  password?: string;
+  topic_prefix: string;
+  // Publish Home Assistant MQTT discovery configs
+  discovery: boolean;
+}
+
+interface DiscoveredSensor {
+  name: string;
+  unit?: string;
+  device_class?: string;
+  // Numeric sensors get state_class measurement, enum sensors none
+  numeric: boolean;
+  diagnostic?: boolean;
+}
+
+// Sensors announced through discovery, keyed by their field in the state payload
+const DISCOVERY_SENSORS: Record<string, DiscoveredSensor> = {
+  co2: { name: 'CO2', unit: 'ppm', device_class: 'carbon_dioxide', numeric: true },
+  pm25: { name: 'PM2.5', unit: 'µg/m³', device_class: 'pm25', numeric: true },
+  pm10: { name: 'PM10', unit: 'µg/m³', device_class: 'pm10', numeric: true },
+  pm_1um: { name: 'PM1', unit: 'µg/m³', device_class: 'pm1', numeric: true },
+  pm_4um: { name: 'PM4', unit: 'µg/m³', numeric: true },
+  humidity: { name: 'Humidity', unit: '%', device_class: 'humidity', numeric: true },
+  temperature: { name: 'Temperature', unit: '°C', device_class: 'temperature', numeric: true },
+  pressure: { name: 'Pressure', unit: 'hPa', device_class: 'atmospheric_pressure', numeric: true },
+  voc: { name: 'VOC Index', numeric: true },
+  nox: { name: 'NOx Index', numeric: true },
+  rssi: { name: 'WiFi Signal', unit: 'dBm', device_class: 'signal_strength', numeric: true, diagnostic: true },
+  aqi: { name: 'AQI', device_class: 'aqi', numeric: true },
+  dew_point: { name: 'Dew Point', unit: '°C', device_class: 'temperature', numeric: true },
+  dominant_pollutant: { name: 'Dominant Pollutant', numeric: false },
+  status: { name: 'Air Quality Status', numeric: false },
+  particle_source: { name: 'Particle Source', numeric: false },
+  mold_risk: { name: 'Mold Risk', numeric: false },
+};
+
+/**
+ * Safely extract error message from unknown error type
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+}
+
+export class MqttPublisher {
+  private client: MqttClient | null = null;
+  private connected = false;
+  private stopped = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Latest state of every device, republished on (re)connect
+  private latest = new Map<string, Device>();
+  // Devices whose discovery configs were sent on the current connection
+  private discovered = new Set<string>();
+
+  /**
+   * @param db - Threshold profiles the derived status is classified with
+   * @param options - Broker connection and topics
+   * @param reconnectBaseMs - Delay before the first reconnect, doubled for every further one
+   */
+  constructor(
+    private readonly db: AirQualityDatabase,
+    private readonly options: MqttOptions,
+    private readonly reconnectBaseMs = RECONNECT_BASE_MS,
+  ) {}
+
+  /**
+   * True while connected to the broker
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Connect to the broker
+   */
+  start(): void {
+    if (this.client) return;
+    this.stopped = false;
+
+    const client = connect(this.options.broker, {
+      username: this.options.username || undefined,
+      password: this.options.password || undefined,
+      clientId: `air1_dashboard_${crypto.randomUUID().slice(0, 8)}`,
+      connectTimeout: 10 * 1000,
+      // Reconnects are scheduled with backoff below
+      reconnectPeriod: 0,
+      // States are republished from the latest values instead
+      queueQoSZero: false,
+      will: { topic: this.availabilityTopic(), payload: Buffer.from('offline'), qos: 1, retain: true },
+    });
+    this.client = client;
+
+    client.on('connect', () => {
+      console.log(`[MQTT] Connected to ${this.options.broker}`);
+      this.connected = true;
+      this.reconnectAttempts = 0;
+      this.discovered.clear();
+      client.publish(this.availabilityTopic(), 'online', { qos: 1, retain: true });
+      if (this.options.discovery) {
+        // Subscriptions of a clean session are gone after a reconnect
+        client.subscribe(HA_STATUS_TOPIC, { qos: 1 });
+      }
+      this.publish([...this.latest.values()]);
+    });
+
+    client.on('message', (topic, payload) => {
+      if (topic !== HA_STATUS_TOPIC || payload.toString() !== 'online') return;
+      // Home Assistant (re)started, announce the sensors again in case their retained configs were cleared
+      console.log('[MQTT] Home Assistant is online, republishing discovery configs');
+      this.discovered.clear();
+      this.publish([...this.latest.values()]);
+    });
+
+    client.on('close', () => {
+      if (this.connected) console.warn('[MQTT] Connection lost');
+      this.connected = false;
+      this.scheduleReconnect();
+    });
+
+    client.on('error', (error) => {
+      console.error('[MQTT] Error:', getErrorMessage(error));
+    });
+  }
+
+  /**
+   * Mark the dashboard offline and disconnect
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const client = this.client;
+    this.client = null;
+    if (!client) return;
+
+    const wasConnected = this.connected;
+    this.connected = false;
+    try {
+      if (wasConnected) {
+        await client.publishAsync(this.availabilityTopic(), 'offline', { qos: 1, retain: true });
+      }
+      await client.endAsync();
+    } catch (error: unknown) {
+      console.error('[MQTT] Error while disconnecting:', getErrorMessage(error));
+    }
+  }
+
+  /**
+   * Publish the state of devices, kept for later while disconnected
+   */
+  publish(devices: Device[]): void {
+    for (const device of devices) {
+      this.latest.set(device.device_id, device);
+      if (!this.connected || !this.client) continue;
+
+      const state = { ...device, ...deriveMetrics(this.db, device) };
+      if (this.options.discovery && !this.discovered.has(device.device_id)) {
+        this.publishDiscovery(device, state);
+        this.discovered.add(device.device_id);
+      }
+
+      this.client.publish(this.stateTopic(device.device_id), JSON.stringify(state), { retain: true }, (error) => {
+        if (error) console.error(`[MQTT] Failed to publish ${device.device_id}:`, getErrorMessage(error));
+      });
+    }
+  }
+
+  /**
+   * Announce the sensors of a device to Home Assistant
+   */
+  private publishDiscovery(device: Device, state: Record<string, unknown>): void {
+    const nodeId = `air1_dashboard_${slugify(device.device_id)}`;
+
+    for (const [key, sensor] of Object.entries(DISCOVERY_SENSORS)) {
+      if (state[key] === undefined) continue;
+
+      // Entity IDs start with air1_dashboard_ so they are not read back as AIR-1 sensors
+      const objectId = `air1_dashboard_mqtt_${slugify(device.device_id)}_${key}`;
+      const config = {
+        name: sensor.name,
+        unique_id: `${nodeId}_${key}`,
+        object_id: objectId,
+        default_entity_id: `sensor.${objectId}`,
+        state_topic: this.stateTopic(device.device_id),
+        value_template: `{{ value_json.${key} }}`,
+        availability_topic: this.availabilityTopic(),
+        unit_of_measurement: sensor.unit,
+        device_class: sensor.numeric ? sensor.device_class : undefined,
+        state_class: sensor.numeric ? 'measurement' : undefined,
+        entity_category: sensor.diagnostic ? 'diagnostic' : undefined,
+        device: {
+          identifiers: [nodeId],
+          name: `${device.device_name || device.device_id} (Air-1 Dashboard)`,
+          manufacturer: 'Apollo Automation',
+          model: 'AIR-1',
+          suggested_area: device.room ?? undefined,
+        },
+      };
+
+      this.client?.publish(`${DISCOVERY_PREFIX}/sensor/${nodeId}/${key}/config`, JSON.stringify(config), {
+        retain: true,
+      });
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer || !this.client) return;
+
+    const delay = Math.min(this.reconnectBaseMs * 2 ** this.reconnectAttempts, RECONNECT_MAX_MS);
+    this.reconnectAttempts++;
+    console.log(`[MQTT] Reconnecting in ${Math.round(delay / 1000)}s`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.client?.reconnect();
+    }, delay);
+  }
+
+  private stateTopic(deviceId: string): string {
+    return `${this.options.topic_prefix}/${slugify(deviceId)}/state`;
+  }
+
+  private availabilityTopic(): string {
+    return `${this.options.topic_prefix}/status`;
+  }
+}
+
+export default MqttPublisher;
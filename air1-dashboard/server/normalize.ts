@@ -0,0 +1,121 @@
+/**
+ * Value Normalization
+ *
+ * The single pipeline every sensor value goes through, live or historical:
+ *   1. parse the HA state
+ *   2. convert to the dashboard's unit (°C, hPa)
+ *   3. apply the calibration offset (offsets are defined in the converted unit)
+ *   4. round to VALUE_DECIMALS
+ */
+
+import type { HAHistoryRecord, NormalizedValue, SensorType, ValueCorrection } from './types';
+
+const VALUE_DECIMALS = 2;
+
+/**
+ * Conversions to the unit the dashboard expects, per sensor type and source unit
+ */
+const UNIT_CONVERSIONS: Partial<Record<SensorType, { to: string; from: Record<string, (v: number) => number> }>> = {
+  temperature: {
+    to: '°C',
+    from: {
+      '°F': (v) => ((v - 32) * 5) / 9,
+      K: (v) => v - 273.15,
+    },
+  },
+  pressure: {
+    to: 'hPa',
+    from: {
+      Pa: (v) => v / 100,
+      kPa: (v) => v * 10,
+      mbar: (v) => v,
+      bar: (v) => v * 1000,
+      psi: (v) => v * 68.9476,
+      inHg: (v) => v * 33.8639,
+      mmHg: (v) => v * 1.33322,
+    },
+  },
+};
+
+function round(value: number): number {
+  const factor = 10 ** VALUE_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Run a raw HA state through unit conversion, calibration offset and rounding
+ * @param sensorType - Sensor type of the entity (null if unknown)
+ * @param state - Raw HA state string
+ * @param unit - unit_of_measurement of the entity
+ * @param offset - Calibration offset in effect, in the converted unit
+ * @param offsetEntity - Entity the offset came from
+ */
+export function normalizeValue(
+  sensorType: SensorType | null,
+  state: string,
+  unit: string | null,
+  offset: number | null = null,
+  offsetEntity: string | null = null,
+): NormalizedValue {
+  const correction: ValueCorrection = { unit_conversion: null, offset: null, offset_entity: null };
+
+  const numericValue = Number.parseFloat(state);
+  if (Number.isNaN(numericValue)) {
+    return { value: null, unit, correction };
+  }
+
+  let value = numericValue;
+  let normalizedUnit = unit;
+
+  // Unit conversion BEFORE applying offset
+  const conversion = sensorType ? UNIT_CONVERSIONS[sensorType] : undefined;
+  const convert = unit && conversion ? conversion.from[unit] : undefined;
+  if (conversion && convert && unit) {
+    value = convert(value);
+    normalizedUnit = conversion.to;
+    correction.unit_conversion = { from: unit, to: conversion.to };
+  }
+
+  // Apply calibration offset AFTER unit conversion
+  if (offset != null) {
+    value += offset;
+    correction.offset = offset;
+    correction.offset_entity = offsetEntity;
+  }
+
+  return { value: round(value), unit: normalizedUnit, correction };
+}
+
+/**
+ * Entity ID of the calibration offset belonging to a sensor
+ * e.g. sensor.apollo_air_1_2c77c8_sen55_temperature
+ *   -> number.apollo_air_1_2c77c8_sen55_temperature_offset
+ */
+export function offsetEntityId(sensorEntityId: string): string {
+  return `number.${sensorEntityId.replace(/^sensor\./, '')}_offset`;
+}
+
+/**
+ * Offset in effect at a point in time, from the offset entity's own history
+ * @param offsets - Offset entity history, oldest first
+ * @param timestamp - ISO timestamp of the value being corrected
+ * @returns Offset, or null if no offset was set at that time
+ */
+export function offsetAt(offsets: HAHistoryRecord[], timestamp: string): number | null {
+  const time = Date.parse(timestamp);
+  let current: number | null = null;
+
+  for (const record of offsets) {
+    if (Date.parse(record.last_changed) > time) break;
+    const value = Number.parseFloat(record.state);
+    current = Number.isNaN(value) ? null : value;
+  }
+
+  return current;
+}
+
+export default {
+  normalizeValue,
+  offsetEntityId,
+  offsetAt,
+};
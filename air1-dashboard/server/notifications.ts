@@ -0,0 +1,288 @@
+/**
+ * Alert Notifications
+ *
+ * Delivers firing and resolved alerts to the Home Assistant notify services of
+ * each rule (e.g. the companion app's notify.mobile_app_*). Notifications are
+ * held back while a rule is snoozed, during its quiet hours (in Home Assistant's
+ * time zone), and when the rule notified about the same device less than its
+ * notify interval ago. A firing held back by quiet hours is delivered once they
+ * end if the alert is still firing. A resolution only goes to targets that got
+ * the firing notification. Every delivery attempt, including suppressed ones,
+ * is written to the notification log.
+ */
+
+import type { AirQualityDatabase, AlertEvent, AlertRule, NotificationLogEntry } from './db';
+import { METRIC_UNITS } from './db';
+import { callService } from './ha-client';
+import { classify } from './tiers';
+import type { Device } from './types';
+
+const METRIC_LABELS: Record<string, string> = {
+  co2: 'CO₂',
+  pm25: 'PM2.5',
+  pm10: 'PM10',
+  pm_1um: 'PM1',
+  pm_4um: 'PM4',
+  humidity: 'Humidity',
+  temperature: 'Temperature',
+  voc: 'VOC',
+  nox: 'NOx',
+  pressure: 'Pressure',
+  rssi: 'Signal',
+  aqi: 'AQI',
+};
+
+const FIRING_TEMPLATE = '{device}: {metric} is {value}{unit} ({label}). {advice}';
+const FIRING_TEMPLATE_WITHOUT_TIER = '{device}: {metric} is {value}{unit}.';
+const RESOLVED_TEMPLATE = '{device}: {metric} is back to {value}{unit}.';
+
+// How often firings held back by quiet hours are checked for delivery
+const HELD_CHECK_INTERVAL_MS = 60 * 1000;
+
+// What a notification is built from: an alert event, or the state of an alert still firing
+type NotifyEvent = Pick<AlertEvent, 'rule_id' | 'device_id' | 'event' | 'value'>;
+
+export interface NotifyPayload {
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export type NotifySender = (target: string, payload: NotifyPayload) => Promise<void>;
+
+/**
+ * Safely extract error message from unknown error type
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+/**
+ * Replace {placeholders} with values, unknown placeholders are left as they are
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * Minutes since midnight of a time in a time zone
+ * @param timeZone - IANA time zone, the server's own if not given
+ */
+function minutesOfDay(date: Date, timeZone?: string): number {
+  if (!timeZone) return date.getHours() * 60 + date.getMinutes();
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return part('hour') * 60 + part('minute');
+}
+
+/**
+ * Whether a time falls within quiet hours. Windows may span midnight (22:00-07:00).
+ * @param start - Local time "HH:MM"
+ * @param end - Local time "HH:MM", exclusive
+ * @param timeZone - IANA time zone of start and end, the server's own if not given
+ */
+export function isQuietTime(start: string | null, end: string | null, date: Date, timeZone?: string): boolean {
+  if (!start || !end) return false;
+
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  const now = minutesOfDay(date, timeZone);
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+
+  return from <= to ? now >= from && now < to : now >= from || now < to;
+}
+
+export class AlertNotifier {
+  // Home Assistant's time zone, quiet hours use the server's until it is known
+  private timeZone: string | undefined;
+  private heldTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * @param db - Rules, threshold profiles and the notification log
+   * @param getDevice - Current device, for its name and room in messages
+   * @param send - Delivers a notification to a notify service
+   */
+  constructor(
+    private readonly db: AirQualityDatabase,
+    private readonly getDevice: (deviceId: string) => Device | undefined,
+    private readonly send: NotifySender = async (target, payload) => {
+      await callService('notify', target, { ...payload });
+    },
+  ) {}
+
+  /**
+   * Set the time zone quiet hours are in
+   * @param timeZone - IANA time zone, e.g. the time_zone of Home Assistant's configuration
+   */
+  setTimeZone(timeZone: string): void {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      this.timeZone = timeZone;
+    } catch {
+      console.error(`[Notify] Unknown time zone ${timeZone}, quiet hours stay in server time`);
+    }
+  }
+
+  /**
+   * Check every minute for firings held back by quiet hours that ended
+   */
+  start(): void {
+    if (this.heldTimer) return;
+    this.heldTimer = setInterval(() => {
+      this.deliverHeld().catch((error: unknown) => {
+        console.error('[Notify] Failed to deliver held notifications:', getErrorMessage(error));
+      });
+    }, HELD_CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.heldTimer) {
+      clearInterval(this.heldTimer);
+      this.heldTimer = null;
+    }
+  }
+
+  /**
+   * Deliver an alert event to the rule's notify targets. Acknowledgements are not delivered.
+   * @param targets - Targets to deliver to, all of the rule's by default
+   */
+  async notify(
+    event: NotifyEvent,
+    rule: AlertRule,
+    now = Date.now(),
+    targets = rule.notify_targets,
+  ): Promise<NotificationLogEntry[]> {
+    if (event.event === 'acknowledged' || targets.length === 0) return [];
+
+    const payload = this.buildPayload(event, rule);
+    const reason = this.suppressionReason(event, rule, now);
+
+    const entries: NotificationLogEntry[] = [];
+    for (const target of targets) {
+      const entry = {
+        rule_id: rule.id,
+        device_id: event.device_id,
+        event: event.event,
+        target,
+        message: payload.message,
+        at: now,
+      };
+
+      const targetReason =
+        reason ??
+        (event.event === 'resolved' && !this.firingDelivered(rule, event, target) ? 'firing_not_notified' : null);
+      if (targetReason) {
+        entries.push(this.db.insertNotification({ ...entry, status: 'suppressed', reason: targetReason }));
+        continue;
+      }
+
+      try {
+        await this.send(target, payload);
+        entries.push(this.db.insertNotification({ ...entry, status: 'sent', reason: null }));
+      } catch (error: unknown) {
+        console.error(`[Notify] Failed to notify ${target}:`, getErrorMessage(error));
+        entries.push(this.db.insertNotification({ ...entry, status: 'failed', reason: getErrorMessage(error) }));
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Deliver the firings held back by quiet hours that have ended, for alerts
+   * still firing. Firings of alerts that resolved in the meantime are dropped,
+   * their resolution was not delivered either.
+   */
+  async deliverHeld(now = Date.now()): Promise<NotificationLogEntry[]> {
+    const entries: NotificationLogEntry[] = [];
+
+    for (const state of this.db.getAlertStates()) {
+      if (state.state !== 'firing') continue;
+      const rule = this.db.getAlertRule(state.rule_id);
+      if (!rule?.enabled) continue;
+      // Still held while quiet or snoozed
+      if (isQuietTime(rule.quiet_hours_start, rule.quiet_hours_end, new Date(now), this.timeZone)) continue;
+      if (rule.snoozed_until !== null && rule.snoozed_until > now) continue;
+
+      // Targets whose latest firing attempt of this episode was held back by quiet hours
+      const held = rule.notify_targets.filter((target) => {
+        const last = this.db.getLastFiringNotification(rule.id, state.device_id, target);
+        return last?.status === 'suppressed' && last.reason === 'quiet_hours' && last.at >= state.since;
+      });
+      if (held.length === 0) continue;
+
+      console.log(`[Notify] Quiet hours of ${rule.name} ended, delivering held firing for ${state.device_id}`);
+      const event: NotifyEvent = { rule_id: rule.id, device_id: state.device_id, event: 'firing', value: state.value };
+      entries.push(...(await this.notify(event, rule, now, held)));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Why the event must not be delivered now, or null to deliver it
+   */
+  private suppressionReason(event: NotifyEvent, rule: AlertRule, now: number): string | null {
+    if (rule.snoozed_until !== null && rule.snoozed_until > now) return 'snoozed';
+    if (isQuietTime(rule.quiet_hours_start, rule.quiet_hours_end, new Date(now), this.timeZone)) return 'quiet_hours';
+    if (event.event === 'resolved') return null;
+
+    const lastSent = this.db.getLastSentNotification(rule.id, event.device_id);
+    if (lastSent && now - lastSent.at < rule.notify_interval_minutes * 60 * 1000) return 'rate_limited';
+
+    return null;
+  }
+
+  /**
+   * Whether the firing notification of the alert's current episode reached the target.
+   * Every episode logs a firing attempt per target, so the latest one belongs to this episode.
+   */
+  private firingDelivered(rule: AlertRule, event: NotifyEvent, target: string): boolean {
+    return this.db.getLastFiringNotification(rule.id, event.device_id, target)?.status === 'sent';
+  }
+
+  private buildPayload(event: NotifyEvent, rule: AlertRule): NotifyPayload {
+    const device = this.getDevice(event.device_id);
+    const value = event.value ?? 0;
+    const tier = classify(this.db, event.device_id, rule.metric, value);
+    const unit = METRIC_UNITS[rule.metric] ?? '';
+
+    const values: Record<string, string> = {
+      rule: rule.name,
+      event: event.event,
+      device: device?.device_name || device?.friendly_name || event.device_id,
+      room: device?.room || '',
+      metric: METRIC_LABELS[rule.metric] ?? rule.metric,
+      value: String(Math.round(value * 10) / 10),
+      unit: unit && unit !== '%' ? ` ${unit}` : unit,
+      threshold: String(rule.threshold),
+      label: tier?.label ?? '',
+      advice: tier?.advice ?? '',
+    };
+
+    const template =
+      rule.message_template ??
+      (event.event === 'resolved' ? RESOLVED_TEMPLATE : tier ? FIRING_TEMPLATE : FIRING_TEMPLATE_WITHOUT_TIER);
+
+    return {
+      title: event.event === 'firing' ? `Air quality alert: ${rule.name}` : `Resolved: ${rule.name}`,
+      message: renderTemplate(template, values).trim(),
+      data: {
+        // Lets the companion app replace the firing notification with the resolved one
+        tag: `air1_dashboard_${rule.id}_${event.device_id}`,
+      },
+    };
+  }
+}
+
+export default AlertNotifier;
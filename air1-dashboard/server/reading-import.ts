@@ -0,0 +1,430 @@
+/**
+ * Reading Import
+ *
+ * Imports readings for POST /api/storage/import, either streamed as
+ * newline-delimited JSON or as the readings array of a JSON export document.
+ * Each reading is validated and rejected with a reason if it does not fit the
+ * schema; readings colliding with stored ones are handled by a conflict
+ * strategy. Readings are written in batches, each in one transaction, so
+ * multi-year exports are imported without holding them in memory; the keys
+ * used to count duplicates within the import go to a temporary table. A dry
+ * run reports what an import would do without writing anything. Progress
+ * of the running import is kept for GET /api/storage/import/progress.
+ */
+
+import type { AirQualityDatabase, ConflictStrategy, ImportOutcome, ReadingInsert } from './db';
+import type { SensorType } from './types';
+
+// Readings written per transaction
+const BATCH_SIZE = 500;
+
+// NDJSON lines longer than this are skipped as errors instead of being buffered
+const MAX_LINE_LENGTH = 1024 * 1024;
+
+// Progress is logged every this many readings
+const LOG_INTERVAL = 10000;
+
+// Rejected readings listed in the result, the rest are only counted
+const MAX_REJECTED = 100;
+
+// Numeric values a reading's data may hold
+const SENSOR_TYPES: Record<SensorType, true> = {
+  pm25: true,
+  pm10: true,
+  pm_1um: true,
+  pm_4um: true,
+  co2: true,
+  voc: true,
+  humidity: true,
+  temperature: true,
+  pressure: true,
+  nox: true,
+  rssi: true,
+};
+
+// Text values a reading's data may hold besides the sensor types
+const TEXT_FIELDS = ['vocQuality', 'uptime'];
+
+const NUMBER_PATTERN = /^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/;
+
+/**
+ * A row of an import: the parsed reading, or why it could not be read
+ */
+export type ImportRow = { value: unknown } | { error: string };
+
+export interface ImportOptions {
+  conflict: ConflictStrategy;
+  // Report what would be imported without writing anything
+  dry_run: boolean;
+}
+
+export interface RejectedReading {
+  // Position in the import, starting at 1
+  row: number;
+  reason: string;
+}
+
+export interface ImportProgress {
+  running: boolean;
+  dry_run: boolean;
+  started_at: number | null;
+  finished_at: number | null;
+  // Readings read so far, valid or not
+  processed: number;
+  imported: number;
+  errors: number;
+}
+
+// Readings waiting to be written, by position in the import
+type ImportBatch = { row: number; reading: ReadingInsert }[];
+
+export interface ImportResult {
+  dry_run: boolean;
+  conflict: ConflictStrategy;
+  total: number;
+  // New readings, including ones kept next to a conflicting reading
+  imported: number;
+  overwritten: number;
+  skipped: number;
+  // Readings that collided with a stored reading
+  conflicts: number;
+  // Readings that collided with an earlier reading of the same import, also counted in conflicts
+  duplicates: number;
+  // Rejected readings
+  errors: number;
+  rejected: RejectedReading[];
+}
+
+// Helper to generate unique ID using Web Crypto API
+function generateId(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Safely extract error message from unknown error type
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+/**
+ * Validate an imported reading
+ * @returns The reading to insert, or why it is rejected
+ */
+function validateReading(value: unknown): { reading: ReadingInsert } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'Expected a JSON object' };
+  }
+
+  const input = value as Record<string, unknown>;
+  if (typeof input.room !== 'string' || !input.room.trim()) {
+    return { error: 'Missing room' };
+  }
+
+  const timestamp =
+    typeof input.timestamp === 'string' && !NUMBER_PATTERN.test(input.timestamp)
+      ? Date.parse(input.timestamp)
+      : Number(input.timestamp);
+  if (input.timestamp === undefined || input.timestamp === null || !Number.isFinite(timestamp) || timestamp <= 0) {
+    return { error: 'Invalid timestamp, expected epoch milliseconds or an ISO date' };
+  }
+
+  if (input.device_id !== undefined && input.device_id !== null && typeof input.device_id !== 'string') {
+    return { error: 'device_id must be a string or null' };
+  }
+
+  let data = input.data;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return { error: 'data is not valid JSON' };
+    }
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { error: 'Missing data' };
+  }
+
+  for (const [key, field] of Object.entries(data)) {
+    if (key in SENSOR_TYPES) {
+      const numeric =
+        (typeof field === 'number' && Number.isFinite(field)) ||
+        (typeof field === 'string' && (field === '' || NUMBER_PATTERN.test(field)));
+      if (!numeric) {
+        return { error: `Invalid value for ${key}: ${JSON.stringify(field)}` };
+      }
+    } else if (TEXT_FIELDS.includes(key)) {
+      if (typeof field !== 'string') {
+        return { error: `${key} must be a string` };
+      }
+    } else {
+      return { error: `Unknown data key: ${key}` };
+    }
+  }
+
+  return {
+    reading: {
+      id: typeof input.id === 'string' && input.id ? input.id : generateId(),
+      device_id: (input.device_id as string | null | undefined) || null,
+      room: input.room,
+      timestamp: Math.round(timestamp),
+      data: data as Record<string, unknown>,
+    },
+  };
+}
+
+/**
+ * Keys a reading collides with another one by, the same as findConflictingReading()
+ */
+function readingKeys(reading: ReadingInsert): string[] {
+  return [`id:${reading.id}`, `at:${JSON.stringify([reading.device_id, reading.timestamp])}`];
+}
+
+/**
+ * Split a byte stream into lines. Empty lines are skipped; lines longer than
+ * MAX_LINE_LENGTH are dropped and reported as null.
+ */
+export async function* readLines(stream: AsyncIterable<Uint8Array | string>): AsyncGenerator<string | null> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let skipping = false;
+
+  const split = function* (text: string): Generator<string | null> {
+    const lines = (buffer + text).split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (skipping) {
+        // Remainder of an overlong line
+        skipping = false;
+      } else if (line.trim()) {
+        yield line.trim();
+      }
+    }
+
+    if (buffer.length > MAX_LINE_LENGTH) {
+      // Report the line once and drop the rest of it as it arrives
+      if (!skipping) yield null;
+      skipping = true;
+      buffer = '';
+    }
+  };
+
+  for await (const chunk of stream) {
+    yield* split(typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }));
+  }
+  yield* split(`${decoder.decode()}\n`);
+}
+
+/**
+ * Parse NDJSON lines into import rows
+ */
+export async function* parseNdjson(lines: AsyncIterable<string | null>): AsyncGenerator<ImportRow> {
+  for await (const line of lines) {
+    if (line === null) {
+      yield { error: 'Line longer than 1 MB' };
+      continue;
+    }
+    try {
+      yield { value: JSON.parse(line) };
+    } catch {
+      yield { error: 'Invalid JSON' };
+    }
+  }
+}
+
+export class ReadingImporter {
+  private progress: ImportProgress = {
+    running: false,
+    dry_run: false,
+    started_at: null,
+    finished_at: null,
+    processed: 0,
+    imported: 0,
+    errors: 0,
+  };
+  private claimed = false;
+
+  /**
+   * @param db - Database the readings are imported into
+   */
+  constructor(private readonly db: AirQualityDatabase) {}
+
+  /**
+   * Progress of the running or last import
+   */
+  getProgress(): ImportProgress {
+    return { ...this.progress };
+  }
+
+  isRunning(): boolean {
+    return this.claimed || this.progress.running;
+  }
+
+  /**
+   * Reserve the importer for a request while its body is opened, so a second
+   * import is refused before the first one starts. Release it once the import
+   * finished or the request failed.
+   * @returns false if an import is already running or reserved
+   */
+  claim(): boolean {
+    if (this.isRunning()) return false;
+    this.claimed = true;
+    return true;
+  }
+
+  release(): void {
+    this.claimed = false;
+  }
+
+  /**
+   * Validate and import readings in batched transactions
+   */
+  async import(rows: AsyncIterable<ImportRow> | Iterable<ImportRow>, options: ImportOptions): Promise<ImportResult> {
+    if (this.progress.running) {
+      throw new Error('An import is already running');
+    }
+
+    const startedAt = Date.now();
+    const progress: ImportProgress = {
+      running: true,
+      dry_run: options.dry_run,
+      started_at: startedAt,
+      finished_at: null,
+      processed: 0,
+      imported: 0,
+      errors: 0,
+    };
+    this.progress = progress;
+
+    const result: ImportResult = {
+      dry_run: options.dry_run,
+      conflict: options.conflict,
+      total: 0,
+      imported: 0,
+      overwritten: 0,
+      skipped: 0,
+      conflicts: 0,
+      duplicates: 0,
+      errors: 0,
+      rejected: [],
+    };
+
+    const reject = (row: number, reason: string) => {
+      result.errors++;
+      progress.errors++;
+      if (result.rejected.length < MAX_REJECTED) result.rejected.push({ row, reason });
+    };
+
+    const count = (outcome: ImportOutcome) => {
+      if (outcome === 'overwritten') result.overwritten++;
+      else if (outcome === 'skipped') result.skipped++;
+      else result.imported++;
+      if (outcome !== 'imported') result.conflicts++;
+      if (outcome !== 'skipped') progress.imported++;
+    };
+
+    let batch: ImportBatch = [];
+
+    const flush = () => {
+      const duplicates = this.db.addImportKeys(batch.map(({ reading }) => readingKeys(reading)));
+      result.duplicates += duplicates.filter(Boolean).length;
+      for (const { row, outcome, error } of this.writeBatch(batch, duplicates, options)) {
+        if (outcome) count(outcome);
+        else reject(row, error ?? 'Failed to write reading');
+      }
+      batch = [];
+    };
+
+    this.db.beginImportKeys();
+    try {
+      for await (const importRow of rows) {
+        progress.processed++;
+        result.total++;
+
+        const validated = 'error' in importRow ? importRow : validateReading(importRow.value);
+        if ('error' in validated) {
+          reject(result.total, validated.error);
+        } else {
+          batch.push({ row: result.total, reading: validated.reading });
+        }
+
+        if (batch.length >= BATCH_SIZE) {
+          flush();
+          // Let other requests and the recorder run between batches
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+
+        if (progress.processed % LOG_INTERVAL === 0) {
+          console.log(`[Import] ${progress.processed} readings processed, ${progress.imported} imported`);
+        }
+      }
+
+      flush();
+    } finally {
+      progress.running = false;
+      progress.finished_at = Date.now();
+      this.db.endImportKeys();
+      if (!options.dry_run) this.db.refreshTableRowCounts();
+    }
+
+    console.log(
+      `[Import] ${options.dry_run ? 'Dry run: ' : ''}${result.imported} imported, ${result.overwritten} overwritten, ${
+        result.skipped
+      } skipped, ${result.errors} rejected of ${result.total} readings in ${Date.now() - startedAt}ms`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Write a batch in one transaction, or only look up its conflicts in a dry
+   * run, where duplicates flags readings repeating an earlier one of the import.
+   * If the transaction fails, its readings are retried one by one so only the
+   * failing ones are rejected.
+   */
+  private writeBatch(
+    batch: ImportBatch,
+    duplicates: boolean[],
+    options: ImportOptions,
+  ): { row: number; outcome?: ImportOutcome; error?: string }[] {
+    if (batch.length === 0) return [];
+
+    if (options.dry_run) {
+      return batch.map(({ row, reading }, i) => ({
+        row,
+        outcome: this.predictOutcome(reading, options.conflict, duplicates[i]),
+      }));
+    }
+
+    try {
+      const outcomes = this.db.importReadings(
+        batch.map(({ reading }) => reading),
+        options.conflict,
+      );
+      return batch.map(({ row }, i) => ({ row, outcome: outcomes[i] }));
+    } catch (error: unknown) {
+      console.error('[Import] Batch failed, retrying readings one by one:', getErrorMessage(error));
+    }
+
+    return batch.map(({ row, reading }) => {
+      try {
+        return { row, outcome: this.db.importReading(reading, options.conflict) };
+      } catch (error: unknown) {
+        return { row, error: getErrorMessage(error) };
+      }
+    });
+  }
+
+  /**
+   * What importing a reading would do. A duplicate of an earlier reading of the
+   * import conflicts with it, as that one would be stored by then.
+   */
+  private predictOutcome(reading: ReadingInsert, conflict: ConflictStrategy, duplicate: boolean): ImportOutcome {
+    if (!duplicate && this.db.findConflictingReading(reading) === null) return 'imported';
+    if (conflict === 'skip') return 'skipped';
+    return conflict === 'overwrite' ? 'overwritten' : 'kept_both';
+  }
+}
+
+export default ReadingImporter;
@@ -0,0 +1,195 @@
+/**
+ * Background Reading Recorder
+ *
+ * Samples every discovered device at a fixed interval and stores the readings
+ * in SQLite, so history is collected without a dashboard open. Sample
+ * timestamps are aligned to the interval, which makes the UNIQUE(timestamp,
+ * device_id) constraint deduplicate samples across restarts.
+ */
+
+import type { AirQualityDatabase, ReadingInsert } from './db';
+import type { Device } from './types';
+
+export interface RecorderStatus {
+  running: boolean;
+  interval: number;
+  last_sample_at: number | null;
+  last_error: string | null;
+  samples_written: number;
+  duplicates_skipped: number;
+}
+
+type SampleListener = (readings: ReadingInsert[]) => void;
+
+/**
+ * Safely extract error message from unknown error type
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+function generateId(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Convert a device to the data format the dashboard stores for snapshots
+ */
+export function toSensorData(device: Device): Record<string, string> {
+  return {
+    co2: device.co2?.toString() ?? '',
+    pm25: device.pm25?.toString() ?? '',
+    pm10: device.pm10?.toString() ?? '',
+    pm_1um: device.pm_1um?.toString() ?? '',
+    pm_4um: device.pm_4um?.toString() ?? '',
+    humidity: device.humidity?.toString() ?? '',
+    temperature: device.temperature?.toString() ?? '',
+    voc: device.voc?.toString() ?? '',
+    vocQuality: device.vocQuality ?? '',
+    nox: device.nox?.toString() ?? '',
+    pressure: device.pressure?.toString() ?? '',
+    rssi: device.rssi?.toString() ?? '',
+    uptime: device.uptime ?? '',
+  };
+}
+
+export class ReadingRecorder {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Promise<void> | null = null;
+  private lastSampleAt: number | null = null;
+  private lastError: string | null = null;
+  private samplesWritten = 0;
+  private duplicatesSkipped = 0;
+  private listeners = new Set<SampleListener>();
+
+  /**
+   * @param db - Database the readings are written to
+   * @param getDevices - Source of the current device readings
+   * @param intervalSeconds - Time between samples
+   */
+  constructor(
+    private readonly db: AirQualityDatabase,
+    private readonly getDevices: () => Promise<Device[]>,
+    private readonly intervalSeconds = 300,
+  ) {}
+
+  /**
+   * True while samples are being scheduled
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Start sampling. The first sample is taken at the next interval boundary.
+   */
+  start(): void {
+    if (this.timer) return;
+    console.log(`[Recorder] Started, sampling every ${this.intervalSeconds}s`);
+    this.scheduleNext();
+  }
+
+  /**
+   * Stop sampling and wait for a sample that is being written
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      console.log('[Recorder] Stopped');
+    }
+    await this.inFlight;
+  }
+
+  /**
+   * Current recorder state
+   */
+  getStatus(): RecorderStatus {
+    return {
+      running: this.isRunning(),
+      interval: this.intervalSeconds,
+      last_sample_at: this.lastSampleAt,
+      last_error: this.lastError,
+      samples_written: this.samplesWritten,
+      duplicates_skipped: this.duplicatesSkipped,
+    };
+  }
+
+  /**
+   * Register a listener called with the readings of every sample that were stored
+   * @returns Function that removes the listener
+   */
+  onSample(listener: SampleListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private scheduleNext(): void {
+    const intervalMs = this.intervalSeconds * 1000;
+    const delay = intervalMs - (Date.now() % intervalMs);
+
+    this.timer = setTimeout(() => {
+      this.inFlight = this.sample(this.alignedTimestamp()).finally(() => {
+        this.inFlight = null;
+      });
+      this.scheduleNext();
+    }, delay);
+  }
+
+  /**
+   * Start of the interval the current time falls into
+   */
+  private alignedTimestamp(): number {
+    const intervalMs = this.intervalSeconds * 1000;
+    return Math.floor(Date.now() / intervalMs) * intervalMs;
+  }
+
+  private async sample(timestamp: number): Promise<void> {
+    try {
+      const devices = await this.getDevices();
+
+      const stored: ReadingInsert[] = [];
+      for (const device of devices) {
+        const reading = {
+          id: generateId(),
+          device_id: device.device_id,
+          room: device.room || device.device_name,
+          timestamp,
+          data: toSensorData(device),
+        };
+
+        if (this.db.insertReadingIfAbsent(reading)) {
+          stored.push(reading);
+        } else {
+          this.duplicatesSkipped++;
+        }
+      }
+
+      const written = stored.length;
+      this.samplesWritten += written;
+      this.lastSampleAt = timestamp;
+      this.lastError = null;
+
+      if (written < devices.length) {
+        console.log(`[Recorder] Skipped ${devices.length - written} duplicate reading(s)`);
+      }
+
+      if (written > 0) {
+        this.db.refreshTableRowCounts();
+        for (const listener of this.listeners) {
+          try {
+            listener(stored);
+          } catch (error: unknown) {
+            console.error('[Recorder] Error in sample listener:', getErrorMessage(error));
+          }
+        }
+      }
+    } catch (error: unknown) {
+      this.lastError = getErrorMessage(error);
+      console.error('[Recorder] Failed to record readings:', this.lastError);
+    }
+  }
+}
+
+export default ReadingRecorder;
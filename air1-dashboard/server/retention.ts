@@ -0,0 +1,82 @@
+/**
+ * Retention Job
+ *
+ * Periodically rolls stored readings up into hourly and daily tables and prunes
+ * rows that are older than the configured retention. Raw readings are kept for
+ * the shortest time, daily rollups for the longest.
+ */
+
+import type { AirQualityDatabase, CompactionResult, RetentionPolicy } from './db';
+
+const COMPACTION_INTERVAL_MS = 60 * 60 * 1000;
+// Give the server time to settle before the first run
+const INITIAL_DELAY_MS = 60 * 1000;
+
+/**
+ * Safely extract error message from unknown error type
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+export class RetentionJob {
+  private initialTimer: ReturnType<typeof setTimeout> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly db: AirQualityDatabase,
+    private readonly policy: RetentionPolicy,
+  ) {}
+
+  /**
+   * Schedule compaction, first shortly after start, then every hour
+   */
+  start(): void {
+    if (this.timer || this.initialTimer) return;
+
+    console.log(
+      `[Retention] Keeping raw readings ${this.policy.raw_days}d, hourly ${this.policy.hourly_days}d, daily ${this.policy.daily_days}d`,
+    );
+
+    this.initialTimer = setTimeout(() => {
+      this.initialTimer = null;
+      this.run();
+      this.timer = setInterval(() => this.run(), COMPACTION_INTERVAL_MS);
+    }, INITIAL_DELAY_MS);
+  }
+
+  /**
+   * Stop scheduling compaction
+   */
+  stop(): void {
+    if (this.initialTimer) {
+      clearTimeout(this.initialTimer);
+      this.initialTimer = null;
+    }
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run a compaction now
+   * @returns What was rolled up and pruned, or null if compaction failed
+   */
+  run(): CompactionResult | null {
+    try {
+      const result = this.db.compact(this.policy);
+      this.db.refreshTableRowCounts();
+      console.log(
+        `[Retention] Compaction done in ${result.duration_ms}ms: pruned ${result.raw_pruned} raw, ${result.hourly_pruned} hourly, ${result.daily_pruned} daily rows`,
+      );
+      return result;
+    } catch (error: unknown) {
+      console.error('[Retention] Compaction failed:', getErrorMessage(error));
+      return null;
+    }
+  }
+}
+
+export default RetentionJob;
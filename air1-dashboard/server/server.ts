@@ -7,16 +7,50 @@
 
 import compression from 'compression';
 import express, { type Request, type Response, type NextFunction, type Express } from 'express';
-import { groupEntitiesByDevice } from './config';
+import { createAlertRouter } from './alert-routes';
+import { AlertEngine } from './alerts';
+import { type AqiPollutant, AqiTracker } from './aqi';
+import { HistoryBackfill } from './backfill';
+import { parseEntityId } from './config';
+import { AirQualityDatabase } from './db';
+import { DerivedEntityPublisher } from './derived-entities';
+import { DeviceStore } from './device-store';
+import { DeviceStream } from './device-stream';
 import {
+  buildDevices,
+  fetchDeviceHistory,
   fetchHistory,
+  fetchSensorHistory,
   fetchSensors,
+  fetchStates,
+  mapEntitiesBySensorType,
+  normalizeHistory,
   testConnection,
-  transformEntityToSensorData,
-  transformHistoryData,
 } from './ha-client';
-import storageRouter from './storage-routes';
-import type { AppConfig, Device, SensorData } from './types';
+import { DeviceRegistry } from './ha-registry';
+import { fetchStatistics, normalizeStatistics } from './ha-statistics';
+import { HAWebSocketClient } from './ha-websocket';
+import { renderMetrics } from './metrics';
+import { MqttPublisher } from './mqtt-publisher';
+import { AlertNotifier } from './notifications';
+import { ReadingRecorder } from './recorder';
+import { RetentionJob } from './retention';
+import { createStorageRouter } from './storage-routes';
+import { createThresholdRouter } from './threshold-routes';
+import type {
+  AppConfig,
+  Device,
+  HAEntity,
+  HAStateChangedData,
+  HistoryQueryOptions,
+  HistoryResponseData,
+  HistorySource,
+  SensorHistory,
+  SensorType,
+  TimeSeriesDataPoint,
+} from './types';
+import { createWebhookRouter } from './webhook-routes';
+import { WebhookDispatcher } from './webhooks';
 
 // Get current file's directory using Bun's built-in
 const __dirname = import.meta.dir;
@@ -31,18 +65,202 @@ function getErrorMessage(error: unknown): string {
 
 // Configuration
 const PORT = process.env.PORT || 8099;
+// Prometheus scrapes a listener of its own, so the API on the ingress port is never exposed
+const METRICS_PORT = process.env.METRICS_PORT || 9101;
 const CONFIG_PATH = process.env.CONFIG_PATH || '/data/options.json';
 const STATIC_PATH = process.env.STATIC_PATH || '/app/dashboard/dist';
+const DB_PATH = process.env.DB_PATH || '/data/air_quality.db';
 
 // Default configuration
 const DEFAULT_CONFIG: AppConfig = {
   sensor_prefix: 'apollo_air_1',
   update_interval: 10,
   history_days: 30,
+  recorder_enabled: true,
+  recorder_interval: 300,
+  raw_retention_days: 30,
+  hourly_retention_days: 365,
+  daily_retention_days: 1825,
+  ha_purge_keep_days: 10,
+  index_standard: 'us_epa',
+  publish_entities: true,
+  mqtt_enabled: false,
+  mqtt_broker: 'mqtt://core-mosquitto:1883',
+  mqtt_username: '',
+  mqtt_password: '',
+  mqtt_topic_prefix: 'air1_dashboard',
+  mqtt_discovery: false,
 };
 
 let appConfig: AppConfig = { ...DEFAULT_CONFIG };
 
+// Live device model, kept current over the HA WebSocket connection
+const haSocket = new HAWebSocketClient();
+let deviceStore = new DeviceStore(DEFAULT_CONFIG.sensor_prefix);
+// Names, areas and hardware info of the devices from the HA registries
+let deviceRegistry = new DeviceRegistry(haSocket, DEFAULT_CONFIG.sensor_prefix);
+let restPollTimer: ReturnType<typeof setInterval> | null = null;
+
+// Pushes device changes to connected dashboards
+const deviceStream = new DeviceStream(() => getDevices());
+
+// Stored readings, shared by the storage API and the background recorder
+let db: AirQualityDatabase;
+let recorder: ReadingRecorder;
+let retentionJob: RetentionJob;
+let aqiTracker: AqiTracker;
+let alertEngine: AlertEngine;
+let entityPublisher: DerivedEntityPublisher;
+let webhooks: WebhookDispatcher;
+let notifier: AlertNotifier;
+let mqttPublisher: MqttPublisher | null = null;
+let aqiTimer: ReturnType<typeof setInterval> | null = null;
+let backfill: HistoryBackfill;
+let metricsServer: ReturnType<Express['listen']> | null = null;
+// Home Assistant's time zone, once loaded over the WebSocket
+let haTimeZone: string | undefined;
+
+/**
+ * Current devices, from the live model when available, otherwise from a REST snapshot.
+ * The AQI comes from the tracker's cache, which is refreshed when devices change.
+ */
+async function getDevices(): Promise<Device[]> {
+  const devices = await getRawDevices();
+  return devices.map((device) => aqiTracker.decorate(device));
+}
+
+/**
+ * Current devices without derived values such as the AQI
+ */
+async function getRawDevices(): Promise<Device[]> {
+  if (haSocket.isConnected() && deviceStore.isReady()) {
+    // Served from the live model, no round trip to HA
+    return deviceStore.getDevices();
+  }
+
+  // WebSocket unavailable, fall back to a REST snapshot
+  const entities = await fetchSensors(appConfig.sensor_prefix);
+  return buildDevices(entities, appConfig.sensor_prefix, deviceRegistry.getDevices());
+}
+
+/**
+ * PM2.5/PM10 history of a device from HA, for the AQI when too few readings are stored
+ */
+async function fetchParticleHistory(
+  deviceId: string,
+  start: string,
+  end: string,
+): Promise<Partial<Record<AqiPollutant, TimeSeriesDataPoint[]>>> {
+  const byType = mapEntitiesBySensorType(await getDeviceEntities(deviceId), appConfig.sensor_prefix);
+  const entities = [byType.pm25, byType.pm10].filter((entity): entity is HAEntity => entity !== undefined);
+  if (entities.length === 0) return {};
+
+  const history = await fetchDeviceHistory(entities, start, end, { minimalResponse: true }, appConfig.sensor_prefix);
+
+  const result: Partial<Record<AqiPollutant, TimeSeriesDataPoint[]>> = {};
+  for (const pollutant of ['pm25', 'pm10'] as const) {
+    const metric = history[pollutant];
+    if (metric) {
+      result[pollutant] = normalizeHistory(metric.records, appConfig.sensor_prefix, metric.offsets).history;
+    }
+  }
+  return result;
+}
+
+/**
+ * Sensor entities of a device, from the live model when available, otherwise from REST
+ */
+async function getDeviceEntities(deviceId: string): Promise<HAEntity[]> {
+  if (haSocket.isConnected() && deviceStore.isReady()) {
+    return deviceStore.getEntities(deviceId);
+  }
+
+  const entities = await fetchSensors(appConfig.sensor_prefix);
+  return entities.filter((entity) => parseEntityId(entity.entity_id, appConfig.sensor_prefix).device === deviceId);
+}
+
+/**
+ * Resolve the start/end query parameters of a history request
+ * @returns Time range, or an error message for invalid parameters
+ */
+function resolveTimeRange(query: Request['query']): { start: string; end: string } | { error: string } {
+  const { start, end, days } = query;
+
+  // Calculate time range
+  let startTime: string;
+  if (!start && days) {
+    const daysNum = Number.parseInt(days as string, 10);
+    if (Number.isNaN(daysNum) || daysNum < 1) {
+      return { error: 'Invalid days parameter' };
+    }
+    startTime = new Date(Date.now() - daysNum * 24 * 60 * 60 * 1000).toISOString();
+  } else if (!start) {
+    // Use configured history_days as default
+    startTime = new Date(Date.now() - appConfig.history_days * 24 * 60 * 60 * 1000).toISOString();
+  } else {
+    startTime = start as string;
+  }
+
+  const endTime = end ? (end as string) : new Date().toISOString();
+
+  return { start: startTime, end: endTime };
+}
+
+/**
+ * Choose where the history of a range is read from. With source=auto (the
+ * default), ranges reaching back further than HA keeps states are read from
+ * the long-term statistics, if the WebSocket is connected.
+ * @returns History source, or an error message for invalid parameters
+ */
+function resolveHistorySource(query: Request['query'], start: string): { source: HistorySource } | { error: string } {
+  const requested = (query.source as string | undefined) || 'auto';
+  if (!['auto', 'history', 'statistics'].includes(requested)) {
+    return { error: 'Invalid source, expected one of: auto, history, statistics' };
+  }
+
+  if (requested === 'statistics') {
+    return haSocket.isConnected()
+      ? { source: 'statistics' }
+      : { error: 'Long-term statistics need the Home Assistant WebSocket connection' };
+  }
+
+  const retainedSince = Date.now() - appConfig.ha_purge_keep_days * 24 * 60 * 60 * 1000;
+  if (requested === 'auto' && Date.parse(start) < retainedSince && haSocket.isConnected()) {
+    return { source: 'statistics' };
+  }
+  return { source: 'history' };
+}
+
+/**
+ * Current state of a sensor entity with its calibration offset, null if it is not an AIR-1 sensor
+ */
+async function findSensorEntity(entityId: string): Promise<HAEntity | null> {
+  const { device } = parseEntityId(entityId, appConfig.sensor_prefix);
+  const entities = await getDeviceEntities(device);
+  return entities.find((entity) => entity.entity_id === entityId) ?? null;
+}
+
+/**
+ * Read history query options (minimal, significant_only) from request query parameters
+ */
+function resolveHistoryOptions(query: Request['query']): HistoryQueryOptions {
+  const flag = (value: unknown): boolean | undefined =>
+    value === undefined ? undefined : value !== '0' && value !== 'false';
+
+  return {
+    minimalResponse: flag(query.minimal),
+    significantChangesOnly: flag(query.significant_only),
+  };
+}
+
+/**
+ * Configuration without secrets, for logs and the config API
+ */
+function publicConfig(config: AppConfig): Omit<AppConfig, 'mqtt_password'> {
+  const { mqtt_password, ...rest } = config;
+  return rest;
+}
+
 /**
  * Load configuration from file
  */
@@ -57,7 +275,7 @@ async function loadConfig(): Promise<void> {
       ...parsedConfig,
     };
 
-    console.log('[Server] Configuration loaded:', appConfig);
+    console.log('[Server] Configuration loaded:', publicConfig(appConfig));
   } catch (error: unknown) {
     console.warn(`[Server] Could not load config file: ${getErrorMessage(error)}`);
     console.log('[Server] Using default configuration:', DEFAULT_CONFIG);
@@ -108,11 +326,13 @@ function createApp(): Express {
     res.json({
       status: 'ok',
       timestamp: new Date().toISOString(),
+      live_updates: haSocket.isConnected(),
       config: {
         sensor_prefix: appConfig.sensor_prefix,
         update_interval: appConfig.update_interval,
         history_days: appConfig.history_days,
       },
+      recorder: recorder.isRunning(),
     });
   });
 
@@ -126,7 +346,7 @@ function createApp(): Express {
     try {
       res.json({
         success: true,
-        data: appConfig,
+        data: publicConfig(appConfig),
       });
     } catch (error: unknown) {
       console.error('[Server] Error in /api/config:', error);
@@ -144,9 +364,9 @@ function createApp(): Express {
    */
   app.get('/api/sensors', async (req: Request, res: Response) => {
     try {
-      const entities = await fetchSensors(appConfig.sensor_prefix);
+      const devices = await getDevices();
 
-      if (entities.length === 0) {
+      if (devices.length === 0) {
         return res.json({
           success: true,
           devices: [],
@@ -154,37 +374,6 @@ function createApp(): Express {
         });
       }
 
-      // Group entities by device
-      const grouped = groupEntitiesByDevice(entities, appConfig.sensor_prefix);
-
-      // Transform each device's entities into a device object
-      const devices: Device[] = Object.entries(grouped).map(([deviceId, deviceEntities]) => {
-        // Get device metadata from first entity
-        const firstEntity = deviceEntities[0];
-        const deviceName = firstEntity.attributes?.friendly_name || deviceId;
-
-        // Transform entities to sensor data array
-        const sensorDataArray = transformEntityToSensorData(deviceEntities, appConfig.sensor_prefix);
-
-        // Combine all sensor readings into a single device object
-        const combinedSensorData: Partial<Device> = {};
-        for (const sensor of sensorDataArray) {
-          if (sensor.sensor_type && sensor.value !== null) {
-            // Map sensor_type to the property name expected by the dashboard
-            (combinedSensorData as Record<string, unknown>)[sensor.sensor_type] = sensor.value;
-          }
-        }
-
-        return {
-          entity_id: deviceId,
-          device_id: deviceId,
-          device_name: deviceName,
-          friendly_name: `Apollo AIR-1 ${deviceName}`,
-          room: null, // Could extract from entity names if needed
-          ...combinedSensorData, // Merge all sensor readings (co2, pm25, temperature, etc.)
-        } as Device;
-      });
-
       res.json({
         success: true,
         devices: devices,
@@ -200,6 +389,14 @@ function createApp(): Express {
     }
   });
 
+  /**
+   * GET /api/stream
+   * Server-Sent Events stream of device changes.
+   * Sends a `snapshot` event on connect, then `device` events with changed fields only.
+   * Reconnecting clients resume via the Last-Event-ID header.
+   */
+  app.get('/api/stream', deviceStream.handler);
+
   /**
    * GET /api/history/:entity_id
    * Fetch historical data for a sensor entity
@@ -207,11 +404,14 @@ function createApp(): Express {
    *   - start: ISO timestamp (optional)
    *   - end: ISO timestamp (optional)
    *   - days: Number of days to look back (optional, default: from config)
+   *   - minimal: Ask HA for a minimal response (optional)
+   *   - significant_only: Set to 0 to include attribute-only changes (optional, default: 1)
+   *   - source: auto, history or statistics (optional, default: auto, statistics for
+   *     ranges older than ha_purge_keep_days)
    */
   app.get('/api/history/:entity_id', async (req: Request, res: Response) => {
     try {
       const { entity_id } = req.params;
-      const { start, end, days } = req.query;
 
       // Validate entity_id format
       if (!entity_id || !entity_id.includes('.')) {
@@ -221,39 +421,65 @@ function createApp(): Express {
         });
       }
 
-      // Calculate time range
-      let startTime: string;
-      if (!start && days) {
-        const daysNum = Number.parseInt(days as string, 10);
-        if (Number.isNaN(daysNum) || daysNum < 1) {
-          return res.status(400).json({
-            success: false,
-            error: 'Invalid days parameter',
-          });
-        }
-        startTime = new Date(Date.now() - daysNum * 24 * 60 * 60 * 1000).toISOString();
-      } else if (!start) {
-        // Use configured history_days as default
-        startTime = new Date(Date.now() - appConfig.history_days * 24 * 60 * 60 * 1000).toISOString();
-      } else {
-        startTime = start as string;
+      const range = resolveTimeRange(req.query);
+      if ('error' in range) {
+        return res.status(400).json({
+          success: false,
+          error: range.error,
+        });
+      }
+
+      const source = resolveHistorySource(req.query, range.start);
+      if ('error' in source) {
+        return res.status(400).json({
+          success: false,
+          error: source.error,
+        });
+      }
+
+      // Entities without a state_class have no statistics and fall back to their history
+      const statistics =
+        source.source === 'statistics'
+          ? (await fetchStatistics(haSocket, [entity_id], range.start, range.end))[entity_id]
+          : undefined;
+      if (statistics) {
+        const entity = await findSensorEntity(entity_id);
+        const { history, correction } = normalizeStatistics(statistics, entity_id, entity, appConfig.sensor_prefix);
+
+        return res.json({
+          success: true,
+          data: {
+            entity_id: entity_id,
+            start: range.start,
+            end: range.end,
+            count: history.length,
+            history,
+            correction,
+            source: 'statistics',
+          },
+        });
       }
 
-      const endTime = end ? (end as string) : new Date().toISOString();
+      const options = resolveHistoryOptions(req.query);
 
-      const historyData = await fetchHistory(entity_id, startTime, endTime);
+      // Sensors are fetched together with their calibration offset history
+      const { records, offsets } = entity_id.startsWith('sensor.')
+        ? await fetchSensorHistory(entity_id, range.start, range.end, options)
+        : { records: await fetchHistory(entity_id, range.start, range.end, options), offsets: [] };
 
       // Transform history data to time-series format
-      const transformedData = transformHistoryData(historyData);
+      const { history, correction } = normalizeHistory(records, appConfig.sensor_prefix, offsets);
 
       res.json({
         success: true,
         data: {
           entity_id: entity_id,
-          start: startTime,
-          end: endTime,
-          count: transformedData.length,
-          history: transformedData,
+          start: range.start,
+          end: range.end,
+          count: history.length,
+          history,
+          correction,
+          source: 'history',
         },
       });
     } catch (error: unknown) {
@@ -267,8 +493,176 @@ function createApp(): Express {
     }
   });
 
+  /**
+   * GET /api/history/device/:device_id
+   * Fetch historical data for every metric of a device in one HA request
+   * Query params: same as /api/history/:entity_id
+   */
+  app.get('/api/history/device/:device_id', async (req: Request, res: Response) => {
+    try {
+      const { device_id } = req.params;
+
+      const range = resolveTimeRange(req.query);
+      if ('error' in range) {
+        return res.status(400).json({
+          success: false,
+          error: range.error,
+        });
+      }
+
+      const entities = await getDeviceEntities(device_id);
+      if (entities.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: 'Device not found',
+          message: `No sensors found for device "${device_id}"`,
+        });
+      }
+
+      const source = resolveHistorySource(req.query, range.start);
+      if ('error' in source) {
+        return res.status(400).json({
+          success: false,
+          error: source.error,
+        });
+      }
+
+      const metrics: Partial<Record<SensorType, HistoryResponseData>> = {};
+      // Entities the history is read for: all of them, or those without statistics
+      let historyEntities = entities;
+
+      if (source.source === 'statistics') {
+        const byType = mapEntitiesBySensorType(entities, appConfig.sensor_prefix);
+        const statistics = await fetchStatistics(
+          haSocket,
+          Object.values(byType).map((entity) => entity.entity_id),
+          range.start,
+          range.end,
+        );
+
+        for (const [sensorType, entity] of Object.entries(byType) as [SensorType, HAEntity][]) {
+          const rows = statistics[entity.entity_id];
+          if (!rows) continue;
+          const normalized = normalizeStatistics(rows, entity.entity_id, entity, appConfig.sensor_prefix);
+          metrics[sensorType] = {
+            entity_id: entity.entity_id,
+            start: range.start,
+            end: range.end,
+            count: normalized.history.length,
+            history: normalized.history,
+            correction: normalized.correction,
+            source: 'statistics',
+          };
+        }
+
+        historyEntities = entities.filter((entity) => !(entity.entity_id in statistics));
+      }
+
+      const history =
+        historyEntities.length > 0
+          ? await fetchDeviceHistory(
+              historyEntities,
+              range.start,
+              range.end,
+              resolveHistoryOptions(req.query),
+              appConfig.sensor_prefix,
+            )
+          : {};
+
+      for (const [sensorType, sensorHistory] of Object.entries(history) as [SensorType, SensorHistory][]) {
+        if (metrics[sensorType]) continue;
+        const normalized = normalizeHistory(sensorHistory.records, appConfig.sensor_prefix, sensorHistory.offsets);
+        metrics[sensorType] = {
+          entity_id: sensorHistory.entity_id,
+          start: range.start,
+          end: range.end,
+          count: normalized.history.length,
+          history: normalized.history,
+          correction: normalized.correction,
+          source: 'history',
+        };
+      }
+
+      res.json({
+        success: true,
+        data: {
+          device_id,
+          start: range.start,
+          end: range.end,
+          metrics,
+        },
+      });
+    } catch (error: unknown) {
+      console.error(`[Server] Error in /api/history/device/${req.params.device_id}:`, error);
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch device history',
+        message: getErrorMessage(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/recorder
+   * Returns the state of the background recorder
+   */
+  app.get('/api/recorder', (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: recorder.getStatus(),
+    });
+  });
+
+  /**
+   * POST /api/recorder/start
+   * Start the background recorder (until the next restart)
+   */
+  app.post('/api/recorder/start', (req: Request, res: Response) => {
+    recorder.start();
+    res.json({
+      success: true,
+      data: recorder.getStatus(),
+      message: 'Recorder started',
+    });
+  });
+
+  /**
+   * POST /api/recorder/stop
+   * Stop the background recorder (until the next restart)
+   */
+  app.post('/api/recorder/stop', async (req: Request, res: Response) => {
+    try {
+      await recorder.stop();
+      res.json({
+        success: true,
+        data: recorder.getStatus(),
+        message: 'Recorder stopped',
+      });
+    } catch (error: unknown) {
+      console.error('[Server] Error in /api/recorder/stop:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to stop recorder',
+        message: getErrorMessage(error),
+      });
+    }
+  });
+
   // Mount storage API routes
-  app.use('/api/storage', storageRouter);
+  app.use(
+    '/api/storage',
+    createStorageRouter(db, DB_PATH, backfill, () => haTimeZone),
+  );
+
+  // Mount threshold profile routes
+  app.use('/api/thresholds', createThresholdRouter(db));
+
+  // Mount alert rule routes
+  app.use('/api/alerts', createAlertRouter(db, alertEngine));
+
+  // Mount webhook routes
+  app.use('/api/webhooks', createWebhookRouter(db, webhooks));
 
   // Serve static files from dashboard build directory
   // HA ingress proxy handles path forwarding, so we just serve files as-is
@@ -314,6 +708,166 @@ function createApp(): Express {
   return app;
 }
 
+/**
+ * Create the Express application of the metrics listener, serving nothing but /metrics
+ */
+function createMetricsApp(): Express {
+  const app = express();
+
+  /**
+   * GET /metrics
+   * Device readings and server internals in the Prometheus text format
+   */
+  app.get('/metrics', async (req: Request, res: Response) => {
+    try {
+      const metrics = renderMetrics({
+        devices: await getDevices(),
+        table_rows: db.getTableRowCounts(),
+        recorder: recorder.getStatus(),
+        stream_clients: deviceStream.clientCount(),
+        websocket_connected: haSocket.isConnected(),
+        now: Date.now(),
+      });
+      res.type('text/plain; version=0.0.4; charset=utf-8').send(metrics);
+    } catch (error: unknown) {
+      console.error('[Server] Error in /metrics:', error);
+      res
+        .status(500)
+        .type('text/plain')
+        .send(`# Failed to collect metrics: ${getErrorMessage(error)}\n`);
+    }
+  });
+
+  return app;
+}
+
+/**
+ * Keep the device model current over the HA WebSocket API.
+ * A full state snapshot is loaded on every (re)connect, state_changed
+ * events keep it current in between.
+ */
+function startLiveUpdates(): void {
+  deviceStore = new DeviceStore(appConfig.sensor_prefix);
+  deviceStore.onChange((changed) => {
+    // Recomputed in the background if stale, changed values are pushed by the tracker's listener
+    aqiTracker.refresh(changed.map((device) => device.device_id));
+
+    const devices = changed.map((device) => aqiTracker.decorate(device));
+    deviceStream.publish(devices);
+    alertEngine.evaluate(devices);
+    publishEntities(devices);
+  });
+
+  deviceRegistry = new DeviceRegistry(haSocket, appConfig.sensor_prefix);
+  deviceRegistry.onChange((devices) => deviceStore.setRegistry(devices));
+  deviceRegistry.start();
+
+  haSocket.subscribeEvents<HAStateChangedData>('state_changed', (data) => {
+    deviceStore.applyStateChange(data.entity_id, data.new_state);
+  });
+
+  haSocket.onReady(async () => {
+    try {
+      const states = await haSocket.sendCommand<HAEntity[]>({ type: 'get_states' });
+      deviceStore.load(states);
+      console.log(`[Server] Live device model loaded (${deviceStore.getDevices().length} devices)`);
+    } catch (error: unknown) {
+      console.error('[Server] Failed to load states over WebSocket:', getErrorMessage(error));
+    }
+  });
+
+  haSocket.start();
+
+  // While the WebSocket is down, keep streaming clients updated by polling REST
+  restPollTimer = setInterval(async () => {
+    if (haSocket.isConnected() || deviceStream.clientCount() === 0) return;
+    try {
+      deviceStore.load(await fetchStates());
+    } catch (error: unknown) {
+      console.error('[Server] REST fallback poll failed:', getErrorMessage(error));
+    }
+  }, appConfig.update_interval * 1000);
+}
+
+/**
+ * Keep the AQI of every device current and push changes to streaming clients
+ */
+function startAqiUpdates(): void {
+  aqiTracker.onChange((deviceIds) => {
+    const devices = deviceIds
+      .map((deviceId) => deviceStore.getDevice(deviceId))
+      .filter((device): device is Device => device !== undefined);
+    const decorated = devices.map((device) => aqiTracker.decorate(device));
+    deviceStream.publish(decorated);
+    publishEntities(decorated);
+  });
+
+  aqiTimer = setInterval(async () => {
+    try {
+      const devices = await getRawDevices();
+      await aqiTracker.refresh(devices.map((device) => device.device_id));
+    } catch (error: unknown) {
+      console.error('[Server] AQI refresh failed:', getErrorMessage(error));
+    }
+  }, 60 * 1000);
+}
+
+/**
+ * Push the derived values of changed devices into Home Assistant and MQTT, when enabled
+ */
+function publishEntities(devices: Device[]): void {
+  mqttPublisher?.publish(devices);
+
+  if (!appConfig.publish_entities) return;
+  entityPublisher.publish(devices).catch((error: unknown) => {
+    console.error('[Server] Publishing entities failed:', getErrorMessage(error));
+  });
+}
+
+/**
+ * Stop live updates and close streaming clients
+ */
+function stopLiveUpdates(): void {
+  if (aqiTimer) {
+    clearInterval(aqiTimer);
+    aqiTimer = null;
+  }
+  if (restPollTimer) {
+    clearInterval(restPollTimer);
+    restPollTimer = null;
+  }
+  deviceRegistry.stop();
+  haSocket.stop();
+  deviceStream.close();
+}
+
+/**
+ * Stop background work, close the HTTP server and the database, then exit
+ */
+async function shutdown(server: ReturnType<Express['listen']>, signal: string): Promise<void> {
+  console.log(`[Server] ${signal} received, shutting down gracefully...`);
+  stopLiveUpdates();
+
+  // Let a sample that is being written finish before the database closes
+  await recorder.stop();
+  // Stops after the day being backfilled, the job resumes on the next start
+  await backfill.stop();
+  retentionJob.stop();
+  alertEngine.stop();
+  notifier.stop();
+  webhooks.stop();
+  await mqttPublisher?.stop();
+  // Published entities would otherwise keep their last state in HA
+  await entityPublisher.removeAll();
+
+  metricsServer?.close();
+  server.close(() => {
+    db.close();
+    console.log('[Server] Server closed');
+    process.exit(0);
+  });
+}
+
 /**
  * Start the server
  */
@@ -335,6 +889,75 @@ async function startServer(): Promise<void> {
       console.log('[Server] Home Assistant API connection successful');
     }
 
+    db = new AirQualityDatabase(DB_PATH);
+    aqiTracker = new AqiTracker(db, fetchParticleHistory);
+    alertEngine = new AlertEngine(db, () => getDevices());
+    webhooks = new WebhookDispatcher(db, () => getDevices());
+    webhooks.start();
+    notifier = new AlertNotifier(db, (deviceId) => deviceStore.getDevice(deviceId));
+    notifier.start();
+    alertEngine.onEvent((event, rule) => {
+      notifier.notify(event, rule).catch((error: unknown) => {
+        console.error('[Server] Alert notification failed:', getErrorMessage(error));
+      });
+      webhooks.dispatch('alert', {
+        ...event,
+        rule: { id: rule.id, name: rule.name, metric: rule.metric, operator: rule.operator, threshold: rule.threshold },
+      });
+    });
+    alertEngine.start();
+    // Quiet hours and CSV imports are in Home Assistant's time zone
+    haSocket.onReady(async () => {
+      try {
+        const config = await haSocket.sendCommand<{ time_zone?: string }>({ type: 'get_config' });
+        if (config.time_zone) {
+          haTimeZone = config.time_zone;
+          notifier.setTimeZone(config.time_zone);
+        }
+      } catch (error: unknown) {
+        console.error('[Server] Failed to load the Home Assistant time zone:', getErrorMessage(error));
+      }
+    });
+    entityPublisher = new DerivedEntityPublisher(db);
+    if (appConfig.mqtt_enabled) {
+      mqttPublisher = new MqttPublisher(db, {
+        broker: appConfig.mqtt_broker,
+        username: appConfig.mqtt_username,
+        password: appConfig.mqtt_password,
+        topic_prefix: appConfig.mqtt_topic_prefix,
+        discovery: appConfig.mqtt_discovery,
+      });
+      mqttPublisher.start();
+    }
+
+    // Subscribe to state changes for real-time updates
+    startLiveUpdates();
+    startAqiUpdates();
+
+    recorder = new ReadingRecorder(db, () => getDevices(), appConfig.recorder_interval);
+    recorder.onSample((readings) => webhooks.dispatch('reading', { readings }));
+    if (appConfig.recorder_enabled) {
+      recorder.start();
+    }
+
+    retentionJob = new RetentionJob(db, {
+      raw_days: appConfig.raw_retention_days,
+      hourly_days: appConfig.hourly_retention_days,
+      daily_days: appConfig.daily_retention_days,
+    });
+    retentionJob.start();
+
+    backfill = new HistoryBackfill(
+      db,
+      haSocket,
+      () => fetchSensors(appConfig.sensor_prefix),
+      appConfig.sensor_prefix,
+      appConfig.recorder_interval,
+      deviceRegistry,
+    );
+    // Statistics are read over the WebSocket, so an interrupted job resumes once it is up
+    haSocket.onReady(() => backfill.resumeInterrupted());
+
     // Create and start Express app
     const app = createApp();
 
@@ -342,27 +965,22 @@ async function startServer(): Promise<void> {
       console.log(`[Server] Server listening on port ${PORT}`);
       console.log(`[Server] Static files served from: ${STATIC_PATH}`);
       console.log(
-        `[Server] Configuration: sensor_prefix="${appConfig.sensor_prefix}", update_interval=${appConfig.update_interval}s, history_days=${appConfig.history_days}`,
+        `[Server] Configuration: sensor_prefix="${appConfig.sensor_prefix}", update_interval=${appConfig.update_interval}s, history_days=${appConfig.history_days}, recorder_interval=${appConfig.recorder_interval}s`,
       );
       console.log('[Server] Ready to handle requests');
     });
-
-    // Graceful shutdown
-    process.on('SIGTERM', () => {
-      console.log('[Server] SIGTERM received, shutting down gracefully...');
-      server.close(() => {
-        console.log('[Server] Server closed');
-        process.exit(0);
-      });
+    metricsServer = createMetricsApp().listen(METRICS_PORT, () => {
+      console.log(`[Server] Metrics listening on port ${METRICS_PORT}`);
     });
-
-    process.on('SIGINT', () => {
-      console.log('[Server] SIGINT received, shutting down gracefully...');
-      server.close(() => {
-        console.log('[Server] Server closed');
-        process.exit(0);
-      });
+    // Metrics are optional, the dashboard keeps running without them
+    metricsServer.on('error', (error: Error) => {
+      console.error(`[Server] Metrics unavailable, could not listen on port ${METRICS_PORT}:`, getErrorMessage(error));
+      metricsServer = null;
     });
+
+    // Graceful shutdown
+    process.on('SIGTERM', () => shutdown(server, 'SIGTERM'));
+    process.on('SIGINT', () => shutdown(server, 'SIGINT'));
   } catch (error: unknown) {
     console.error('[Server] Failed to start server:', error);
     process.exit(1);
@@ -374,4 +992,4 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   startServer();
 }
 
-export { createApp, loadConfig, startServer };
+export { createApp, createMetricsApp, loadConfig, startServer };
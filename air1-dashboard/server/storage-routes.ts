@@ -1,213 +1,566 @@
 import { type Request, type Response, Router } from 'express';
-import { AirQualityDatabase } from './db';
-
-const router = Router();
-const db = new AirQualityDatabase();
+import type { HistoryBackfill } from './backfill';
+import {
+  CSV_PRESETS,
+  type CsvMapping,
+  isTimeZone,
+  mapCsvSample,
+  openCsvImport,
+  parseMapping,
+  validateMapping,
+} from './csv-import';
+import {
+  AGGREGATE_BUCKETS,
+  AGGREGATE_METRICS,
+  type AggregateBucket,
+  type AirQualityDatabase,
+  BACKFILL_SOURCES,
+  type BackfillSource,
+  CONFLICT_STRATEGIES,
+  type ConflictStrategy,
+  type RollupResolution,
+} from './db';
+import { EXPORT_FORMATS, type ExportFormat, serializeReadings, streamToResponse } from './export-formats';
+import { type ImportRow, ReadingImporter, parseNdjson, readLines } from './reading-import';
 
 // Helper to generate unique ID using Web Crypto API
 function generateId(): string {
   return crypto.randomUUID().replace(/-/g, '');
 }
 
-// GET /readings - Retrieve readings with pagination and filtering
-router.get('/readings', (req: Request, res: Response) => {
-  try {
-    const limit = req.query.limit ? Number.parseInt(req.query.limit as string, 10) : 50;
-    const offset = req.query.offset ? Number.parseInt(req.query.offset as string, 10) : 0;
-    const device_id = req.query.device_id as string | undefined;
-    const room = req.query.room as string | undefined;
-    const since = req.query.since ? Number.parseInt(req.query.since as string, 10) : undefined;
-
-    const readings = db.getReadings({
-      limit,
-      offset,
-      device_id,
-      room,
-      since,
-    });
+// Allowed spacing of backfilled readings, seconds
+const MIN_BACKFILL_INTERVAL = 60;
+const MAX_BACKFILL_INTERVAL = 86400;
 
-    // Parse sensor_data JSON for each reading
-    const parsedReadings = readings.map((reading) => ({
-      id: reading.id,
-      device_id: reading.device_id,
-      room: reading.room,
-      timestamp: reading.timestamp,
-      created_at: reading.created_at,
-      data: JSON.parse(reading.sensor_data),
-    }));
+/**
+ * Parse a time from a request body: epoch milliseconds or an ISO date
+ */
+function parseTime(value: unknown): number | null {
+  const time = typeof value === 'string' && Number.isNaN(Number(value)) ? Date.parse(value) : Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(time) && time > 0 ? time : null;
+}
 
-    res.json({
-      readings: parsedReadings,
-      pagination: {
+/**
+ * Create the storage API router
+ * @param db - Database shared with the background recorder
+ * @param dbPath - Database file path reported by /stats
+ * @param backfill - Job importing readings from Home Assistant history
+ * @param getTimeZone - Home Assistant's time zone, the default for CSV times without an offset
+ */
+export function createStorageRouter(
+  db: AirQualityDatabase,
+  dbPath: string,
+  backfill: HistoryBackfill,
+  getTimeZone: () => string | undefined = () => undefined,
+): Router {
+  const router = Router();
+  const importer = new ReadingImporter(db);
+
+  /**
+   * Time zone of CSV times without an offset: the requested one, Home
+   * Assistant's, or the server's
+   * @returns The time zone, or null if the requested one is unknown
+   */
+  const csvTimeZone = (requested: unknown): string | null => {
+    const timeZone =
+      (typeof requested === 'string' && requested.trim()) ||
+      getTimeZone() ||
+      Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return isTimeZone(timeZone) ? timeZone : null;
+  };
+
+  // GET /readings - Retrieve readings with pagination and filtering
+  router.get('/readings', (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? Number.parseInt(req.query.limit as string, 10) : 50;
+      const offset = req.query.offset ? Number.parseInt(req.query.offset as string, 10) : 0;
+      const device_id = req.query.device_id as string | undefined;
+      const room = req.query.room as string | undefined;
+      const since = req.query.since ? Number.parseInt(req.query.since as string, 10) : undefined;
+      const metric = req.query.metric as string | undefined;
+      const above = req.query.above ? Number.parseFloat(req.query.above as string) : undefined;
+      const below = req.query.below ? Number.parseFloat(req.query.below as string) : undefined;
+
+      if (metric && !AGGREGATE_METRICS.includes(metric)) {
+        res.status(400).json({ error: `Unknown metric: ${metric}` });
+        return;
+      }
+
+      if (Number.isNaN(above) || Number.isNaN(below)) {
+        res.status(400).json({ error: 'Invalid above/below, expected numbers' });
+        return;
+      }
+
+      const readings = db.getReadings({
         limit,
         offset,
-        count: parsedReadings.length,
-      },
-    });
-  } catch (error) {
-    console.error('Error fetching readings:', error);
-    res.status(500).json({ error: 'Failed to fetch readings' });
-  }
-});
-
-// POST /readings - Store a new reading
-router.post('/readings', (req: Request, res: Response) => {
-  try {
-    const { data, room, device_id, timestamp } = req.body;
-
-    if (!data || !room) {
-      res.status(400).json({ error: 'Missing required fields: data, room' });
-      return;
+        device_id,
+        room,
+        since,
+        metric,
+        above,
+        below,
+      });
+
+      res.json({
+        readings,
+        pagination: {
+          limit,
+          offset,
+          count: readings.length,
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching readings:', error);
+      res.status(500).json({ error: 'Failed to fetch readings' });
     }
+  });
 
-    const id = generateId();
-    const readingTimestamp = timestamp || Date.now();
+  // GET /aggregate - Min/max/avg/p95 and sample count per metric and time bucket
+  router.get('/aggregate', (req: Request, res: Response) => {
+    try {
+      const bucket = ((req.query.bucket as string | undefined) || '1h') as AggregateBucket;
+      if (!(bucket in AGGREGATE_BUCKETS)) {
+        res
+          .status(400)
+          .json({ error: `Invalid bucket, expected one of: ${Object.keys(AGGREGATE_BUCKETS).join(', ')}` });
+        return;
+      }
 
-    db.insertReading({
-      id,
-      device_id: device_id || null,
-      room,
-      timestamp: readingTimestamp,
-      sensor_data: JSON.stringify(data),
-    });
+      const metrics = req.query.metrics ? (req.query.metrics as string).split(',') : AGGREGATE_METRICS;
+      const unknownMetrics = metrics.filter((metric) => !AGGREGATE_METRICS.includes(metric));
+      if (unknownMetrics.length > 0) {
+        res.status(400).json({ error: `Unknown metrics: ${unknownMetrics.join(', ')}` });
+        return;
+      }
 
-    res.status(201).json({
-      id,
-      timestamp: readingTimestamp,
-      success: true,
-    });
-  } catch (error) {
-    console.error('Error storing reading:', error);
-    res.status(500).json({ error: 'Failed to store reading' });
-  }
-});
-
-// DELETE /readings/:id - Delete a specific reading
-router.delete('/readings/:id', (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-
-    if (!id) {
-      res.status(400).json({ error: 'Missing reading ID' });
-      return;
+      const device_id = req.query.device_id as string | undefined;
+      const room = req.query.room as string | undefined;
+      const since = req.query.since ? Number.parseInt(req.query.since as string, 10) : undefined;
+      const until = req.query.until ? Number.parseInt(req.query.until as string, 10) : undefined;
+
+      if (Number.isNaN(since) || Number.isNaN(until)) {
+        res.status(400).json({ error: 'Invalid since/until, expected epoch milliseconds' });
+        return;
+      }
+
+      const buckets = db.getAggregates({ bucket, metrics, device_id, room, since, until });
+
+      res.json({
+        bucket,
+        since: since ?? null,
+        until: until ?? null,
+        buckets,
+        count: buckets.length,
+      });
+    } catch (error) {
+      console.error('Error aggregating readings:', error);
+      res.status(500).json({ error: 'Failed to aggregate readings' });
     }
+  });
 
-    db.deleteReading(id);
+  // GET /rollups - Hourly or daily rollups, kept after raw readings are pruned
+  router.get('/rollups', (req: Request, res: Response) => {
+    try {
+      const resolution = ((req.query.resolution as string | undefined) || 'hourly') as RollupResolution;
+      if (resolution !== 'hourly' && resolution !== 'daily') {
+        res.status(400).json({ error: 'Invalid resolution, expected one of: hourly, daily' });
+        return;
+      }
 
-    res.json({
-      success: true,
-      message: `Reading ${id} deleted`,
-    });
-  } catch (error) {
-    console.error('Error deleting reading:', error);
-    res.status(500).json({ error: 'Failed to delete reading' });
-  }
-});
+      const metrics = req.query.metrics ? (req.query.metrics as string).split(',') : AGGREGATE_METRICS;
+      const unknownMetrics = metrics.filter((metric) => !AGGREGATE_METRICS.includes(metric));
+      if (unknownMetrics.length > 0) {
+        res.status(400).json({ error: `Unknown metrics: ${unknownMetrics.join(', ')}` });
+        return;
+      }
 
-// DELETE /readings - Clear all readings
-router.delete('/readings', (req: Request, res: Response) => {
-  try {
-    db.deleteAllReadings();
+      const device_id = req.query.device_id as string | undefined;
+      const room = req.query.room as string | undefined;
+      const since = req.query.since ? Number.parseInt(req.query.since as string, 10) : undefined;
+      const until = req.query.until ? Number.parseInt(req.query.until as string, 10) : undefined;
 
-    res.json({
-      success: true,
-      message: 'All readings cleared',
-    });
-  } catch (error) {
-    console.error('Error clearing readings:', error);
-    res.status(500).json({ error: 'Failed to clear readings' });
-  }
-});
-
-// GET /export - Export all readings
-router.get('/export', (req: Request, res: Response) => {
-  try {
-    const readings = db.getAllReadingsForExport();
-
-    // Parse sensor_data JSON for each reading
-    const parsedReadings = readings.map((reading) => ({
-      id: reading.id,
-      device_id: reading.device_id,
-      room: reading.room,
-      timestamp: reading.timestamp,
-      created_at: reading.created_at,
-      data: JSON.parse(reading.sensor_data),
-    }));
-
-    res.setHeader('Content-Type', 'application/json');
-    res.setHeader('Content-Disposition', 'attachment; filename="air_quality_export.json"');
-    res.json({
-      export_date: new Date().toISOString(),
-      version: '1.0',
-      readings: parsedReadings,
-    });
-  } catch (error) {
-    console.error('Error exporting data:', error);
-    res.status(500).json({ error: 'Failed to export data' });
-  }
-});
-
-// POST /import - Import readings from export file
-router.post('/import', (req: Request, res: Response) => {
-  try {
-    const { readings } = req.body;
-
-    if (!Array.isArray(readings)) {
-      res.status(400).json({ error: 'Invalid import format: readings must be an array' });
-      return;
+      if (Number.isNaN(since) || Number.isNaN(until)) {
+        res.status(400).json({ error: 'Invalid since/until, expected epoch milliseconds' });
+        return;
+      }
+
+      const rollups = db.getRollups({ resolution, metrics, device_id, room, since, until });
+
+      res.json({
+        resolution,
+        rollups,
+        count: rollups.length,
+      });
+    } catch (error) {
+      console.error('Error fetching rollups:', error);
+      res.status(500).json({ error: 'Failed to fetch rollups' });
+    }
+  });
+
+  // POST /readings - Store a new reading
+  router.post('/readings', (req: Request, res: Response) => {
+    try {
+      const { data, room, device_id, timestamp } = req.body;
+
+      if (!data || !room) {
+        res.status(400).json({ error: 'Missing required fields: data, room' });
+        return;
+      }
+
+      const id = generateId();
+      const readingTimestamp = timestamp || Date.now();
+
+      db.insertReading({
+        id,
+        device_id: device_id || null,
+        room,
+        timestamp: readingTimestamp,
+        data,
+      });
+
+      res.status(201).json({
+        id,
+        timestamp: readingTimestamp,
+        success: true,
+      });
+    } catch (error) {
+      console.error('Error storing reading:', error);
+      res.status(500).json({ error: 'Failed to store reading' });
+    }
+  });
+
+  // DELETE /readings/:id - Delete a specific reading
+  router.delete('/readings/:id', (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({ error: 'Missing reading ID' });
+        return;
+      }
+
+      db.deleteReading(id);
+      db.refreshTableRowCounts();
+
+      res.json({
+        success: true,
+        message: `Reading ${id} deleted`,
+      });
+    } catch (error) {
+      console.error('Error deleting reading:', error);
+      res.status(500).json({ error: 'Failed to delete reading' });
+    }
+  });
+
+  // POST /devices/:device_id/relabel - Move a device's stored history to one room label
+  router.post('/devices/:device_id/relabel', (req: Request, res: Response) => {
+    try {
+      const { device_id } = req.params;
+      const room = typeof req.body?.room === 'string' ? req.body.room.trim() : '';
+      if (!room) {
+        res.status(400).json({ error: 'Missing required field: room' });
+        return;
+      }
+
+      const relabelled = db.relabelDeviceHistory(device_id, room);
+      db.refreshTableRowCounts();
+
+      res.json({
+        success: true,
+        device_id,
+        room,
+        relabelled,
+      });
+    } catch (error) {
+      console.error('Error relabelling history:', error);
+      res.status(500).json({ error: 'Failed to relabel history' });
+    }
+  });
+
+  // DELETE /readings - Clear all readings
+  router.delete('/readings', (req: Request, res: Response) => {
+    try {
+      db.deleteAllReadings();
+
+      res.json({
+        success: true,
+        message: 'All readings cleared',
+      });
+    } catch (error) {
+      console.error('Error clearing readings:', error);
+      res.status(500).json({ error: 'Failed to clear readings' });
+    }
+  });
+
+  // GET /export - Export readings as JSON, CSV, NDJSON or InfluxDB line protocol
+  router.get('/export', async (req: Request, res: Response) => {
+    try {
+      const format = ((req.query.format as string | undefined) || 'json') as ExportFormat;
+      if (!(format in EXPORT_FORMATS)) {
+        res.status(400).json({ error: `Invalid format, expected one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+        return;
+      }
+
+      const device_id = req.query.device_id as string | undefined;
+      const room = req.query.room as string | undefined;
+      const since = req.query.since ? Number.parseInt(req.query.since as string, 10) : undefined;
+      const until = req.query.until ? Number.parseInt(req.query.until as string, 10) : undefined;
+
+      if (Number.isNaN(since) || Number.isNaN(until)) {
+        res.status(400).json({ error: 'Invalid since/until, expected epoch milliseconds' });
+        return;
+      }
+
+      const { content_type, extension } = EXPORT_FORMATS[format];
+      res.setHeader('Content-Type', content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="air_quality_export.${extension}"`);
+
+      const readings = db.iterateReadingsForExport({ device_id, room, since, until });
+      await streamToResponse(res, serializeReadings(format, readings, req.query.units === 'true'));
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      if (res.headersSent) {
+        // Part of the export was sent already, abort so the file is not mistaken for complete
+        res.destroy();
+      } else {
+        res.status(500).json({ error: 'Failed to export data' });
+      }
     }
+  });
 
-    let importedCount = 0;
-    let errorCount = 0;
+  // POST /import - Import readings streamed as NDJSON, or the readings of a JSON export document
+  router.post('/import', async (req: Request, res: Response) => {
+    try {
+      const conflict = ((req.query.conflict as string | undefined) || 'overwrite') as ConflictStrategy;
+      if (!CONFLICT_STRATEGIES.includes(conflict)) {
+        res.status(400).json({ error: `Invalid conflict, expected one of: ${CONFLICT_STRATEGIES.join(', ')}` });
+        return;
+      }
+      const dry_run = req.query.dry_run === 'true';
+
+      // Claimed before the body is read, so a concurrent request cannot start a second import
+      if (!importer.claim()) {
+        res.status(409).json({ error: 'An import is already running' });
+        return;
+      }
 
-    for (const reading of readings) {
       try {
-        // Validate required fields
-        if (!reading.data || !reading.room || !reading.timestamp) {
-          errorCount++;
-          continue;
+        let rows: AsyncIterable<ImportRow> | ImportRow[];
+        if (req.is('text/csv')) {
+          let mapping: CsvMapping | undefined;
+          if (req.query.mapping) {
+            const parsed = parseMapping(req.query.mapping);
+            if ('error' in parsed) {
+              res.status(400).json({ error: parsed.error });
+              return;
+            }
+            mapping = parsed.mapping;
+          }
+
+          const preset = req.query.preset as string | undefined;
+          if (preset && !(preset in CSV_PRESETS)) {
+            res.status(400).json({ error: `Unknown preset, expected one of: ${Object.keys(CSV_PRESETS).join(', ')}` });
+            return;
+          }
+
+          const time_zone = csvTimeZone(req.query.time_zone);
+          if (!time_zone) {
+            res.status(400).json({ error: `Unknown time zone: ${req.query.time_zone}` });
+            return;
+          }
+
+          const csv = await openCsvImport(readLines(req), {
+            preset,
+            mapping,
+            time_zone,
+            defaults: {
+              room: req.query.room as string | undefined,
+              device_id: req.query.device_id as string | undefined,
+            },
+          });
+          if ('error' in csv) {
+            res.status(400).json({ error: csv.error });
+            return;
+          }
+          rows = csv.rows;
+        } else if (req.is('application/x-ndjson')) {
+          rows = parseNdjson(readLines(req));
+        } else {
+          const readings = req.body?.readings;
+          if (!Array.isArray(readings)) {
+            res.status(400).json({ error: 'Invalid import format: readings must be an array' });
+            return;
+          }
+          rows = readings.map((value: unknown) => ({ value }));
         }
 
-        db.insertReading({
-          id: reading.id || generateId(),
-          device_id: reading.device_id || null,
-          room: reading.room,
-          timestamp: reading.timestamp,
-          sensor_data: typeof reading.data === 'string' ? reading.data : JSON.stringify(reading.data),
-        });
+        const result = await importer.import(rows, { conflict, dry_run });
 
-        importedCount++;
-      } catch (err) {
-        console.error('Error importing reading:', err);
-        errorCount++;
+        res.json({
+          success: true,
+          ...result,
+        });
+      } finally {
+        importer.release();
       }
+    } catch (error) {
+      console.error('Error importing data:', error);
+      res.status(500).json({ error: 'Failed to import data' });
     }
+  });
 
+  // GET /import/csv-presets - Presets for mapping CSV exports of other monitors
+  router.get('/import/csv-presets', (req: Request, res: Response) => {
     res.json({
-      success: true,
-      imported: importedCount,
-      errors: errorCount,
-      total: readings.length,
+      presets: Object.entries(CSV_PRESETS).map(([id, preset]) => ({ id, name: preset.name })),
     });
-  } catch (error) {
-    console.error('Error importing data:', error);
-    res.status(500).json({ error: 'Failed to import data' });
-  }
-});
+  });
 
-// GET /stats - Get database statistics
-router.get('/stats', (req: Request, res: Response) => {
-  try {
-    const stats = db.getStats();
+  // POST /import/csv-mapping - Map the first lines of a CSV file by a preset (detected if not given)
+  router.post('/import/csv-mapping', (req: Request, res: Response) => {
+    try {
+      const { sample, preset } = req.body ?? {};
+      if (typeof sample !== 'string' || !sample.trim()) {
+        res.status(400).json({ error: 'Missing required field: sample' });
+        return;
+      }
 
-    res.json({
-      ...stats,
-      database_path: '/data/air_quality.db',
-    });
-  } catch (error) {
-    console.error('Error fetching stats:', error);
-    res.status(500).json({ error: 'Failed to fetch statistics' });
-  }
-});
+      const time_zone = csvTimeZone(req.body.time_zone);
+      if (!time_zone) {
+        res.status(400).json({ error: `Unknown time zone: ${req.body.time_zone}` });
+        return;
+      }
+
+      const result = mapCsvSample(sample, typeof preset === 'string' ? preset : undefined);
+      res.json({ ...result, time_zone, mapping_error: validateMapping(result.mapping, result.header) });
+    } catch (error) {
+      console.error('Error mapping CSV:', error);
+      res.status(500).json({ error: 'Failed to map CSV' });
+    }
+  });
+
+  // GET /import/progress - Progress of the running or last import
+  router.get('/import/progress', (req: Request, res: Response) => {
+    res.json(importer.getProgress());
+  });
+
+  // POST /backfill - Reconstruct readings of a date range from Home Assistant history
+  router.post('/backfill', (req: Request, res: Response) => {
+    try {
+      const body = req.body ?? {};
+
+      const start = parseTime(body.start);
+      if (start === null) {
+        res.status(400).json({ error: 'Invalid start, expected epoch milliseconds or an ISO date' });
+        return;
+      }
+      const end = body.end === undefined ? Date.now() : parseTime(body.end);
+      if (end === null) {
+        res.status(400).json({ error: 'Invalid end, expected epoch milliseconds or an ISO date' });
+        return;
+      }
+      if (start >= Math.min(end, Date.now())) {
+        res.status(400).json({ error: 'start must be before end and in the past' });
+        return;
+      }
+
+      const source = (body.source ?? 'auto') as BackfillSource;
+      if (!BACKFILL_SOURCES.includes(source)) {
+        res.status(400).json({ error: `Invalid source, expected one of: ${BACKFILL_SOURCES.join(', ')}` });
+        return;
+      }
+
+      const interval = body.interval === undefined ? undefined : Number(body.interval);
+      if (
+        interval !== undefined &&
+        (!Number.isInteger(interval) || interval < MIN_BACKFILL_INTERVAL || interval > MAX_BACKFILL_INTERVAL)
+      ) {
+        res.status(400).json({
+          error: `Invalid interval, expected seconds between ${MIN_BACKFILL_INTERVAL} and ${MAX_BACKFILL_INTERVAL}`,
+        });
+        return;
+      }
+
+      const device_ids = body.device_ids ?? null;
+      if (
+        device_ids !== null &&
+        (!Array.isArray(device_ids) || device_ids.some((id: unknown) => typeof id !== 'string'))
+      ) {
+        res.status(400).json({ error: 'device_ids must be an array of device IDs' });
+        return;
+      }
+
+      if (backfill.isRunning()) {
+        res.status(409).json({ error: 'A backfill is already running' });
+        return;
+      }
+
+      const job = backfill.start({
+        start,
+        // Nothing to backfill from the future
+        end: Math.min(end, Date.now()),
+        source,
+        interval: interval === undefined ? undefined : interval * 1000,
+        device_ids,
+      });
+      res.status(202).json({ success: true, job });
+    } catch (error) {
+      console.error('Error starting backfill:', error);
+      res.status(500).json({ error: 'Failed to start backfill' });
+    }
+  });
+
+  // GET /backfill - Progress of the running or last backfill
+  router.get('/backfill', (req: Request, res: Response) => {
+    res.json(backfill.getProgress());
+  });
+
+  // POST /backfill/resume - Continue the last backfill if it failed or was cancelled
+  router.post('/backfill/resume', (req: Request, res: Response) => {
+    try {
+      if (backfill.isRunning()) {
+        res.status(409).json({ error: 'A backfill is already running' });
+        return;
+      }
+
+      const job = backfill.resume();
+      if (!job) {
+        res.status(404).json({ error: 'No backfill to resume' });
+        return;
+      }
+      res.status(202).json({ success: true, job });
+    } catch (error) {
+      console.error('Error resuming backfill:', error);
+      res.status(500).json({ error: 'Failed to resume backfill' });
+    }
+  });
+
+  // DELETE /backfill - Cancel the running backfill
+  router.delete('/backfill', (req: Request, res: Response) => {
+    if (!backfill.cancel()) {
+      res.status(404).json({ error: 'No backfill is running' });
+      return;
+    }
+    res.json({ success: true });
+  });
+
+  // GET /stats - Get database statistics
+  router.get('/stats', (req: Request, res: Response) => {
+    try {
+      const stats = db.getStats();
+
+      res.json({
+        ...stats,
+        database_path: dbPath,
+      });
+    } catch (error) {
+      console.error('Error fetching stats:', error);
+      res.status(500).json({ error: 'Failed to fetch statistics' });
+    }
+  });
+
+  return router;
+}
 
-export default router;
+export default createStorageRouter;
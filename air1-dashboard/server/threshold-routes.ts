@@ -0,0 +1,207 @@
+import { type Request, type Response, Router } from 'express';
+import { AGGREGATE_METRICS, type AirQualityDatabase, type ThresholdTier } from './db';
+import { invalidateThresholds } from './tiers';
+
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+// Helper to generate unique ID using Web Crypto API
+function generateId(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Validate the tiers of a profile
+ * @returns The tiers per metric, or an error message
+ */
+function parseThresholds(value: unknown): { thresholds: Record<string, ThresholdTier[]> } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'thresholds must be an object of tier lists per metric' };
+  }
+
+  const thresholds: Record<string, ThresholdTier[]> = {};
+  for (const [metric, tiers] of Object.entries(value)) {
+    if (!AGGREGATE_METRICS.includes(metric)) {
+      return { error: `Unknown metric: ${metric}` };
+    }
+    if (!Array.isArray(tiers) || tiers.length === 0) {
+      return { error: `${metric}: expected a non-empty list of tiers` };
+    }
+
+    const parsed: ThresholdTier[] = [];
+    for (const [i, tier] of tiers.entries()) {
+      if (typeof tier?.max !== 'number' || !Number.isFinite(tier.max)) {
+        return { error: `${metric} tier ${i + 1}: max must be a number` };
+      }
+      if (typeof tier.label !== 'string' || tier.label.trim() === '') {
+        return { error: `${metric} tier ${i + 1}: label is required` };
+      }
+      if (typeof tier.color !== 'string' || !COLOR_PATTERN.test(tier.color)) {
+        return { error: `${metric} tier ${i + 1}: color must be a hex color like #22c55e` };
+      }
+      if (tier.advice !== undefined && typeof tier.advice !== 'string') {
+        return { error: `${metric} tier ${i + 1}: advice must be a string` };
+      }
+      if (i > 0 && tier.max <= parsed[i - 1].max) {
+        return { error: `${metric}: tier max values must be ascending` };
+      }
+
+      parsed.push({
+        max: tier.max,
+        label: tier.label.trim(),
+        color: tier.color,
+        ...(tier.advice ? { advice: tier.advice } : {}),
+      });
+    }
+    thresholds[metric] = parsed;
+  }
+
+  return { thresholds };
+}
+
+/**
+ * Create the threshold profile API router
+ * @param db - Database the profiles and device assignments are stored in
+ */
+export function createThresholdRouter(db: AirQualityDatabase): Router {
+  const router = Router();
+
+  const nameTaken = (name: string, exceptId?: string) =>
+    db.getThresholdProfiles().some((profile) => profile.name === name && profile.id !== exceptId);
+
+  // GET / - All profiles and the profile assigned to each device
+  router.get('/', (req: Request, res: Response) => {
+    try {
+      res.json({
+        profiles: db.getThresholdProfiles(),
+        assignments: db.getThresholdAssignments(),
+      });
+    } catch (error) {
+      console.error('Error fetching threshold profiles:', error);
+      res.status(500).json({ error: 'Failed to fetch threshold profiles' });
+    }
+  });
+
+  // GET /:id - A single profile
+  router.get('/:id', (req: Request, res: Response) => {
+    try {
+      const profile = db.getThresholdProfile(req.params.id);
+      if (!profile) {
+        res.status(404).json({ error: 'Threshold profile not found' });
+        return;
+      }
+      res.json(profile);
+    } catch (error) {
+      console.error('Error fetching threshold profile:', error);
+      res.status(500).json({ error: 'Failed to fetch threshold profile' });
+    }
+  });
+
+  // POST / - Create a profile
+  router.post('/', (req: Request, res: Response) => {
+    try {
+      const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+      if (!name) {
+        res.status(400).json({ error: 'Missing required field: name' });
+        return;
+      }
+      if (nameTaken(name)) {
+        res.status(409).json({ error: `A profile named "${name}" already exists` });
+        return;
+      }
+
+      const parsed = parseThresholds(req.body.thresholds ?? {});
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const profile = db.createThresholdProfile({ id: generateId(), name, thresholds: parsed.thresholds });
+      invalidateThresholds(db);
+      res.status(201).json(profile);
+    } catch (error) {
+      console.error('Error creating threshold profile:', error);
+      res.status(500).json({ error: 'Failed to create threshold profile' });
+    }
+  });
+
+  // PUT /:id - Rename a profile and/or replace its tiers
+  router.put('/:id', (req: Request, res: Response) => {
+    try {
+      const changes: { name?: string; thresholds?: Record<string, ThresholdTier[]> } = {};
+
+      if (req.body?.name !== undefined) {
+        const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+        if (!name) {
+          res.status(400).json({ error: 'name must be a non-empty string' });
+          return;
+        }
+        if (nameTaken(name, req.params.id)) {
+          res.status(409).json({ error: `A profile named "${name}" already exists` });
+          return;
+        }
+        changes.name = name;
+      }
+
+      if (req.body?.thresholds !== undefined) {
+        const parsed = parseThresholds(req.body.thresholds);
+        if ('error' in parsed) {
+          res.status(400).json({ error: parsed.error });
+          return;
+        }
+        changes.thresholds = parsed.thresholds;
+      }
+
+      const profile = db.updateThresholdProfile(req.params.id, changes);
+      if (!profile) {
+        res.status(404).json({ error: 'Threshold profile not found' });
+        return;
+      }
+      invalidateThresholds(db);
+      res.json(profile);
+    } catch (error) {
+      console.error('Error updating threshold profile:', error);
+      res.status(500).json({ error: 'Failed to update threshold profile' });
+    }
+  });
+
+  // DELETE /:id - Delete a profile, devices using it fall back to the defaults
+  router.delete('/:id', (req: Request, res: Response) => {
+    try {
+      if (!db.deleteThresholdProfile(req.params.id)) {
+        res.status(404).json({ error: 'Threshold profile not found' });
+        return;
+      }
+      invalidateThresholds(db);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting threshold profile:', error);
+      res.status(500).json({ error: 'Failed to delete threshold profile' });
+    }
+  });
+
+  // PUT /devices/:device_id - Assign a profile to a device, { profile_id: null } removes it
+  router.put('/devices/:device_id', (req: Request, res: Response) => {
+    try {
+      const profileId = req.body?.profile_id;
+      if (profileId !== null && typeof profileId !== 'string') {
+        res.status(400).json({ error: 'profile_id must be a profile ID or null' });
+        return;
+      }
+      if (profileId !== null && !db.getThresholdProfile(profileId)) {
+        res.status(404).json({ error: 'Threshold profile not found' });
+        return;
+      }
+
+      db.assignThresholdProfile(req.params.device_id, profileId);
+      invalidateThresholds(db);
+      res.json({ device_id: req.params.device_id, profile_id: profileId });
+    } catch (error) {
+      console.error('Error assigning threshold profile:', error);
+      res.status(500).json({ error: 'Failed to assign threshold profile' });
+    }
+  });
+
+  return router;
+}
+
+export default createThresholdRouter;
@@ -0,0 +1,133 @@
+/**
+ * Threshold Tiers
+ *
+ * Classifies values outside the dashboard, for alert notifications and the
+ * entities published to Home Assistant. A device's threshold profile takes
+ * precedence over the default tiers. Profiles and their assignments are read
+ * once and cached until the threshold routes change them.
+ */
+
+import { type AqiPollutant, BREAKPOINTS } from './aqi';
+import type { AirQualityDatabase, ThresholdTier } from './db';
+
+export type Tier = Pick<ThresholdTier, 'max' | 'label' | 'advice'>;
+
+export interface Classification extends Tier {
+  // Position of the tier, 0 = best
+  severity: number;
+}
+
+// US EPA AQI categories
+const AQI_TIERS: Tier[] = [
+  { max: 50, label: 'Good', advice: 'Air quality is satisfactory.' },
+  { max: 100, label: 'Moderate', advice: 'Unusually sensitive people limit exertion.' },
+  { max: 150, label: 'Unhealthy (Sensitive)', advice: 'Sensitive groups reduce exertion.' },
+  { max: 200, label: 'Unhealthy', advice: 'Everyone reduce prolonged exertion.' },
+  { max: 300, label: 'Very Unhealthy', advice: 'Health alert. Avoid exertion.' },
+  { max: 9999, label: 'Hazardous', advice: 'Emergency conditions.' },
+];
+
+const PM25_ADVICE = [
+  'Air quality is great.',
+  'Acceptable. Sensitive individuals limit exposure.',
+  'Sensitive groups reduce exertion.',
+  'Ventilate or run HEPA filter.',
+  'Health alert. Ventilate immediately.',
+  'Emergency. Purifier on max.',
+];
+
+/**
+ * Concentration tiers of a pollutant from the AQI breakpoints, so a value and
+ * its AQI always fall into the same category
+ */
+function particleTiers(pollutant: AqiPollutant, advice?: string[]): Tier[] {
+  const breakpoints = BREAKPOINTS[pollutant];
+  return breakpoints.map((bp, i) => ({
+    // Above the highest breakpoint the AQI stays Hazardous
+    max: i === breakpoints.length - 1 ? 9999 : bp.cHigh,
+    label: AQI_TIERS[i].label,
+    ...(advice ? { advice: advice[i] } : {}),
+  }));
+}
+
+// Same tiers as the dashboard's default thresholds (US EPA for particulates)
+export const DEFAULT_TIERS: Record<string, Tier[]> = {
+  pm25: particleTiers('pm25', PM25_ADVICE),
+  pm10: particleTiers('pm10'),
+  co2: [
+    { max: 600, label: 'Excellent', advice: 'Well-ventilated.' },
+    { max: 800, label: 'Good', advice: 'Normal occupied room.' },
+    { max: 1000, label: 'Acceptable', advice: 'Getting stuffy. Open a window.' },
+    { max: 1500, label: 'Poor', advice: 'Drowsiness & reduced focus likely.' },
+    { max: 2000, label: 'Bad', advice: 'Open windows now.' },
+    { max: 9999, label: 'Dangerous', advice: 'Ventilate immediately.' },
+  ],
+  humidity: [
+    { max: 24.9, label: 'Too Dry', advice: 'Consider a humidifier.' },
+    { max: 30, label: 'Dry', advice: 'Slightly dry.' },
+    { max: 50, label: 'Comfortable', advice: 'Ideal range.' },
+    { max: 60, label: 'Humid', advice: 'Watch for condensation.' },
+    { max: 100, label: 'Too Humid', advice: 'Mold risk.' },
+  ],
+  voc: [
+    { max: 79, label: 'Improved', advice: 'Cleaner than baseline.' },
+    { max: 149, label: 'Normal', advice: 'Typical for this environment.' },
+    { max: 249, label: 'Abnormal', advice: 'Elevated VOCs. Ventilate.' },
+    { max: 399, label: 'Very Abnormal', advice: 'High VOCs. Open windows.' },
+    { max: 9999, label: 'Extremely Abnormal', advice: 'Ventilate immediately.' },
+  ],
+  temperature: [
+    { max: 15, label: 'Cold' },
+    { max: 18, label: 'Cool' },
+    { max: 24, label: 'Comfortable' },
+    { max: 27, label: 'Warm' },
+    { max: 99, label: 'Hot' },
+  ],
+  aqi: AQI_TIERS,
+};
+
+// Thresholds of each device's assigned profile, per database
+const deviceThresholds = new WeakMap<AirQualityDatabase, Map<string, Record<string, ThresholdTier[]>>>();
+
+/**
+ * Thresholds of the profile assigned to a device, undefined without one
+ */
+function profileThresholds(db: AirQualityDatabase, deviceId: string): Record<string, ThresholdTier[]> | undefined {
+  let byDevice = deviceThresholds.get(db);
+  if (!byDevice) {
+    const profiles = new Map(db.getThresholdProfiles().map((profile) => [profile.id, profile.thresholds]));
+    byDevice = new Map();
+    for (const [device, profileId] of Object.entries(db.getThresholdAssignments())) {
+      const thresholds = profiles.get(profileId);
+      if (thresholds) byDevice.set(device, thresholds);
+    }
+    deviceThresholds.set(db, byDevice);
+  }
+  return byDevice.get(deviceId);
+}
+
+/**
+ * Read profiles and assignments again on the next classification, after they changed
+ */
+export function invalidateThresholds(db: AirQualityDatabase): void {
+  deviceThresholds.delete(db);
+}
+
+/**
+ * Tier of a value, from the device's threshold profile, otherwise the defaults
+ * @returns The tier, or null for metrics without tiers
+ */
+export function classify(
+  db: AirQualityDatabase,
+  deviceId: string,
+  metric: string,
+  value: number,
+): Classification | null {
+  const tiers = profileThresholds(db, deviceId)?.[metric] ?? DEFAULT_TIERS[metric];
+  if (!tiers || tiers.length === 0) return null;
+
+  const index = tiers.findIndex((tier) => value <= tier.max);
+  const severity = index === -1 ? tiers.length - 1 : index;
+  const { max, label, advice } = tiers[severity];
+  return { max, label, advice, severity };
+}
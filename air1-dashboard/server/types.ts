@@ -47,6 +47,143 @@ export interface HAHistoryRecord {
   last_updated: string;
 }
 
+/**
+ * Raw history record as returned with minimal_response.
+ * Only the first record of each entity carries entity_id and attributes.
+ */
+export interface HAMinimalHistoryRecord {
+  entity_id?: string;
+  state: string;
+  attributes?: Record<string, unknown>;
+  last_changed: string;
+  last_updated?: string;
+}
+
+/**
+ * History of a sensor entity together with the history of its calibration offset
+ */
+export interface SensorHistory {
+  entity_id: string;
+  records: HAHistoryRecord[];
+  offsets: HAHistoryRecord[];
+}
+
+/**
+ * Options for history queries
+ */
+export interface HistoryQueryOptions {
+  // Only return the first record in full, later ones carry state and last_changed
+  minimalResponse?: boolean;
+  // Skip attribute-only changes (HA's default); set false to get every recorded state
+  significantChangesOnly?: boolean;
+  // Omit attributes entirely
+  noAttributes?: boolean;
+}
+
+/**
+ * Message received over the Home Assistant WebSocket API
+ */
+export interface HAWebSocketMessage {
+  type: string;
+  id?: number;
+  success?: boolean;
+  result?: unknown;
+  error?: {
+    code: string;
+    message: string;
+  };
+  event?: HAEventMessage;
+  ha_version?: string;
+  message?: string;
+}
+
+/**
+ * Event payload delivered to an event subscription
+ */
+export interface HAEventMessage<T = unknown> {
+  event_type: string;
+  data: T;
+  origin?: string;
+  time_fired?: string;
+}
+
+/**
+ * Data of a state_changed event
+ */
+export interface HAStateChangedData {
+  entity_id: string;
+  old_state: HAEntity | null;
+  new_state: HAEntity | null;
+}
+
+/**
+ * Entry of the entity registry (config/entity_registry/list)
+ */
+export interface HAEntityRegistryEntry {
+  entity_id: string;
+  device_id: string | null;
+  // Overrides the device's area for this entity
+  area_id: string | null;
+}
+
+/**
+ * Entry of the device registry (config/device_registry/list)
+ */
+export interface HADeviceRegistryEntry {
+  id: string;
+  name: string | null;
+  // Name given in the HA UI, takes precedence over name
+  name_by_user: string | null;
+  manufacturer: string | null;
+  model: string | null;
+  sw_version: string | null;
+  area_id: string | null;
+}
+
+/**
+ * Entry of the area registry (config/area_registry/list)
+ */
+export interface HAAreaRegistryEntry {
+  area_id: string;
+  name: string;
+}
+
+/**
+ * What the HA registries know about an AIR-1 device
+ */
+export interface DeviceRegistryInfo {
+  // ID in the HA device registry
+  ha_device_id: string;
+  name: string | null;
+  // Name of the device's area
+  area: string | null;
+  manufacturer: string | null;
+  model: string | null;
+  sw_version: string | null;
+}
+
+/**
+ * Statistics period of recorder/statistics_during_period
+ */
+export type HAStatisticsPeriod = '5minute' | 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * One period of a long-term statistic from recorder/statistics_during_period
+ */
+export interface HAStatisticsRow {
+  // Start of the period, epoch milliseconds (ISO date before HA 2023.3)
+  start: number | string;
+  end?: number | string;
+  mean?: number | null;
+  min?: number | null;
+  max?: number | null;
+}
+
+/**
+ * Where history is read from
+ */
+export type HistorySource = 'history' | 'statistics';
+
 /**
  * Sensor data after transformation from HA entity
  */
@@ -58,6 +195,7 @@ export interface SensorData {
   sensor_type: string | null;
   value: number | null;
   unit: string | null;
+  correction: ValueCorrection;
   state: string;
   friendly_name: string;
   device_class: string | null;
@@ -66,6 +204,35 @@ export interface SensorData {
   attributes: Record<string, unknown>;
 }
 
+/**
+ * Which corrections were applied to a single value
+ */
+export interface ValueCorrection {
+  unit_conversion: { from: string; to: string } | null;
+  offset: number | null;
+  offset_entity: string | null;
+}
+
+/**
+ * A value after the normalization pipeline
+ */
+export interface NormalizedValue {
+  value: number | null;
+  unit: string | null;
+  correction: ValueCorrection;
+}
+
+/**
+ * Corrections applied across a history series
+ */
+export interface HistoryCorrection {
+  unit_conversion: { from: string; to: string } | null;
+  offset_entity: string | null;
+  // Offset values in effect during the range, each from its change time on
+  offsets: { since: string; value: number }[];
+  decimals: number;
+}
+
 /**
  * Device object with combined sensor readings
  */
@@ -74,7 +241,12 @@ export interface Device {
   device_id: string;
   device_name: string;
   friendly_name: string;
+  // Area of the device in HA
   room: string | null;
+  manufacturer: string | null;
+  model: string | null;
+  // Firmware version
+  sw_version: string | null;
   // Sensor readings
   co2?: number;
   pm25?: number;
@@ -89,6 +261,11 @@ export interface Device {
   pressure?: number;
   rssi?: number;
   uptime?: string;
+  // US EPA AQI (NowCast) and the pollutant that determines it
+  aqi?: number;
+  aqi_pollutant?: 'pm25' | 'pm10';
+  // Index of every standard with enough data, from its own averaging period
+  indices?: Partial<Record<IndexStandardId, IndexValue>>;
 }
 
 /**
@@ -123,6 +300,40 @@ export interface AppConfig {
   sensor_prefix: string;
   update_interval: number;
   history_days: number;
+  recorder_enabled: boolean;
+  recorder_interval: number;
+  raw_retention_days: number;
+  hourly_retention_days: number;
+  daily_retention_days: number;
+  // Days HA's recorder keeps state history (its purge_keep_days); longer ranges use long-term statistics
+  ha_purge_keep_days: number;
+  // Default air quality index standard of the dashboard
+  index_standard: IndexStandardId;
+  // Publish derived values (AQI, status, dew point, ...) as HA entities
+  publish_entities: boolean;
+  // Publish readings and derived metrics to an MQTT broker
+  mqtt_enabled: boolean;
+  mqtt_broker: string;
+  mqtt_username: string;
+  mqtt_password: string;
+  mqtt_topic_prefix: string;
+  // Announce the published sensors through HA MQTT discovery
+  mqtt_discovery: boolean;
+}
+
+/**
+ * Regional air quality index standards the dashboard can render
+ */
+export type IndexStandardId = 'us_epa' | 'eu_caqi' | 'uk_daqi' | 'ca_aqhi' | 'cn_aqi';
+
+/**
+ * Index number of one standard and the pollutant that determines it
+ */
+export interface IndexValue {
+  value: number;
+  pollutant: 'pm25' | 'pm10';
+  // Concentrations averaged over the standard's period (NowCast for US EPA), in µg/m³
+  concentrations: Partial<Record<'pm25' | 'pm10', number>>;
 }
 
 /**
@@ -159,6 +370,9 @@ export interface HistoryResponseData {
   end: string;
   count: number;
   history: TimeSeriesDataPoint[];
+  correction?: HistoryCorrection;
+  // Recorded states, or hourly long-term statistics (mean, with min and max in the attributes)
+  source?: HistorySource;
 }
 
 /**
@@ -167,6 +381,8 @@ export interface HistoryResponseData {
 export interface HealthResponse {
   status: 'ok';
   timestamp: string;
+  live_updates?: boolean;
+  recorder?: boolean;
   config?: {
     sensor_prefix: string;
     update_interval: number;
@@ -196,6 +412,9 @@ export interface MockSensor {
   friendly_name: string;
   room: string | null;
   device_name: string;
+  manufacturer: string | null;
+  model: string | null;
+  sw_version: string | null;
 }
 
 /**
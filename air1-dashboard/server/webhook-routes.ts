@@ -0,0 +1,221 @@
+import { type Request, type Response, Router } from 'express';
+import { type AirQualityDatabase, WEBHOOK_EVENTS, type Webhook, type WebhookEvent, type WebhookInput } from './db';
+import type { WebhookDispatcher } from './webhooks';
+
+// Helper to generate unique ID using Web Crypto API
+function generateId(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Webhook as returned by the API, without its secret
+ */
+function toResponse(webhook: Webhook) {
+  const { secret, ...rest } = webhook;
+  return { ...rest, has_secret: secret !== null };
+}
+
+/**
+ * Validate a webhook from a request body, on top of the existing webhook when updating.
+ * The secret of an existing webhook is kept unless the body sets it.
+ * @returns The webhook, or an error message
+ */
+function parseWebhook(body: unknown, existing: Webhook | null): { webhook: WebhookInput } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Expected a JSON object' };
+  }
+
+  const input = { ...existing, ...body } as Record<string, unknown>;
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    return { error: 'Missing required field: name' };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(String(input.url ?? ''));
+  } catch {
+    return { error: 'Invalid url' };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { error: 'url must use http or https' };
+  }
+
+  const events = input.events;
+  if (
+    !Array.isArray(events) ||
+    events.length === 0 ||
+    !events.every((event) => WEBHOOK_EVENTS.includes(event as WebhookEvent))
+  ) {
+    return { error: `events must be a non-empty array of: ${WEBHOOK_EVENTS.join(', ')}` };
+  }
+
+  const secret = input.secret ?? null;
+  if (secret !== null && typeof secret !== 'string') {
+    return { error: 'secret must be a string or null' };
+  }
+
+  return {
+    webhook: {
+      id: existing?.id ?? generateId(),
+      name,
+      url: url.toString(),
+      secret: secret || null,
+      events: [...new Set(events as WebhookEvent[])],
+      enabled: input.enabled !== false,
+    },
+  };
+}
+
+/**
+ * Create the webhook API router
+ * @param db - Database the webhooks and dead letters are stored in
+ * @param dispatcher - Dispatcher delivering test events and dead letters
+ */
+export function createWebhookRouter(db: AirQualityDatabase, dispatcher: WebhookDispatcher): Router {
+  const router = Router();
+
+  // GET / - All webhooks
+  router.get('/', (req: Request, res: Response) => {
+    try {
+      res.json({ webhooks: db.getWebhooks().map(toResponse) });
+    } catch (error) {
+      console.error('Error fetching webhooks:', error);
+      res.status(500).json({ error: 'Failed to fetch webhooks' });
+    }
+  });
+
+  // POST / - Create a webhook
+  router.post('/', (req: Request, res: Response) => {
+    try {
+      const parsed = parseWebhook(req.body, null);
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      res.status(201).json(toResponse(db.saveWebhook(parsed.webhook)));
+    } catch (error) {
+      console.error('Error creating webhook:', error);
+      res.status(500).json({ error: 'Failed to create webhook' });
+    }
+  });
+
+  // GET /dead-letters - Deliveries that failed after every retry, most recent first
+  router.get('/dead-letters', (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? Number.parseInt(req.query.limit as string, 10) : 100;
+      if (Number.isNaN(limit)) {
+        res.status(400).json({ error: 'Invalid limit, expected a number' });
+        return;
+      }
+
+      const deadLetters = db.getDeadLetters({ limit, webhook_id: req.query.webhook_id as string | undefined });
+      res.json({ dead_letters: deadLetters, count: deadLetters.length });
+    } catch (error) {
+      console.error('Error fetching dead letters:', error);
+      res.status(500).json({ error: 'Failed to fetch dead letters' });
+    }
+  });
+
+  // POST /dead-letters/:id/retry - Deliver a dead letter again, it is removed once delivered
+  router.post('/dead-letters/:id/retry', async (req: Request, res: Response) => {
+    try {
+      const letter = db.getDeadLetter(Number.parseInt(req.params.id, 10));
+      if (!letter) {
+        res.status(404).json({ error: 'Dead letter not found' });
+        return;
+      }
+
+      res.json(await dispatcher.redeliver(letter));
+    } catch (error) {
+      console.error('Error redelivering dead letter:', error);
+      res.status(500).json({ error: 'Failed to redeliver dead letter' });
+    }
+  });
+
+  // DELETE /dead-letters/:id - Discard a dead letter
+  router.delete('/dead-letters/:id', (req: Request, res: Response) => {
+    try {
+      if (!db.deleteDeadLetter(Number.parseInt(req.params.id, 10))) {
+        res.status(404).json({ error: 'Dead letter not found' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting dead letter:', error);
+      res.status(500).json({ error: 'Failed to delete dead letter' });
+    }
+  });
+
+  // GET /:id - Single webhook
+  router.get('/:id', (req: Request, res: Response) => {
+    try {
+      const webhook = db.getWebhook(req.params.id);
+      if (!webhook) {
+        res.status(404).json({ error: 'Webhook not found' });
+        return;
+      }
+      res.json(toResponse(webhook));
+    } catch (error) {
+      console.error('Error fetching webhook:', error);
+      res.status(500).json({ error: 'Failed to fetch webhook' });
+    }
+  });
+
+  // PUT /:id - Update a webhook
+  router.put('/:id', (req: Request, res: Response) => {
+    try {
+      const existing = db.getWebhook(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: 'Webhook not found' });
+        return;
+      }
+
+      const parsed = parseWebhook(req.body, existing);
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      res.json(toResponse(db.saveWebhook(parsed.webhook)));
+    } catch (error) {
+      console.error('Error updating webhook:', error);
+      res.status(500).json({ error: 'Failed to update webhook' });
+    }
+  });
+
+  // DELETE /:id - Delete a webhook with its dead letters
+  router.delete('/:id', (req: Request, res: Response) => {
+    try {
+      if (!db.deleteWebhook(req.params.id)) {
+        res.status(404).json({ error: 'Webhook not found' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting webhook:', error);
+      res.status(500).json({ error: 'Failed to delete webhook' });
+    }
+  });
+
+  // POST /:id/test - Send a test event once and report the outcome
+  router.post('/:id/test', async (req: Request, res: Response) => {
+    try {
+      const webhook = db.getWebhook(req.params.id);
+      if (!webhook) {
+        res.status(404).json({ error: 'Webhook not found' });
+        return;
+      }
+
+      res.json(await dispatcher.test(webhook));
+    } catch (error) {
+      console.error('Error testing webhook:', error);
+      res.status(500).json({ error: 'Failed to test webhook' });
+    }
+  });
+
+  return router;
+}
+
+export default createWebhookRouter;
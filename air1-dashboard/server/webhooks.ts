@@ -0,0 +1,322 @@
+/**
+ * Outbound Webhooks
+ *
+ * POSTs stored readings, alert transitions and daily summaries as JSON to
+ * user-configured URLs (Node-RED, logging services, ...). Requests are signed
+ * with HMAC-SHA256 over their timestamp and body when the webhook has a secret.
+ * Failed deliveries are retried with exponential backoff; after the last attempt,
+ * or when the dispatcher stops first, they go to the dead-letter table, from
+ * where they can be redelivered.
+ */
+
+import { createHmac } from 'node:crypto';
+import type { AirQualityDatabase, MetricAggregate, Webhook, WebhookDeadLetter, WebhookEvent } from './db';
+import type { Device } from './types';
+
+// Attempts per delivery, the first one included
+const MAX_ATTEMPTS = 5;
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DeliveryResult {
+  ok: boolean;
+  // HTTP status of the last attempt, null when no response was received
+  status: number | null;
+  attempts: number;
+  error: string | null;
+}
+
+// A delivery of dispatch() that has not succeeded or been dead-lettered yet
+interface PendingDelivery {
+  webhook: Webhook;
+  event: string;
+  body: string;
+  attempts: number;
+  error: string | null;
+  // Set while waiting for the next attempt
+  retry: { timer: ReturnType<typeof setTimeout>; wake: () => void } | null;
+  // Dead-lettered by stop(), the delivery must not be continued or recorded again
+  cancelled: boolean;
+}
+
+export interface DailySummary {
+  // UTC day, YYYY-MM-DD
+  date: string;
+  start: number;
+  end: number;
+  devices: {
+    device_id: string;
+    device_name: string;
+    room: string | null;
+    metrics: Record<string, MetricAggregate>;
+  }[];
+}
+
+/**
+ * Safely extract error message from unknown error type
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+/**
+ * Signature header value of a request: HMAC of `<timestamp>.<body>`, so a
+ * captured request cannot be replayed later with a new timestamp
+ * @param timestamp - Value of the X-Air1-Timestamp header (Unix seconds)
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Only timeouts and rate limits are worth retrying among client errors
+ */
+function isRetryable(status: number | null): boolean {
+  return status === null || status >= 500 || status === 408 || status === 429;
+}
+
+export class WebhookDispatcher {
+  private summaryTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending = new Set<PendingDelivery>();
+  private stopped = false;
+
+  /**
+   * @param db - Webhooks and dead letters
+   * @param getDevices - Devices included in daily summaries
+   * @param retryBaseMs - Delay before the first retry, doubled for every further one
+   */
+  constructor(
+    private readonly db: AirQualityDatabase,
+    private readonly getDevices: () => Promise<Device[]>,
+    private readonly retryBaseMs = 1000,
+  ) {}
+
+  /**
+   * Send daily summaries shortly after every UTC midnight
+   */
+  start(): void {
+    this.stopped = false;
+    if (this.summaryTimer) return;
+    this.scheduleSummary();
+  }
+
+  /**
+   * Stop daily summaries. Deliveries that have not succeeded yet, waiting for a
+   * retry or with a request in flight, go to the dead-letter table right away,
+   * so none is lost when the process exits.
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.summaryTimer) {
+      clearTimeout(this.summaryTimer);
+      this.summaryTimer = null;
+    }
+
+    for (const delivery of this.pending) {
+      delivery.cancelled = true;
+      if (delivery.retry) {
+        clearTimeout(delivery.retry.timer);
+        delivery.retry.wake();
+      }
+      this.deadLetter(delivery, delivery.error ?? 'Dispatcher stopped before delivery');
+    }
+    if (this.pending.size > 0) {
+      console.log(`[Webhooks] Moved ${this.pending.size} unfinished deliveries to the dead-letter table`);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Deliver an event to every enabled webhook subscribed to it, in the background
+   */
+  dispatch(event: WebhookEvent, data: unknown): void {
+    const webhooks = this.db.getWebhooks().filter((webhook) => webhook.enabled && webhook.events.includes(event));
+    if (webhooks.length === 0) return;
+
+    const body = JSON.stringify({ event, timestamp: Date.now(), data });
+    for (const webhook of webhooks) {
+      this.deliver(webhook, event, body).catch((error: unknown) => {
+        console.error(`[Webhooks] Delivery to ${webhook.name} failed:`, getErrorMessage(error));
+      });
+    }
+  }
+
+  /**
+   * Send a test event once, without retries or dead-lettering
+   */
+  test(webhook: Webhook): Promise<DeliveryResult> {
+    const body = JSON.stringify({
+      event: 'test',
+      timestamp: Date.now(),
+      data: { message: `Test delivery for webhook "${webhook.name}"` },
+    });
+    return this.attempt(webhook, 'test', body, 1);
+  }
+
+  /**
+   * Deliver a dead letter again with its original body, removing it once delivered
+   */
+  async redeliver(letter: WebhookDeadLetter): Promise<DeliveryResult> {
+    const webhook = this.db.getWebhook(letter.webhook_id);
+    if (!webhook) {
+      return { ok: false, status: null, attempts: 0, error: 'Webhook not found' };
+    }
+
+    const result = await this.attempt(webhook, letter.event, letter.payload, 1);
+    if (result.ok) this.db.deleteDeadLetter(letter.id);
+    return result;
+  }
+
+  /**
+   * Summary of a UTC day: min, max, average and p95 per device and metric
+   * @param dayStart - Start of the day (epoch ms, UTC midnight)
+   */
+  async buildDailySummary(dayStart: number): Promise<DailySummary> {
+    const devices = await this.getDevices();
+    const summary: DailySummary = {
+      date: new Date(dayStart).toISOString().slice(0, 10),
+      start: dayStart,
+      end: dayStart + DAY_MS,
+      devices: [],
+    };
+
+    for (const device of devices) {
+      const [row] = this.db.getAggregates({
+        bucket: '1d',
+        device_id: device.device_id,
+        since: dayStart,
+        until: dayStart + DAY_MS,
+      });
+      if (!row) continue;
+
+      summary.devices.push({
+        device_id: device.device_id,
+        device_name: device.device_name,
+        room: device.room,
+        metrics: row.metrics,
+      });
+    }
+
+    return summary;
+  }
+
+  private async deliver(webhook: Webhook, event: string, body: string): Promise<void> {
+    const delivery: PendingDelivery = { webhook, event, body, attempts: 0, error: null, retry: null, cancelled: false };
+    this.pending.add(delivery);
+
+    try {
+      const result = await this.attempt(webhook, event, body, MAX_ATTEMPTS, delivery);
+      // Dead-lettered by stop() in the meantime
+      if (result.ok || delivery.cancelled) return;
+
+      console.error(
+        `[Webhooks] Giving up on ${event} for ${webhook.name} after ${result.attempts} attempt(s): ${result.error}`,
+      );
+      this.deadLetter(delivery, result.error ?? 'Unknown error');
+    } finally {
+      this.pending.delete(delivery);
+    }
+  }
+
+  private deadLetter(delivery: PendingDelivery, error: string): void {
+    this.db.insertDeadLetter({
+      webhook_id: delivery.webhook.id,
+      event: delivery.event,
+      payload: delivery.body,
+      attempts: delivery.attempts,
+      last_error: error,
+      created_at: Date.now(),
+    });
+  }
+
+  /**
+   * POST a body, retrying failures with exponential backoff
+   * @param delivery - Progress of a dispatched delivery, so stop() can dead-letter it
+   */
+  private async attempt(
+    webhook: Webhook,
+    event: string,
+    body: string,
+    maxAttempts: number,
+    delivery?: PendingDelivery,
+  ): Promise<DeliveryResult> {
+    const deliveryId = crypto.randomUUID();
+    let status: number | null = null;
+    let error: string | null = null;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Every attempt is signed with its own timestamp
+      const timestamp = Math.floor(Date.now() / 1000);
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'User-Agent': 'air1-dashboard',
+        'X-Air1-Event': event,
+        'X-Air1-Delivery': deliveryId,
+        'X-Air1-Timestamp': String(timestamp),
+      };
+      if (webhook.secret) {
+        headers['X-Air1-Signature'] = signPayload(webhook.secret, timestamp, body);
+      }
+
+      try {
+        const response = await fetch(webhook.url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        status = response.status;
+        if (response.ok) {
+          return { ok: true, status, attempts: attempt, error: null };
+        }
+        error = `HTTP ${response.status}: ${response.statusText}`;
+      } catch (err: unknown) {
+        status = null;
+        error = getErrorMessage(err);
+      }
+
+      if (delivery) {
+        delivery.attempts = attempt;
+        delivery.error = error;
+      }
+      if (attempt === maxAttempts || !isRetryable(status) || this.stopped || delivery?.cancelled) {
+        return { ok: false, status, attempts: attempt, error };
+      }
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, this.retryBaseMs * 2 ** (attempt - 1));
+        if (delivery) delivery.retry = { timer, wake: resolve };
+      });
+      if (delivery) {
+        delivery.retry = null;
+        if (delivery.cancelled) return { ok: false, status, attempts: attempt, error };
+      }
+    }
+
+    return { ok: false, status, attempts: maxAttempts, error };
+  }
+
+  private scheduleSummary(): void {
+    // A minute past midnight, so the last readings of the day are stored
+    const delay = DAY_MS - (Date.now() % DAY_MS) + 60 * 1000;
+
+    this.summaryTimer = setTimeout(async () => {
+      this.scheduleSummary();
+
+      const subscribed = this.db.getWebhooks().some((w) => w.enabled && w.events.includes('daily_summary'));
+      if (!subscribed) return;
+
+      try {
+        const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+        this.dispatch('daily_summary', await this.buildDailySummary(today - DAY_MS));
+      } catch (error: unknown) {
+        console.error('[Webhooks] Failed to build daily summary:', getErrorMessage(error));
+      }
+    }, delay);
+  }
+}
+
+export default WebhookDispatcher;